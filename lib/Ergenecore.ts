@@ -1,7 +1,5 @@
-import type { WebsocketRouteParams } from '@asenajs/asena/adapter';
 import {
   AsenaAdapter,
-  type AsenaServeOptions,
   type BaseMiddleware,
   type BaseStaticServeParams,
   type BaseValidator,
@@ -12,14 +10,90 @@ import {
 } from '@asenajs/asena/adapter';
 import { blue, green, red, type ServerLogger, yellow } from '@asenajs/asena/logger';
 import type { GlobalMiddlewareConfig } from '@asenajs/asena/server/config';
-import { shouldApplyMiddleware } from '@asenajs/asena/utlis';
+import { matchesPattern, shouldApplyMiddleware } from '@asenajs/asena/utlis';
+import { HttpMethod } from '@asenajs/asena/web-types';
 import { ErgenecoreWebsocketAdapter } from './ErgenecoreWebsocketAdapter';
 import { type Context, ErgenecoreContextWrapper } from './ErgenecoreContextWrapper';
-import type { Server } from 'bun';
+import type { BunRequest, Server, TLSOptions } from 'bun';
 import * as Bun from 'bun';
+import { type FSWatcher, watch } from 'fs';
 import * as path from 'path';
-import type { StaticServeExtras, ValidationSchema, ValidationSchemaWithHook } from './types';
-import { HttpException, MiddlewareResponseError } from './errors';
+import type {
+  ControllerOptions,
+  ErgenecoreRouteParams,
+  ErgenecoreServeOptions,
+  ErgenecoreWebsocketRouteParams,
+  HealthCheck,
+  HealthCheckOptions,
+  HealthOptions,
+  HealthReport,
+  InjectOptions,
+  LifecycleHooks,
+  ListenerOptions,
+  MethodNotAllowedHandler,
+  NoSchemas,
+  NotFoundHandler,
+  OnErrorHook,
+  OnResponseHook,
+  ParamMatcher,
+  PathNormalizationOptions,
+  RequestHook,
+  RequestHookName,
+  RequestTimeoutOptions,
+  RouteContext,
+  RouteDefinitionHandler,
+  RouteDefinitionOptions,
+  RouteGroupOptions,
+  RouteHooks,
+  RouteInfo,
+  RouteSchemas,
+  SerializerOptions,
+  ShutdownHook,
+  ShutdownSignalOptions,
+  StaticRouteValue,
+  StaticServeExtras,
+  TlsOptions,
+  ValidationSchema,
+  ValidationSchemaWithHook,
+} from './types';
+import { HttpException, PayloadTooLargeException, RequestTimeoutException } from './errors';
+import { type RouteMatch, RouteMatcher } from './utils/RouteMatcher';
+import { InjectResponse } from './utils/InjectResponse';
+import { detectRouteConflicts } from './utils/RouteConflicts';
+import { compileSchemaFilter, compileSchemaSerializer, createJsonSerializer } from './utils/Serializer';
+import { coerceResponse } from './utils/ResponseCoercion';
+import {
+  compileMiddlewareChain,
+  dedupeMiddlewares,
+  getMiddlewareName,
+  isSameMiddleware,
+} from './utils/MiddlewarePipeline';
+import {
+  getRequestHostname,
+  hasHostQualifiedPatterns,
+  HostPattern,
+  mayApplyHostScopedMiddleware,
+  shouldApplyHostScopedMiddleware,
+} from './utils/HostMatcher';
+import { createStaticResponse, isHtmlBundle, isStaticRouteValue } from './utils/StaticRoutes';
+import {
+  ACME_CHALLENGE_PATH,
+  createAcmeChallengeHandler,
+  createHttpsRedirect,
+  getCertificateFiles,
+  loadTlsCertificates,
+  validateTlsOptions,
+} from './utils/Tls';
+import { type RegisteredHealthCheck, runHealthChecks } from './utils/Health';
+import { type GroupDefinition, RouteGroup } from './utils/RouteGroup';
+import {
+  BUILT_IN_PARAM_MATCHERS,
+  compileParamResolver,
+  getParamNames,
+  getRouteShape,
+  hasParamConstraints,
+  stripParamConstraints,
+} from './utils/ParamMatchers';
 
 /**
  * Static response headers for performance
@@ -29,6 +103,85 @@ import { HttpException, MiddlewareResponseError } from './errors';
  */
 const STATIC_JSON_HEADERS = Object.freeze({ 'Content-Type': 'application/json' });
 
+/**
+ * Methods that can be registered on a path in Bun's route table
+ *
+ * Missing methods on a known path are answered with 405 Method Not Allowed.
+ */
+const ROUTABLE_METHODS: Bun.Serve.HTTPMethod[] = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+/**
+ * Delay before reloading changed certificate files (renewals write several files)
+ */
+const TLS_RELOAD_DELAY_MS = 100;
+
+/**
+ * Handler stored in Bun's route table
+ */
+type RouteHandler = (req: Request, server?: Server<unknown>) => Response | undefined | Promise<Response | undefined>;
+
+/**
+ * Value answering a route for every method (handler or static value)
+ */
+type RouteValue = RouteHandler | StaticRouteValue;
+
+/**
+ * Handlers of a path by HTTP method
+ */
+type MethodHandlers = Partial<Record<Bun.Serve.HTTPMethod, RouteHandler>>;
+
+/**
+ * Bun route table (handlers by method, catch-all handlers and static values)
+ */
+type RouteTable = Record<string, RouteValue | MethodHandlers>;
+
+/**
+ * Options of Bun.serve() and Server.reload() (WebSocket routes answer upgrades with undefined)
+ */
+type ServeOptions = Bun.Serve.Options<unknown, string>;
+
+/**
+ * Hooks that run per request, in pipeline order
+ */
+const REQUEST_HOOK_NAMES: RequestHookName[] = [
+  'onRequest',
+  'preValidation',
+  'preHandler',
+  'onSend',
+  'onResponse',
+  'onError',
+];
+
+/**
+ * Request hooks of a route (global hooks first, then controller and route hooks)
+ */
+type ResolvedRouteHooks = { [K in RequestHookName]: LifecycleHooks[K][] };
+
+/**
+ * Route table of a listener with the state of its catch-all handler
+ */
+interface RouteTableState {
+  /**
+   * Bun router object
+   */
+  routes: RouteTable;
+
+  /**
+   * Trailing slash aliases that redirect to the registered path
+   */
+  redirectAliases: Set<string>;
+
+  /**
+   * Matcher for requests Bun could not match (honors the case sensitivity policy)
+   */
+  normalizedMatcher?: RouteMatcher<RouteValue>;
+
+  /**
+   * Generated 404 catch-all (undefined when a route was registered on '/*')
+   */
+  notFoundHandler?: RouteHandler;
+}
+
 /**
  * CoreAdapter - Native Bun adapter for Asenajs
  *
@@ -63,24 +216,183 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * Route queue for deferred registration
    * Routes are queued during initialization and built when server starts
    */
-  private routeQueue: RouteParams<Context, ValidationSchemaWithHook>[] = [];
+  private routeQueue: ErgenecoreRouteParams[] = [];
 
   /**
    * WebSocket route queue for deferred registration
    * WebSocket routes are queued during initialization and built when server starts
    */
-  private wsRouteQueue: WebsocketRouteParams<Context>[] = [];
+  private wsRouteQueue: ErgenecoreWebsocketRouteParams[] = [];
 
   /**
    * Flag to track if routes have been built
    */
   private routesBuilt = false;
 
+  /**
+   * Last built Bun route table (HTTP + WebSocket)
+   * Reused by inject() and reset whenever routes, middlewares or the error handler change
+   */
+  private routeTable?: RouteTable;
+
+  /**
+   * Lazily created matcher over routeTable for in-process dispatch
+   */
+  private routeMatcher?: RouteMatcher<RouteValue>;
+
+  /**
+   * Flag to coalesce multiple runtime registration changes into a single reload
+   */
+  private reloadScheduled = false;
+
   /**
    * Error handler function
    */
   private errorHandler?: ErrorHandler<Context>;
 
+  /**
+   * Custom handler for unmatched paths
+   */
+  private notFoundHandler?: NotFoundHandler;
+
+  /**
+   * Custom handler for known paths requested with an unregistered method
+   */
+  private methodNotAllowedHandler?: MethodNotAllowedHandler;
+
+  /**
+   * Refuse to build the route table when duplicate or ambiguous routes are found
+   */
+  private strictRouting = false;
+
+  /**
+   * Path normalization policy (trailing slash, case, duplicate slashes)
+   */
+  private pathNormalization: Required<PathNormalizationOptions> = {
+    trailingSlash: 'strict',
+    caseSensitive: true,
+    collapseSlashes: false,
+  };
+
+  /**
+   * Adapter options per controller name (e.g., host scope)
+   */
+  private controllerOptions = new Map<string, ControllerOptions>();
+
+  /**
+   * Runtime-filtered wrappers of global middlewares with host-qualified patterns
+   */
+  private hostScopedMiddlewares = new WeakMap<object, BaseMiddleware<Context>>();
+
+  /**
+   * Hooks run after the server has stopped during graceful shutdown
+   */
+  private shutdownHooks: ShutdownHook[] = [];
+
+  /**
+   * In-progress graceful shutdown (repeated calls share it)
+   */
+  private shutdownPromise?: Promise<void>;
+
+  /**
+   * Process signal listeners installed by enableShutdownSignals()
+   */
+  private signalListeners = new Map<NodeJS.Signals, () => void>();
+
+  /**
+   * Global lifecycle hooks in registration order
+   */
+  private hooks: { [K in keyof LifecycleHooks]: LifecycleHooks[K][] } = {
+    onRequest: [],
+    preValidation: [],
+    preHandler: [],
+    onSend: [],
+    onResponse: [],
+    onError: [],
+    onStart: [],
+    onStop: [],
+  };
+
+  /**
+   * Whether the server has started and onStop hooks are pending
+   */
+  private running = false;
+
+  /**
+   * Global serializer options for handler return values
+   */
+  private serializerOptions: SerializerOptions = {};
+
+  /**
+   * Static routes (Response, HTML bundle or BunFile) by path
+   */
+  private staticRoutes = new Map<string, StaticRouteValue>();
+
+  /**
+   * Additional listeners (see addListener())
+   */
+  private listeners: ListenerOptions[] = [];
+
+  /**
+   * Bun servers of the additional listeners by name
+   */
+  private listenerServers = new Map<string, Server<unknown>>();
+
+  /**
+   * TLS configuration of the main listener (see setTls())
+   */
+  private tlsOptions?: TlsOptions;
+
+  /**
+   * Certificates read from the TLS certificate files
+   */
+  private tlsCertificates?: TLSOptions[];
+
+  /**
+   * Watchers of the directories containing certificate files
+   */
+  private tlsWatchers: FSWatcher[] = [];
+
+  /**
+   * Pending certificate reload (coalesces file change events)
+   */
+  private tlsReloadTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Bun server of the HTTP→HTTPS redirect listener
+   */
+  private redirectServer?: Server<unknown>;
+
+  /**
+   * Bind the main port with SO_REUSEPORT (cluster workers share the port)
+   */
+  private reusePort = false;
+
+  /**
+   * Whether start() completed (reported by the readiness endpoint)
+   */
+  private ready = false;
+
+  /**
+   * Registered health checks by name
+   */
+  private healthChecks = new Map<string, RegisteredHealthCheck>();
+
+  /**
+   * Paths of the health endpoints (undefined until enableHealthChecks())
+   */
+  private healthOptions?: Required<HealthOptions>;
+
+  /**
+   * Registers the routes of the programmatic route API (see get(), group())
+   */
+  private readonly rootGroup = new RouteGroup<''>((params) => this.registerRoute(params));
+
+  /**
+   * Custom param matchers by name (see addParamMatcher())
+   */
+  private readonly paramMatchers = new Map<string, ParamMatcher>();
+
   /**
    * Global middlewares with route configuration
    * Structure: Array<{ middleware, config }>
@@ -91,7 +403,7 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
     config?: GlobalMiddlewareConfig['routes'];
   }[] = [];
 
-  private options: AsenaServeOptions = {} satisfies AsenaServeOptions;
+  private options: ErgenecoreServeOptions = {} satisfies ErgenecoreServeOptions;
 
   /**
    * Creates a new CoreAdapter instance
@@ -122,14 +434,39 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * });
    * ```
    */
-  public async registerWebsocketRoute(params: WebsocketRouteParams<Context>): Promise<void> {
+  public async registerWebsocketRoute(params: ErgenecoreWebsocketRouteParams): Promise<void> {
     // Queue WebSocket route for building during start()
     this.wsRouteQueue.push(params);
+    this.invalidateRouteTable();
 
     // Register WebSocket service with adapter using the route path (not namespace)
     if (this.websocketAdapter && params.websocketService) {
       await this.websocketAdapter.registerWebSocket(params.websocketService);
     }
+
+    this.scheduleReload();
+  }
+
+  /**
+   * Removes a WebSocket route
+   *
+   * On a running server the route table is reloaded, so new upgrade requests
+   * are rejected while already open connections stay alive.
+   *
+   * @param path - WebSocket route path
+   * @returns true if a route was removed
+   */
+  public removeWebsocketRoute(path: string): boolean {
+    const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+    const before = this.wsRouteQueue.length;
+
+    this.wsRouteQueue = this.wsRouteQueue.filter((route) => {
+      const routePath = route.path.startsWith('/') ? route.path : `/${route.path}`;
+
+      return routePath !== normalizedPath;
+    });
+
+    return this.applyQueueChange(before !== this.wsRouteQueue.length);
   }
 
   /**
@@ -141,6 +478,74 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
     this.port = port;
   }
 
+  /**
+   * Binds the main port with `reusePort`
+   *
+   * Lets several processes listen on the same port, with the kernel
+   * distributing connections (Linux). Enabled automatically for cluster workers.
+   *
+   * @param reusePort - Whether to share the port
+   */
+  public setReusePort(reusePort: boolean): void {
+    this.reusePort = reusePort;
+  }
+
+  /**
+   * Enables or disables strict routing
+   *
+   * Duplicate routes and parameter name conflicts are always logged as errors
+   * (the last registered route wins). In strict mode they make start() and
+   * inject() throw instead. Wildcard overlaps are only logged as warnings.
+   *
+   * @param strict - Whether route conflicts should be fatal
+   */
+  public setStrictRouting(strict: boolean): void {
+    this.strictRouting = strict;
+    this.invalidateRouteTable();
+  }
+
+  /**
+   * Configures how request paths are matched against registered routes
+   *
+   * Options not provided keep their current value. Applies to both HTTP and
+   * WebSocket routes.
+   *
+   * @param options - Path normalization policy
+   *
+   * @example
+   * ```typescript
+   * // Serve /users/ from /users, redirect with 308 and match case-insensitively
+   * adapter.setPathNormalization({ trailingSlash: 'redirect-308', caseSensitive: false });
+   * ```
+   */
+  public setPathNormalization(options: PathNormalizationOptions): void {
+    this.pathNormalization = { ...this.pathNormalization, ...options };
+    this.invalidateRouteTable();
+    this.scheduleReload();
+  }
+
+  /**
+   * Sets adapter options for all routes of a controller
+   *
+   * Applies to HTTP and WebSocket routes registered with the given
+   * controller name, whether registered before or after this call.
+   * Options not provided keep their current value.
+   *
+   * @param controllerName - Controller name (as passed in route params)
+   * @param options - Controller options
+   *
+   * @example
+   * ```typescript
+   * adapter.configureController('AdminController', { host: 'admin.example.com' });
+   * adapter.configureController('TenantController', { host: ':tenant.example.com' });
+   * ```
+   */
+  public configureController(controllerName: string, options: ControllerOptions): void {
+    this.controllerOptions.set(controllerName, { ...this.controllerOptions.get(controllerName), ...options });
+    this.invalidateRouteTable();
+    this.scheduleReload();
+  }
+
   /**
    * Registers a global middleware with optional pattern matching
    *
@@ -161,13 +566,30 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    */
   public use(middleware: BaseMiddleware<Context>, config?: GlobalMiddlewareConfig['routes']): void {
     this.globalMiddlewares.push({ middleware, config });
+    this.invalidateRouteTable();
+    this.scheduleReload();
+  }
+
+  /**
+   * Removes a global middleware registered with use()
+   *
+   * @param middleware - Middleware instance passed to use()
+   * @returns true if the middleware was removed
+   */
+  public removeMiddleware(middleware: BaseMiddleware<Context>): boolean {
+    const before = this.globalMiddlewares.length;
+
+    this.globalMiddlewares = this.globalMiddlewares.filter((entry) => entry.middleware !== middleware);
+
+    return this.applyQueueChange(before !== this.globalMiddlewares.length);
   }
 
   /**
    * Registers a route (deferred registration)
    *
    * Routes are queued and will be built into Bun's native router format
-   * when the server starts.
+   * when the server starts. Routes registered after start() are applied
+   * to the running server via server.reload().
    *
    * @param params - Route parameters
    *
@@ -181,108 +603,1835 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * });
    * ```
    */
-  public registerRoute(params: RouteParams<Context, ValidationSchemaWithHook>): void {
+  public registerRoute(params: ErgenecoreRouteParams): void {
     this.routeQueue.push(params);
+    this.invalidateRouteTable();
+    this.scheduleReload();
   }
 
   /**
-   * Starts the Bun server
+   * Replaces the route registered for the same method, path and host
    *
-   * Builds routes from queue (HTTP + WebSocket) and starts Bun.serve() with native router.
+   * Registers the route if no matching route exists.
    *
-   * Process:
-   * 1. Build HTTP routes from route queue
-   * 2. Build WebSocket routes from WebSocket route queue
-   * 3. Check for path collisions (HTTP GET vs WebSocket GET)
-   * 4. Merge HTTP and WebSocket routes
-   * 5. Prepare WebSocket adapter
-   * 6. Start Bun server with merged routes
+   * @param params - Route parameters
    *
-   * @param port - Optional port to override default
-   * @returns Bun server instance
+   * @example
+   * ```typescript
+   * adapter.replaceRoute({
+   *   method: HttpMethod.GET,
+   *   path: '/health',
+   *   middlewares: [],
+   *   handler: async (ctx) => ctx.send({ status: 'degraded' })
+   * });
+   * ```
    */
-  public async start(port?: number): Promise<Server<any>> {
-    // Build routes if not built yet
-    const serverHostname = this._hostname;
-
-    if (!this.routesBuilt) {
-      // 1. Build HTTP routes
-      const httpRoutes = this.buildBunRoutes();
-
-      // 2. Build WebSocket routes
-      const wsRoutes = this.buildWebSocketRoutes();
-
-      // 3. Check for path collisions
-      this.checkPathCollisions(httpRoutes, wsRoutes);
-
-      // 4. Merge routes
-      const finalRoutes = this.mergeRoutes(httpRoutes, wsRoutes);
-
-      // 5. Prepare WebSocket before starting server
-      await this.websocketAdapter.prepareWebSocket(this.options.wsOptions);
-
-      const serverPort = port ?? this.port;
-
-      // 6. Start Bun server with merged routes
-      this.server = Bun.serve({
-        ...this.options.serveOptions,
-        port: serverPort,
-        hostname: serverHostname,
-        routes: finalRoutes,
-        websocket: this.websocketAdapter.websocket,
-      } as any);
-
-      // Start WebSocket server (initializes AsenaWebSocketServer for each namespace)
-      await this.websocketAdapter.startWebsocket(this.server);
-
-      this.routesBuilt = true;
-
-      // Log controller summary first
-      if (this.routeQueue.length > 0 || this.wsRouteQueue.length > 0) {
-        this.logControllerSummary();
-
-        // Then log detailed route list
-        this.logger.info(this.buildControllerBasedLog());
-      } else {
-        this.logger.info('No routes registered');
-      }
-    }
-
-    const hostDisplay = serverHostname || 'localhost';
-
-    this.logger.info(`Server ready → http://${hostDisplay}:${this.server.port}`);
-
-    return this.server;
+  public replaceRoute(params: ErgenecoreRouteParams): void {
+    const method = params.method.toUpperCase();
+    const host = this.getRouteHost(params);
+
+    this.routeQueue = this.routeQueue.filter(
+      (route) =>
+        !(route.path === params.path && route.method.toUpperCase() === method && this.getRouteHost(route) === host),
+    );
+    this.registerRoute(params);
   }
 
   /**
-   * Stops the server
+   * Removes a route
    *
-   * @param closeActiveConnections - Whether to close active connections
-   */
-  public async stop(closeActiveConnections = true): Promise<void> {
-    if (this.server) {
-      await this.server.stop(closeActiveConnections);
-      this.logger.info('Server stopped');
-    }
-  }
-
-  /**
-   * Sets the error handler
+   * On a running server the route table is reloaded via server.reload()
+   * without dropping active connections.
    *
-   * @param errorHandler - Error handler function
+   * Only the route scoped to the given host (or the unscoped route when no
+   * host is given) is removed, matching replaceRoute().
+   *
+   * @param method - HTTP method
+   * @param path - Route path as registered
+   * @param host - Host pattern of the route (route or controller host)
+   * @returns true if a route was removed
+   *
+   * @example
+   * ```typescript
+   * adapter.removeRoute('GET', '/users', 'admin.example.com');
+   * ```
    */
-  public onError(errorHandler: ErrorHandler<Context>): void {
-    this.errorHandler = errorHandler;
+  public removeRoute(method: string, path: string, host?: string): boolean {
+    const before = this.routeQueue.length;
+
+    this.routeQueue = this.routeQueue.filter(
+      (route) =>
+        !(
+          route.path === path &&
+          route.method.toUpperCase() === method.toUpperCase() &&
+          this.getRouteHost(route) === host
+        ),
+    );
+
+    return this.applyQueueChange(before !== this.routeQueue.length);
   }
 
   /**
-   * Sets serve options
+   * Registers a GET route without a controller
+   *
+   * Programmatic routes are registered with registerRoute(), so they share
+   * the route queue, fast path detection and startup log of controller routes.
+   *
+   * @param path - Route path
+   * @param handler - Route handler (may return any value supported by the response serializer)
+   * @param options - Middlewares, validator (or Zod schemas by target) and route options
+   * @returns The adapter, for chaining
+   *
+   * @example
+   * ```typescript
+   * adapter.get('/users/:id', (ctx) => users.find(ctx.getParam('id')), { middlewares: [auth] });
+   * ```
+   */
+  public get<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<Path, Schemas>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    return this.route(HttpMethod.GET, path, handler, options);
+  }
+
+  /**
+   * Registers a POST route without a controller (see get())
+   */
+  public post<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<Path, Schemas>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    return this.route(HttpMethod.POST, path, handler, options);
+  }
+
+  /**
+   * Registers a PUT route without a controller (see get())
+   */
+  public put<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<Path, Schemas>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    return this.route(HttpMethod.PUT, path, handler, options);
+  }
+
+  /**
+   * Registers a PATCH route without a controller (see get())
+   */
+  public patch<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<Path, Schemas>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    return this.route(HttpMethod.PATCH, path, handler, options);
+  }
+
+  /**
+   * Registers a DELETE route without a controller (see get())
+   */
+  public delete<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<Path, Schemas>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    return this.route(HttpMethod.DELETE, path, handler, options);
+  }
+
+  /**
+   * Registers a HEAD route without a controller (replaces the HEAD response derived from GET)
+   */
+  public head<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<Path, Schemas>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    return this.route(HttpMethod.HEAD, path, handler, options);
+  }
+
+  /**
+   * Registers a route for any method without a controller (see get())
+   *
+   * @param method - HTTP method
+   * @param path - Route path
+   * @param handler - Route handler
+   * @param options - Route options
+   * @returns The adapter, for chaining
+   */
+  public route<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    method: HttpMethod,
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<Path, Schemas>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    this.rootGroup.route(method, path, handler as RouteDefinitionHandler, options);
+
+    return this;
+  }
+
+  /**
+   * Registers a group of routes sharing a path prefix and options
+   *
+   * Group middlewares run before route middlewares, validator targets and
+   * hooks are combined, and the other options apply to routes that do not
+   * set them. Groups nest; the group name (default: its full prefix) is the
+   * routes' controller name in the startup log, `getRoutes()`,
+   * configureController() and listener selection.
+   *
+   * @param prefix - Path prefix
+   * @param options - Group options
+   * @param define - Registers the group's routes and nested groups
+   * @returns The adapter, for chaining
+   *
+   * @example
+   * ```typescript
+   * adapter.group('/api', { middlewares: [auth] }, (api) => {
+   *   api.get('/users', listUsers);
+   *   api.group('/admin', { middlewares: [adminOnly] }, (admin) => admin.delete('/users/:id', removeUser));
+   * });
+   * ```
+   */
+  public group<Prefix extends string, Schemas extends RouteSchemas = NoSchemas>(
+    prefix: Prefix,
+    options: RouteGroupOptions<Schemas>,
+    define: (group: RouteGroup<Prefix, Schemas>) => void,
+  ): this;
+
+  public group<Prefix extends string>(prefix: Prefix, define: (group: RouteGroup<Prefix>) => void): this;
+
+  public group(prefix: string, optionsOrDefine: RouteGroupOptions | GroupDefinition, define?: GroupDefinition): this {
+    const options = typeof optionsOrDefine === 'function' ? {} : optionsOrDefine;
+    // The overloads type the group from the prefix and schemas
+    const defineGroup = (typeof optionsOrDefine === 'function' ? optionsOrDefine : define) as (
+      group: RouteGroup<string, RouteSchemas>,
+    ) => void;
+
+    this.rootGroup.group(prefix, options, defineGroup);
+
+    return this;
+  }
+
+  /**
+   * Registers a static route
+   *
+   * The value is put into Bun's route table as-is and answers every method
+   * without middlewares, hooks or host scoping. A static `/*` route replaces
+   * the built-in 404 catch-all, e.g. to serve a single-page app for paths
+   * without an API route. Registering a path again replaces its value.
+   *
+   * @param path - Route path
+   * @param value - Response, HTML bundle or BunFile to serve
+   * @throws Error when the route table is built if a controller or WebSocket route uses the same path
+   *
+   * @example
+   * ```typescript
+   * import index from './public/index.html';
+   *
+   * adapter.registerStaticRoute('/robots.txt', new Response('User-agent: *\nDisallow:'));
+   * adapter.registerStaticRoute('/', index);
+   * ```
+   */
+  public registerStaticRoute(path: string, value: StaticRouteValue): void {
+    if (!isStaticRouteValue(value)) {
+      throw new TypeError(`Static route "${path}" must be a Response, an HTML import or a BunFile`);
+    }
+
+    this.staticRoutes.set(path, value);
+    this.invalidateRouteTable();
+    this.scheduleReload();
+  }
+
+  /**
+   * Removes a static route
+   *
+   * @param path - Route path as registered
+   * @returns true if a static route was removed
+   */
+  public removeStaticRoute(path: string): boolean {
+    return this.applyQueueChange(this.staticRoutes.delete(path));
+  }
+
+  /**
+   * Adds a listener on another port or Unix domain socket
+   *
+   * The listener serves the routes selected by controller name or path
+   * pattern with the adapter's global middlewares, hooks and error handler.
+   * It starts and stops together with the main listener.
+   *
+   * @param options - Listener address and route selection
+   * @throws Error if the server is already started, the name is taken or the address is invalid
+   *
+   * @example
+   * ```typescript
+   * adapter.addListener({ name: 'admin', port: 9001, hostname: '127.0.0.1', paths: ['/admin/*'] });
+   * ```
+   */
+  public addListener(options: ListenerOptions): void {
+    if (this.routesBuilt) {
+      throw new Error(`Cannot add listener "${options.name}" after the server is started`);
+    }
+
+    if (this.listeners.some((listener) => listener.name === options.name)) {
+      throw new Error(`Listener "${options.name}" is already registered`);
+    }
+
+    if ((options.port === undefined) === (options.unix === undefined)) {
+      throw new Error(`Listener "${options.name}" must define either a port or a Unix socket path`);
+    }
+
+    this.listeners.push(options);
+    this.invalidateRouteTable();
+  }
+
+  /**
+   * Returns the Bun server of a started additional listener
+   *
+   * @param name - Listener name
+   * @returns Bun server, or undefined if the listener is unknown or not started
+   */
+  public getListenerServer(name: string): Server<unknown> | undefined {
+    return this.listenerServers.get(name);
+  }
+
+  /**
+   * Serves the main listener over HTTPS
+   *
+   * Certificate files are read when the server starts. With `watch`
+   * enabled (default), changed files are reloaded without dropping the
+   * port; unreadable or invalid files are logged and the current
+   * certificates stay in use.
+   *
+   * @param options - Certificate files, SNI certificates and HTTP redirect listener
+   * @throws Error if the server is already started or the options are incomplete
+   *
+   * @example
+   * ```typescript
+   * adapter.setTls({ cert: './certs/site.crt', key: './certs/site.key', httpRedirect: true });
+   * ```
+   */
+  public setTls(options: TlsOptions): void {
+    if (this.routesBuilt) {
+      throw new Error('Cannot configure TLS after the server is started');
+    }
+
+    validateTlsOptions(options);
+    this.tlsOptions = options;
+  }
+
+  /**
+   * Registers a health check
+   *
+   * Every check runs for the readiness endpoint; checks registered with
+   * `liveness: true` also run for the liveness endpoint. Checks run
+   * concurrently on each request.
+   *
+   * @param name - Check name (key in the response)
+   * @param check - Passes unless it throws, rejects, returns false or times out
+   * @param options - Timeout and liveness participation
+   * @throws Error if a check with the same name is already registered
+   *
+   * @example
+   * ```typescript
+   * adapter.addHealthCheck('database', () => db.query('SELECT 1'), { timeout: 1000 });
+   * adapter.addHealthCheck('event-loop', () => lag.current < 500, { liveness: true });
+   * ```
+   */
+  public addHealthCheck(name: string, check: HealthCheck, options: HealthCheckOptions = {}): void {
+    if (this.healthChecks.has(name)) {
+      throw new Error(`Health check "${name}" is already registered`);
+    }
+
+    this.healthChecks.set(name, { check, options });
+  }
+
+  /**
+   * Registers a custom param matcher for inline route constraints (`:name<matcher>`)
+   *
+   * A regular expression must match the whole param value. A function
+   * returns the converted value (stored in the context instead of the raw
+   * string), or `undefined` to reject the value. Rejected values fall
+   * through to the next route matching the path, or to the 404 handler.
+   *
+   * @param name - Matcher name used in route paths
+   * @param matcher - Regular expression or conversion function
+   * @throws Error if the name is taken by a built-in (`int`, `uuid`, `slug`) or registered matcher
+   *
+   * @example
+   * ```typescript
+   * adapter.addParamMatcher('year', /\d{4}/);
+   * adapter.addParamMatcher('csv', (value) => value.split(','));
+   *
+   * adapter.get('/reports/:year<year>/:ids<csv>', (ctx) => ({ year: ctx.getParam('year'), ids: ctx.getParam('ids') }));
+   * ```
+   */
+  public addParamMatcher(name: string, matcher: ParamMatcher): void {
+    if (name in BUILT_IN_PARAM_MATCHERS || this.paramMatchers.has(name)) {
+      throw new Error(`Param matcher "${name}" is already registered`);
+    }
+
+    if (!/^\w+$/.test(name)) {
+      throw new Error(`Invalid param matcher name "${name}": use letters, digits and underscores`);
+    }
+
+    this.paramMatchers.set(name, matcher);
+    this.invalidateRouteTable();
+    this.scheduleReload();
+  }
+
+  /**
+   * Removes a health check
+   *
+   * @param name - Check name
+   * @returns true if a check was removed
+   */
+  public removeHealthCheck(name: string): boolean {
+    return this.healthChecks.delete(name);
+  }
+
+  /**
+   * Exposes the liveness and readiness endpoints on the main listener
+   *
+   * Both answer 200 when up and 503 when down, with the result and latency
+   * of every check and the adapter state. Readiness is down until start()
+   * completes and from the moment a stop or graceful shutdown begins.
+   * The endpoints bypass middlewares and lifecycle hooks.
+   *
+   * @param options - Endpoint paths
+   * @throws Error when the route table is built if a controller or WebSocket route uses an endpoint path
+   */
+  public enableHealthChecks(options: HealthOptions = {}): void {
+    this.healthOptions = {
+      livePath: options.livePath ?? '/health/live',
+      readyPath: options.readyPath ?? '/health/ready',
+    };
+
+    this.invalidateRouteTable();
+    this.scheduleReload();
+  }
+
+  /**
+   * Runs the health checks and reports the adapter state
+   *
+   * @param probe - `live` runs the liveness checks, `ready` runs every check and requires the adapter to be ready
+   * @returns Health report (status is down if a check is down)
+   */
+  public async getHealth(probe: 'live' | 'ready'): Promise<HealthReport> {
+    const checks =
+      probe === 'live'
+        ? new Map(Array.from(this.healthChecks).filter(([, { options }]) => options.liveness))
+        : this.healthChecks;
+
+    const result = await runHealthChecks(checks);
+    const shuttingDown = this.shutdownPromise !== undefined;
+    const ready = this.ready && !shuttingDown;
+
+    return {
+      status: probe === 'ready' && !ready ? 'down' : result.status,
+      checks: result.checks,
+      server: {
+        ready,
+        shuttingDown,
+        pendingRequests: this.getPendingRequestCount(),
+        websocketConnections: (this.websocketAdapter as ErgenecoreWebsocketAdapter).getConnectionCount(),
+        uptime: Math.round(process.uptime()),
+      },
+    };
+  }
+
+  /**
+   * Rebuilds the route table and applies it to the running server
+   *
+   * Called automatically (batched per tick) when routes or global middlewares
+   * change after start(). In-flight requests and open WebSocket connections
+   * are not interrupted.
+   *
+   * @throws Error if the server has not been started
+   */
+  public async reload(): Promise<void> {
+    if (!this.server || !this.routesBuilt) {
+      throw new Error('Cannot reload routes before the server is started');
+    }
+
+    const finalRoutes = this.buildRouteTable();
+
+    // WebSocket services may have been added since start()
+    await this.websocketAdapter.prepareWebSocket(this.options.wsOptions);
+
+    this.server.reload({
+      routes: finalRoutes,
+      websocket: this.websocketAdapter.websocket,
+    } as ServeOptions);
+
+    for (const listener of this.listeners) {
+      this.listenerServers.get(listener.name)?.reload({ routes: this.compileRouteTable(listener) } as ServeOptions);
+    }
+
+    await this.websocketAdapter.startWebsocket(this.server);
+
+    this.logger.info(`Routes reloaded (${this.routeQueue.length} HTTP, ${this.wsRouteQueue.length} WebSocket)`);
+  }
+
+  /**
+   * Starts the Bun server
+   *
+   * Builds routes from queue (HTTP + WebSocket) and starts Bun.serve() with native router.
+   *
+   * Process:
+   * 1. Build HTTP routes from route queue
+   * 2. Build WebSocket routes from WebSocket route queue
+   * 3. Check for path collisions (HTTP GET vs WebSocket GET)
+   * 4. Merge HTTP and WebSocket routes
+   * 5. Prepare WebSocket adapter
+   * 6. Start Bun server with merged routes (HTTPS when TLS is configured)
+   * 7. Start additional listeners, the HTTP redirect listener and certificate watchers
+   *
+   * @param port - Optional port to override default
+   * @returns Bun server instance
+   */
+  public async start(port?: number): Promise<Server<any>> {
+    // Build routes if not built yet
+    const serverHostname = this._hostname;
+
+    if (!this.routesBuilt) {
+      // 1-4. Build HTTP and WebSocket routes, check collisions and merge
+      const finalRoutes = this.buildRouteTable();
+
+      // 5. Prepare WebSocket before starting server
+      await this.websocketAdapter.prepareWebSocket(this.options.wsOptions);
+
+      const serverPort = port ?? this.port;
+
+      if (this.tlsOptions) {
+        this.tlsCertificates = loadTlsCertificates(this.tlsOptions);
+      }
+
+      // 6. Start Bun server with merged routes
+      this.server = this.createMainServer(serverPort, finalRoutes);
+
+      // 7. Start additional listeners
+      this.startListeners();
+      this.startHttpRedirect();
+      this.watchCertificates();
+
+      // Start WebSocket server (initializes AsenaWebSocketServer for each namespace)
+      await this.websocketAdapter.startWebsocket(this.server);
+
+      this.routesBuilt = true;
+
+      // Log controller summary first
+      if (this.routeQueue.length > 0 || this.wsRouteQueue.length > 0) {
+        this.logControllerSummary();
+
+        // Then log detailed route list
+        this.logger.info(this.buildControllerBasedLog());
+      } else {
+        this.logger.info('No routes registered');
+      }
+
+      this.running = true;
+
+      for (const hook of this.hooks.onStart) {
+        await hook(this.server);
+      }
+
+      this.ready = true;
+    }
+
+    const hostDisplay = serverHostname || 'localhost';
+
+    this.logger.info(`Server ready → ${this.tlsCertificates ? 'https' : 'http'}://${hostDisplay}:${this.server.port}`);
+
+    for (const listener of this.listeners) {
+      const server = this.listenerServers.get(listener.name);
+      const address = listener.unix ? `unix:${listener.unix}` : `http://${server.hostname}:${server.port}`;
+
+      this.logger.info(`Listener ${listener.name} ready → ${address}`);
+    }
+
+    if (this.redirectServer) {
+      this.logger.info(`HTTP redirect ready → http://${hostDisplay}:${this.redirectServer.port}`);
+    }
+
+    return this.server;
+  }
+
+  /**
+   * Stops the server and all additional listeners
+   *
+   * @param closeActiveConnections - Whether to close active connections
+   */
+  public async stop(closeActiveConnections = true): Promise<void> {
+    this.ready = false;
+
+    if (this.server) {
+      await this.closeServers(closeActiveConnections);
+      this.logger.info('Server stopped');
+      await this.runStopHooks();
+    }
+  }
+
+  /**
+   * Gracefully shuts down the server
+   *
+   * Process:
+   * 1. New requests are answered with 503 Service Unavailable (health endpoints keep answering, readiness as down)
+   * 2. In-flight requests are awaited until the deadline
+   * 3. WebSocket connections are closed with 1001 (Going Away)
+   * 4. The server stops and remaining connections are closed
+   * 5. Shutdown hooks run in registration order
+   *
+   * Calling shutdown() again while a shutdown is in progress returns the same promise.
+   *
+   * @param timeoutMs - Maximum time to wait for in-flight requests and WebSocket connections (default: 10000)
+   *
+   * @example
+   * ```typescript
+   * adapter.onShutdown(() => rateLimiter.destroy());
+   *
+   * await adapter.shutdown(15000);
+   * ```
+   */
+  public shutdown(timeoutMs = 10000): Promise<void> {
+    this.shutdownPromise ??= this.performShutdown(timeoutMs);
+
+    return this.shutdownPromise;
+  }
+
+  /**
+   * Registers a hook to run during graceful shutdown
+   *
+   * @param hook - Cleanup function (e.g., closing database pools, destroying timers)
+   */
+  public onShutdown(hook: ShutdownHook): void {
+    this.shutdownHooks.push(hook);
+  }
+
+  /**
+   * Shuts down gracefully when the process receives a termination signal
+   *
+   * Intended for containers (e.g., Kubernetes sends SIGTERM before killing a pod).
+   * Listeners are removed once the shutdown completes. The process exits with
+   * code 0, or 1 if the shutdown failed.
+   *
+   * @param options - Signals, drain timeout and whether to exit the process
+   *
+   * @example
+   * ```typescript
+   * adapter.enableShutdownSignals({ timeout: 25000 });
+   * ```
+   */
+  public enableShutdownSignals(options: ShutdownSignalOptions = {}): void {
+    const { signals = ['SIGTERM', 'SIGINT'], timeout, exit = true } = options;
+
+    this.removeShutdownSignalListeners();
+
+    for (const signal of signals) {
+      const listener = () => {
+        this.logger.info(`Received ${signal}, shutting down gracefully...`);
+
+        this.shutdown(timeout).then(
+          () => {
+            if (exit) {
+              process.exit(0);
+            }
+          },
+          (error) => {
+            this.logger.error('Graceful shutdown failed:', error);
+
+            if (exit) {
+              process.exit(1);
+            }
+          },
+        );
+      };
+
+      this.signalListeners.set(signal, listener);
+      process.once(signal, listener);
+    }
+  }
+
+  /**
+   * Sets the error handler
+   *
+   * @param errorHandler - Error handler function
+   */
+  public onError(errorHandler: ErrorHandler<Context>): void {
+    this.errorHandler = errorHandler;
+    this.invalidateRouteTable();
+    this.scheduleReload();
+  }
+
+  /**
+   * Sets the handler for requests that do not match any route
+   *
+   * The handler runs after the global middlewares that apply to the request path.
+   *
+   * @param handler - Not found handler
+   *
+   * @example
+   * ```typescript
+   * adapter.onNotFound((ctx) => ctx.send({ error: 'Nothing here' }, 404));
+   * ```
+   */
+  public onNotFound(handler: NotFoundHandler): void {
+    this.notFoundHandler = handler;
+    this.invalidateRouteTable();
+    this.scheduleReload();
+  }
+
+  /**
+   * Sets the handler for known paths requested with an unregistered method
+   *
+   * The handler runs after the global middlewares that apply to the route path.
+   * The `Allow` header is added to its response if missing.
+   *
+   * @param handler - Method not allowed handler
+   */
+  public onMethodNotAllowed(handler: MethodNotAllowedHandler): void {
+    this.methodNotAllowedHandler = handler;
+    this.invalidateRouteTable();
+    this.scheduleReload();
+  }
+
+  /**
+   * Sets how handler return values that are not a Response are serialized
+   *
+   * Merged with previously set options; routes can override them with the
+   * `serializer` route option.
+   *
+   * @param options - Serializer options
+   *
+   * @example
+   * ```typescript
+   * adapter.setSerializer({ bigint: 'number' });
+   * adapter.setSerializer({ serialize: (value) => superjson.stringify(value) });
+   * ```
+   */
+  public setSerializer(options: SerializerOptions): void {
+    this.serializerOptions = { ...this.serializerOptions, ...options };
+    this.invalidateRouteTable();
+    this.scheduleReload();
+  }
+
+  /**
+   * Registers a global lifecycle hook
+   *
+   * Hooks of the same name run in registration order, before controller and
+   * route hooks. Request hooks apply to fast path routes as well, and
+   * `onRequest`, `onSend`, `onResponse` and `onError` hooks also run for
+   * 404, 405 and OPTIONS responses.
+   *
+   * @param name - Hook name
+   * @param hook - Hook function
+   *
+   * @example
+   * ```typescript
+   * adapter.addHook('onRequest', (ctx) => ctx.setValue('startTime', performance.now()));
+   * adapter.addHook('onResponse', (ctx, response) => {
+   *   metrics.observe(response.status, performance.now() - ctx.getValue('startTime'));
+   * });
+   * adapter.addHook('onStart', (server) => console.log(`Listening on ${server.port}`));
+   * ```
+   */
+  public addHook<K extends keyof LifecycleHooks>(name: K, hook: LifecycleHooks[K]): void {
+    (this.hooks[name] as LifecycleHooks[K][]).push(hook);
+
+    if (name !== 'onStart' && name !== 'onStop') {
+      this.invalidateRouteTable();
+      this.scheduleReload();
+    }
+  }
+
+  /**
+   * Sets serve options
+   *
+   * Besides Bun's serve options and WebSocket options, accepts a default
+   * `requestTimeout` for every HTTP route.
    *
    * @param options - Serve options function
    */
-  public async serveOptions(options: () => Promise<AsenaServeOptions> | AsenaServeOptions): Promise<void> {
-    this.options = await options();
+  public async serveOptions(options: () => Promise<ErgenecoreServeOptions> | ErgenecoreServeOptions): Promise<void> {
+    this.options = await options();
+    this.invalidateRouteTable();
+  }
+
+  /**
+   * Runs a request through the route table in-process, without binding a port
+   *
+   * Uses the same route table, global middlewares, validators and error handler
+   * that start() builds, so responses match what a real client would receive.
+   * Bun's request extensions (`params`, `cookies`) are emulated and cookies set
+   * by handlers are returned as `Set-Cookie` headers.
+   *
+   * Note: WebSocket upgrades require a running server and cannot be injected.
+   *
+   * @param input - Native Request or request options
+   * @returns Response with buffered body and assertion helpers
+   *
+   * @example
+   * ```typescript
+   * const res = await adapter.inject({ method: 'POST', url: '/users', body: { name: 'John' } });
+   *
+   * res.expectStatus(200).expectJson({ created: true });
+   * ```
+   */
+  public async inject(input: Request | InjectOptions): Promise<InjectResponse> {
+    const request = input instanceof Request ? input : this.createInjectRequest(input);
+    const { pathname } = new URL(request.url);
+    const match = this.getRouteMatcher().match(request.method, pathname);
+
+    if (!match) {
+      return InjectResponse.from(
+        new Response(JSON.stringify({ error: 'Not Found' }), { status: 404, headers: STATIC_JSON_HEADERS }),
+      );
+    }
+
+    // Emulate Bun's native request extensions
+    const cookies = new Bun.CookieMap(request.headers.get('cookie') ?? '');
+
+    Object.defineProperty(request, 'cookies', { value: cookies, configurable: true });
+
+    const response = await this.invokeRouteHandler(request, match, this.server);
+
+    // Discard the unread HEAD body like Bun does (stops streaming handlers)
+    if (request.method === 'HEAD' && response.body) {
+      await response.body.cancel();
+    }
+
+    const setCookies = cookies.toSetCookieHeaders();
+
+    // HEAD responses never carry a body; copy headers so cookies can be appended
+    const finalResponse = new Response(request.method === 'HEAD' ? null : response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+
+    for (const cookie of setCookies) {
+      finalResponse.headers.append('Set-Cookie', cookie);
+    }
+
+    return InjectResponse.from(finalResponse);
+  }
+
+  /**
+   * Builds a native Request from inject options
+   *
+   * @param options - Inject request options
+   * @returns Request with absolute URL and encoded body
+   */
+  private createInjectRequest(options: InjectOptions): Request {
+    // Paths starting with `//` are paths, not protocol-relative URLs
+    const url = new URL(
+      options.url.startsWith('//') ? `http://localhost${options.url}` : options.url,
+      'http://localhost',
+    );
+    const headers = new Headers(options.headers);
+    let body = options.body as BodyInit;
+
+    if (options.query) {
+      for (const [key, value] of Object.entries(options.query)) {
+        url.searchParams.append(key, value);
+      }
+    }
+
+    // Encode plain objects and arrays as JSON
+    if (
+      options.body !== null &&
+      typeof options.body === 'object' &&
+      (Array.isArray(options.body) || Object.getPrototypeOf(options.body) === Object.prototype)
+    ) {
+      body = JSON.stringify(options.body);
+
+      if (!headers.has('Content-Type')) {
+        headers.set('Content-Type', 'application/json');
+      }
+    }
+
+    return new Request(url, { method: options.method ?? 'GET', headers, body });
+  }
+
+  /**
+   * Calls a matched route value with the route params set on the request
+   *
+   * @param request - Request to dispatch
+   * @param match - Route match (handler function or static Response)
+   * @param server - Bun server passed to the handler
+   * @returns Route response
+   */
+  private async invokeRouteHandler(
+    request: Request,
+    match: RouteMatch<RouteValue>,
+    server?: Server<unknown>,
+  ): Promise<Response> {
+    Object.defineProperty(request, 'params', { value: match.params, configurable: true });
+
+    return isStaticRouteValue(match.handler) ? createStaticResponse(match.handler) : match.handler(request, server);
+  }
+
+  /**
+   * Runs the graceful shutdown sequence (see shutdown())
+   */
+  private async performShutdown(timeoutMs: number): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+
+    this.logger.info('Starting graceful shutdown...');
+
+    // Answer requests that arrive during the drain instead of starting new work
+    for (const server of this.getServers()) {
+      server.reload({
+        routes: {
+          ...(server === this.server && this.createHealthRoutes()),
+          '/*': new Response(JSON.stringify({ error: 'Service Unavailable' }), {
+            status: 503,
+            headers: { ...STATIC_JSON_HEADERS, Connection: 'close' },
+          }),
+        },
+        ...(server === this.server && { websocket: this.websocketAdapter.websocket }),
+      } as ServeOptions);
+    }
+
+    await Promise.all([
+      (this.websocketAdapter as ErgenecoreWebsocketAdapter).shutdown(timeoutMs),
+      this.waitForPendingRequests(deadline),
+    ]);
+
+    if (this.server) {
+      await this.closeServers(true);
+      await this.runStopHooks();
+    }
+
+    for (const hook of this.shutdownHooks) {
+      try {
+        await hook();
+      } catch (error) {
+        this.logger.error('Shutdown hook failed:', error);
+      }
+    }
+
+    this.removeShutdownSignalListeners();
+
+    this.logger.info('Graceful shutdown complete');
+  }
+
+  /**
+   * Waits until no listener has in-flight requests or the deadline passes
+   *
+   * @param deadline - Timestamp (ms) after which remaining requests are abandoned
+   */
+  private async waitForPendingRequests(deadline: number): Promise<void> {
+    while (this.getPendingRequestCount() > 0) {
+      if (Date.now() >= deadline) {
+        this.logger.warn(`Shutdown timeout reached with ${this.getPendingRequestCount()} request(s) still in flight`);
+
+        return;
+      }
+
+      await Bun.sleep(10);
+    }
+  }
+
+  /**
+   * Returns the number of in-flight requests across all listeners
+   */
+  private getPendingRequestCount(): number {
+    return this.getServers().reduce((total, server) => total + server.pendingRequests, 0);
+  }
+
+  /**
+   * Returns the Bun servers of the main, additional and HTTP redirect listeners
+   */
+  private getServers(): Server<unknown>[] {
+    if (!this.server) {
+      return [];
+    }
+
+    return [this.server, ...this.listenerServers.values(), ...(this.redirectServer ? [this.redirectServer] : [])];
+  }
+
+  /**
+   * Stops every listener and the certificate watchers
+   *
+   * @param closeActiveConnections - Whether to close active connections
+   */
+  private async closeServers(closeActiveConnections: boolean): Promise<void> {
+    for (const watcher of this.tlsWatchers) {
+      watcher.close();
+    }
+
+    this.tlsWatchers = [];
+    clearTimeout(this.tlsReloadTimer);
+
+    await Promise.all(this.getServers().map((server) => server.stop(closeActiveConnections)));
+    this.listenerServers.clear();
+    this.redirectServer = undefined;
+  }
+
+  /**
+   * Starts the Bun server of the main listener
+   *
+   * @param port - Port to listen on
+   * @param routes - Route table of the main listener
+   * @returns Bun server
+   */
+  private createMainServer(port: number, routes: RouteTable): Server<unknown> {
+    return Bun.serve({
+      ...this.options.serveOptions,
+      port,
+      hostname: this._hostname,
+      routes,
+      websocket: this.websocketAdapter.websocket,
+      ...(this.reusePort && { reusePort: true }),
+      ...(this.tlsCertificates && { tls: this.tlsCertificates }),
+    } as ServeOptions);
+  }
+
+  /**
+   * Starts the HTTP listener redirecting to HTTPS (if configured)
+   */
+  private startHttpRedirect(): void {
+    const httpRedirect = this.tlsOptions?.httpRedirect;
+
+    if (!httpRedirect) {
+      return;
+    }
+
+    const { port = 80, hostname = this._hostname, acmeChallengeDir } = httpRedirect === true ? {} : httpRedirect;
+
+    this.redirectServer = Bun.serve({
+      port,
+      hostname,
+      routes: {
+        ...(acmeChallengeDir && { [`${ACME_CHALLENGE_PATH}:token`]: createAcmeChallengeHandler(acmeChallengeDir) }),
+        '/*': createHttpsRedirect(() => this.server.port),
+      },
+    } as ServeOptions);
+  }
+
+  /**
+   * Watches the directories of the certificate files (if enabled)
+   *
+   * Directories are watched instead of files, since renewals usually
+   * replace files (or symlinks) rather than writing to them.
+   */
+  private watchCertificates(): void {
+    if (!this.tlsOptions || this.tlsOptions.watch === false) {
+      return;
+    }
+
+    const files = new Set(getCertificateFiles(this.tlsOptions));
+    const directories = new Set(Array.from(files, (file) => path.dirname(file)));
+
+    for (const directory of directories) {
+      const watcher = watch(directory, { persistent: false }, (_event, filename) => {
+        if (filename && files.has(path.join(directory, filename.toString()))) {
+          clearTimeout(this.tlsReloadTimer);
+          this.tlsReloadTimer = setTimeout(() => void this.reloadCertificates(), TLS_RELOAD_DELAY_MS);
+        }
+      });
+
+      this.tlsWatchers.push(watcher);
+    }
+  }
+
+  /**
+   * Reloads the certificate files and applies them to the main listener
+   *
+   * Bun keeps the TLS context of a running server on `server.reload()`, so
+   * a server with the new certificates is started on the same port and the
+   * previous one stops once its active connections finish. With `reusePort`
+   * both servers listen while the new one starts; otherwise the previous one
+   * stops listening first, and is started again with the current
+   * certificates if the new one cannot bind. Unchanged, unreadable or invalid
+   * certificates keep the current server.
+   */
+  private async reloadCertificates(): Promise<void> {
+    if (!this.tlsOptions || !this.running) {
+      return;
+    }
+
+    const previous = this.server;
+    const port = previous.port;
+    const stopPrevious = () =>
+      previous.stop().catch((error) => this.logger.error('Stopping the previous TLS server failed:', error));
+
+    try {
+      const certificates = loadTlsCertificates(this.tlsOptions);
+
+      if (Bun.deepEquals(certificates, this.tlsCertificates)) {
+        return;
+      }
+
+      const current = this.tlsCertificates;
+      const routes = this.routeTable ?? this.buildRouteTable();
+
+      if (!this.reusePort) {
+        // Releases the port at once; active connections continue on the previous server
+        void stopPrevious();
+      }
+
+      this.tlsCertificates = certificates;
+
+      try {
+        this.server = this.createMainServer(port, routes);
+      } catch (error) {
+        this.tlsCertificates = current;
+
+        if (!this.reusePort) {
+          this.server = this.createMainServer(port, routes);
+          await this.websocketAdapter.startWebsocket(this.server);
+        }
+
+        throw error;
+      }
+
+      await this.websocketAdapter.startWebsocket(this.server);
+    } catch (error) {
+      this.logger.error('TLS certificate reload failed, keeping the current certificates:', error);
+
+      return;
+    }
+
+    if (this.reusePort) {
+      void stopPrevious();
+    }
+
+    this.logger.info('TLS certificates reloaded');
+  }
+
+  /**
+   * Starts a Bun server for every additional listener
+   */
+  private startListeners(): void {
+    for (const listener of this.listeners) {
+      const address = listener.unix
+        ? { unix: listener.unix }
+        : { port: listener.port, hostname: listener.hostname ?? this._hostname };
+
+      this.listenerServers.set(
+        listener.name,
+        Bun.serve({
+          ...this.options.serveOptions,
+          ...address,
+          routes: this.compileRouteTable(listener),
+        } as ServeOptions),
+      );
+    }
+  }
+
+  /**
+   * Removes the process signal listeners installed by enableShutdownSignals()
+   */
+  private removeShutdownSignalListeners(): void {
+    for (const [signal, listener] of this.signalListeners) {
+      process.off(signal, listener);
+    }
+
+    this.signalListeners.clear();
+  }
+
+  /**
+   * Runs the onStop hooks once per start (errors are logged)
+   */
+  private async runStopHooks(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+
+    for (const hook of this.hooks.onStop) {
+      try {
+        await hook();
+      } catch (error) {
+        this.logger.error('onStop hook failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Returns a matcher over the current route table, building the table if needed
+   */
+  private getRouteMatcher(): RouteMatcher<RouteValue> {
+    if (!this.routeMatcher) {
+      this.routeMatcher = new RouteMatcher(this.routeTable ?? this.buildRouteTable());
+    }
+
+    return this.routeMatcher;
+  }
+
+  /**
+   * Schedules a route table reload if the server is running
+   *
+   * Multiple changes within the same tick result in a single reload.
+   */
+  private scheduleReload(): void {
+    if (!this.routesBuilt || this.reloadScheduled) {
+      return;
+    }
+
+    this.reloadScheduled = true;
+
+    queueMicrotask(() => {
+      this.reloadScheduled = false;
+
+      this.reload().catch((error) => {
+        this.logger.error('Route reload failed:', error);
+      });
+    });
+  }
+
+  /**
+   * Invalidates the route table and schedules a reload when a queue changed
+   *
+   * @param changed - Whether the queue was modified
+   * @returns The changed flag (for chaining in remove methods)
+   */
+  private applyQueueChange(changed: boolean): boolean {
+    if (changed) {
+      this.invalidateRouteTable();
+      this.scheduleReload();
+    }
+
+    return changed;
+  }
+
+  /**
+   * Resets the cached route table after a registration change
+   */
+  private invalidateRouteTable(): void {
+    this.routeTable = undefined;
+    this.routeMatcher = undefined;
+  }
+
+  /**
+   * Builds the Bun route table of the main listener
+   *
+   * Reports duplicate and ambiguous routes among all registered routes,
+   * then compiles the table (see compileRouteTable()).
+   *
+   * @returns Merged Bun router object
+   */
+  private buildRouteTable(): RouteTable {
+    this.checkRouteConflicts();
+
+    this.routeTable = this.compileRouteTable();
+    this.routeMatcher = undefined;
+
+    return this.routeTable;
+  }
+
+  /**
+   * Compiles the Bun route table of a listener (HTTP + WebSocket)
+   *
+   * Process:
+   * 1. Select the routes served by the listener
+   * 2. Build HTTP routes and the 404 catch-all
+   * 3. Build WebSocket routes (main listener only)
+   * 4. Check for path collisions (HTTP GET vs WebSocket GET)
+   * 5. Merge HTTP and WebSocket routes, add health endpoints (main listener only, path collisions throw)
+   * 6. Complete HEAD/OPTIONS/405 handlers
+   * 7. Add static routes (path collisions throw)
+   * 8. Add trailing slash aliases
+   * 9. Redirect repeated slashes before route handlers (redirect policy only)
+   *
+   * @param listener - Additional listener, or undefined for the main listener
+   * @returns Merged Bun router object
+   */
+  private compileRouteTable(listener?: ListenerOptions): RouteTable {
+    const table: RouteTableState = { routes: {}, redirectAliases: new Set() };
+    const httpQueue = this.routeQueue.filter((route) => this.isServedBy(listener, route));
+    const staticRoutes = Array.from(this.staticRoutes).filter(([path]) => this.isServedBy(listener, { path }));
+
+    const httpRoutes = this.buildBunRoutes(httpQueue, table);
+    const wsRoutes = listener ? {} : this.buildWebSocketRoutes();
+
+    this.checkPathCollisions(httpRoutes, wsRoutes);
+
+    const routes = this.mergeRoutes(httpRoutes, wsRoutes);
+
+    if (!listener) {
+      this.addHealthRoutes(routes);
+    }
+
+    const wsPaths = new Set(Object.keys(wsRoutes));
+
+    this.addImplicitMethodHandlers(routes, wsPaths);
+    this.addStaticRoutes(routes, staticRoutes, httpQueue);
+    this.addTrailingSlashAliases(routes, wsPaths, table.redirectAliases);
+    this.addSlashRedirects(routes, wsPaths, table);
+
+    table.routes = routes;
+
+    return routes;
+  }
+
+  /**
+   * Whether a listener serves a route
+   *
+   * The main listener serves every route not selected by an exclusive
+   * additional listener.
+   *
+   * @param listener - Additional listener, or undefined for the main listener
+   * @param route - Route path and controller name
+   */
+  private isServedBy(listener: ListenerOptions | undefined, route: { path: string; controllerName?: string }): boolean {
+    if (listener) {
+      return this.selectsRoute(listener, route);
+    }
+
+    return !this.listeners.some(
+      (other) => other.exclusive !== false && (other.controllers || other.paths) && this.selectsRoute(other, route),
+    );
+  }
+
+  /**
+   * Whether a route matches the controllers or path patterns of a listener
+   *
+   * A listener without selectors selects every route.
+   */
+  private selectsRoute(listener: ListenerOptions, route: { path: string; controllerName?: string }): boolean {
+    const { controllers, paths } = listener;
+
+    if (!controllers && !paths) {
+      return true;
+    }
+
+    return (
+      (route.controllerName !== undefined && !!controllers?.includes(route.controllerName)) ||
+      !!paths?.some((pattern) => matchesPattern(route.path, pattern))
+    );
+  }
+
+  /**
+   * Completes the method handlers of every known path
+   *
+   * 1. HEAD is answered by the GET handler (Bun sends the status and headers
+   *    without the body, reports the Content-Length of bodies of known size
+   *    and cancels streaming bodies)
+   * 2. OPTIONS answers 204 with an Allow header listing the registered methods
+   * 3. Remaining methods answer 405 Method Not Allowed with an Allow header
+   *
+   * Without this, Bun falls through to the catch-all and answers 404 for a
+   * path that exists. Explicitly registered HEAD/OPTIONS routes are kept.
+   *
+   * @param routes - Merged Bun router object (modified in place)
+   * @param wsPaths - WebSocket paths (their GET handler upgrades, so no HEAD is synthesized)
+   */
+  private addImplicitMethodHandlers(routes: RouteTable, wsPaths: Set<string>): void {
+    for (const [path, value] of Object.entries(routes)) {
+      const methods = this.getMethodHandlers(value);
+
+      // Skip function handlers (catch-all) and static responses
+      if (!methods) {
+        continue;
+      }
+
+      if (methods.GET && !methods.HEAD && !wsPaths.has(path)) {
+        methods.HEAD = methods.GET;
+      }
+
+      const allowedMethods = ROUTABLE_METHODS.filter((method) => method in methods || method === 'OPTIONS');
+
+      if (!methods.OPTIONS) {
+        methods.OPTIONS = this.createOptionsHandler(path, allowedMethods);
+      }
+
+      const methodNotAllowedHandler = this.createMethodNotAllowedHandler(path, allowedMethods);
+
+      for (const method of ROUTABLE_METHODS) {
+        if (!methods[method]) {
+          methods[method] = methodNotAllowedHandler;
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns the handlers by method of a route table entry
+   *
+   * @returns Handlers by method, or undefined for catch-all handlers and static values
+   */
+  private getMethodHandlers(value: RouteTable[string] | undefined): MethodHandlers | undefined {
+    return typeof value === 'object' && !isStaticRouteValue(value) ? value : undefined;
+  }
+
+  /**
+   * Adds static routes to the route table
+   *
+   * @param routes - Merged Bun router object (modified in place)
+   * @param staticRoutes - Static routes served by the listener
+   * @param httpQueue - HTTP routes served by the listener
+   * @throws Error if a controller or WebSocket route uses the path of a static route
+   */
+  private addStaticRoutes(
+    routes: RouteTable,
+    staticRoutes: [string, StaticRouteValue][],
+    httpQueue: ErgenecoreRouteParams[],
+  ): void {
+    const hasCatchAllRoute = httpQueue.some((route) => route.path === '/*');
+
+    for (const [path, value] of staticRoutes) {
+      // A static catch-all replaces the generated 404 handler
+      const replacesNotFound = path === '/*' && !hasCatchAllRoute;
+
+      if (routes[path] && !replacesNotFound) {
+        throw new Error(
+          `Route collision detected at path "${path}": A static route cannot share its path with controller ` +
+            `or WebSocket routes.`,
+        );
+      }
+
+      routes[path] = value;
+    }
+  }
+
+  /**
+   * Adds the health endpoints to the route table (if enabled)
+   *
+   * @param routes - Merged Bun router object (modified in place)
+   * @throws Error if a controller or WebSocket route uses the path of a health endpoint
+   */
+  private addHealthRoutes(routes: RouteTable): void {
+    for (const [path, methods] of Object.entries(this.createHealthRoutes())) {
+      if (routes[path]) {
+        throw new Error(
+          `Route collision detected at path "${path}": A health endpoint cannot share its path with controller ` +
+            `or WebSocket routes.`,
+        );
+      }
+
+      routes[path] = methods;
+    }
+  }
+
+  /**
+   * Creates the Bun routes of the health endpoints
+   *
+   * @returns Routes by path, empty if health endpoints are not enabled
+   */
+  private createHealthRoutes(): Record<string, { GET: () => Promise<Response> }> {
+    if (!this.healthOptions) {
+      return {};
+    }
+
+    const respond = (probe: 'live' | 'ready') => async (): Promise<Response> => {
+      const report = await this.getHealth(probe);
+
+      return new Response(JSON.stringify(report), {
+        status: report.status === 'up' ? 200 : 503,
+        headers: { ...STATIC_JSON_HEADERS, 'Cache-Control': 'no-store' },
+      });
+    };
+
+    return {
+      [this.healthOptions.livePath]: { GET: respond('live') },
+      [this.healthOptions.readyPath]: { GET: respond('ready') },
+    };
+  }
+
+  /**
+   * Registers the other trailing slash form of every path
+   *
+   * - `ignore`: the alias shares the path's method handlers
+   * - `redirect-301` / `redirect-308`: the alias redirects to the registered path
+   *   (WebSocket paths are served instead, since clients do not follow
+   *   redirects during the upgrade handshake)
+   *
+   * Aliases are part of the route table, so they keep Bun's precedence over
+   * wildcard routes (`/api/users/` reaches `/api/users`, not `/api/*`).
+   *
+   * @param routes - Merged Bun router object (modified in place)
+   * @param wsPaths - WebSocket paths
+   * @param redirectAliases - Receives the aliases that redirect
+   */
+  private addTrailingSlashAliases(routes: RouteTable, wsPaths: Set<string>, redirectAliases: Set<string>): void {
+    const { trailingSlash } = this.pathNormalization;
+
+    if (trailingSlash === 'strict') {
+      return;
+    }
+
+    for (const path of Object.keys(routes)) {
+      if (path === '/' || path.endsWith('*')) {
+        continue;
+      }
+
+      const alias = this.toggleTrailingSlash(path);
+
+      // Both forms registered explicitly
+      if (alias in routes) {
+        continue;
+      }
+
+      if (trailingSlash === 'ignore' || wsPaths.has(path)) {
+        routes[alias] = routes[path];
+      } else {
+        routes[alias] = this.createTrailingSlashRedirect();
+        redirectAliases.add(alias);
+      }
+    }
+  }
+
+  /**
+   * Redirects paths with repeated slashes before the route handlers run
+   *
+   * Bun matches some of these paths itself (`/files//a` against
+   * `/files/*`), so redirecting from the catch-all alone would serve them
+   * in place. Applies with slash collapsing and a redirect trailing slash
+   * policy; static values, WebSocket paths, trailing slash redirects and the
+   * catch-all are left as is.
+   *
+   * @param routes - Merged Bun router object (modified in place)
+   * @param wsPaths - WebSocket paths
+   * @param table - Route table of the listener
+   */
+  private addSlashRedirects(routes: RouteTable, wsPaths: Set<string>, table: RouteTableState): void {
+    const { trailingSlash, collapseSlashes } = this.pathNormalization;
+
+    if (!collapseSlashes || !trailingSlash.startsWith('redirect')) {
+      return;
+    }
+
+    for (const [path, value] of Object.entries(routes)) {
+      if (wsPaths.has(path) || wsPaths.has(this.toggleTrailingSlash(path)) || table.redirectAliases.has(path)) {
+        continue;
+      }
+
+      const methods = this.getMethodHandlers(value);
+
+      if (methods) {
+        routes[path] = Object.fromEntries(
+          Object.entries(methods).map(([method, handler]) => [method, this.createSlashRedirect(handler)]),
+        );
+      } else if (typeof value === 'function' && value !== table.notFoundHandler) {
+        routes[path] = this.createSlashRedirect(value);
+      }
+    }
+  }
+
+  /**
+   * Wraps a route handler to redirect paths with repeated slashes to the collapsed path
+   */
+  private createSlashRedirect(handler: RouteHandler): RouteHandler {
+    return (req: Request, server?: Server<unknown>) => {
+      // Skip URL parsing unless the path may contain repeated slashes
+      const pathStart = req.url.indexOf('/', req.url.indexOf('//') + 2);
+
+      if (pathStart === -1 || !req.url.includes('//', pathStart)) {
+        return handler(req, server);
+      }
+
+      const url = new URL(req.url);
+      const pathname = this.collapseSlashes(url.pathname);
+
+      if (pathname === url.pathname) {
+        return handler(req, server);
+      }
+
+      return this.createNormalizationRedirect(pathname + url.search);
+    };
+  }
+
+  /**
+   * Creates the handler for a trailing slash alias that redirects to the registered path
+   *
+   * @returns Bun-compatible handler answering 301 or 308 with a Location header
+   */
+  private createTrailingSlashRedirect() {
+    return (req: Request): Response => {
+      const url = new URL(req.url);
+
+      return this.createNormalizationRedirect(
+        this.toggleTrailingSlash(this.collapseSlashes(url.pathname)) + url.search,
+      );
+    };
+  }
+
+  /**
+   * Creates a redirect response using the configured trailing slash redirect status
+   *
+   * @param location - Redirect target (path and query)
+   * @returns 301 or 308 response
+   */
+  private createNormalizationRedirect(location: string): Response {
+    const status = this.pathNormalization.trailingSlash === 'redirect-301' ? 301 : 308;
+
+    return new Response(null, { status, headers: { Location: location } });
+  }
+
+  /**
+   * Resolves a request Bun could not match using the path normalization policy
+   *
+   * Repeated slashes are collapsed and static segments are compared
+   * case-insensitively when enabled. With a redirect trailing slash policy,
+   * a collapsed path is redirected to instead of served in place.
+   *
+   * @param table - Route table of the listener that received the request
+   * @param req - Request that reached the catch-all
+   * @param server - Bun server instance
+   * @returns Route response or redirect, or null if no route matches
+   */
+  private async dispatchNormalizedPath(
+    table: RouteTableState,
+    req: Request,
+    server?: Server<unknown>,
+  ): Promise<Response | null> {
+    const url = new URL(req.url);
+    const pathname = this.collapseSlashes(url.pathname);
+
+    table.normalizedMatcher ??= new RouteMatcher(table.routes, {
+      caseSensitive: this.pathNormalization.caseSensitive,
+    });
+
+    const match = table.normalizedMatcher.match(req.method, pathname);
+
+    // Matching the catch-all itself means no route handles the path
+    if (!match || match.pattern === '/*') {
+      return null;
+    }
+
+    if (pathname !== url.pathname && this.pathNormalization.trailingSlash.startsWith('redirect')) {
+      const location = table.redirectAliases.has(match.pattern) ? this.toggleTrailingSlash(pathname) : pathname;
+
+      return this.createNormalizationRedirect(location + url.search);
+    }
+
+    return this.invokeRouteHandler(req, match, server);
+  }
+
+  /**
+   * Collapses repeated slashes when enabled by the path normalization policy
+   */
+  private collapseSlashes(pathname: string): string {
+    return this.pathNormalization.collapseSlashes ? pathname.replace(/\/{2,}/g, '/') : pathname;
+  }
+
+  /**
+   * Adds or removes the trailing slash of a path
+   */
+  private toggleTrailingSlash(path: string): string {
+    return path.endsWith('/') ? path.slice(0, -1) : `${path}/`;
+  }
+
+  /**
+   * Creates the default OPTIONS handler for a path
+   *
+   * Global middlewares run first, so a CORS middleware can answer the
+   * preflight request itself. The allowed methods are available to
+   * middlewares via `context.getValue('allowedMethods')`.
+   *
+   * @param path - Route path
+   * @param allowedMethods - Methods registered for the path
+   * @returns Bun-compatible handler returning 204 with an Allow header
+   */
+  private createOptionsHandler(path: string, allowedMethods: string[]) {
+    const allow = allowedMethods.join(', ');
+
+    return this.createFallbackHandler(
+      this.getGlobalMiddlewaresForPath(path),
+      async () => new Response(null, { status: 204, headers: { Allow: allow } }),
+      allowedMethods,
+    );
+  }
+
+  /**
+   * Creates the 405 handler for a path
+   *
+   * @param path - Route path
+   * @param allowedMethods - Methods registered for the path
+   * @returns Bun-compatible handler returning 405 with an Allow header
+   */
+  private createMethodNotAllowedHandler(path: string, allowedMethods: string[]) {
+    const allow = allowedMethods.join(', ');
+
+    return this.createFallbackHandler(
+      this.getGlobalMiddlewaresForPath(path),
+      async (context) => {
+        const response = this.methodNotAllowedHandler
+          ? await this.methodNotAllowedHandler(context, allowedMethods)
+          : new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
+              status: 405,
+              headers: { 'Content-Type': 'application/json' },
+            });
+
+        if (!response.headers.has('Allow')) {
+          response.headers.set('Allow', allow);
+        }
+
+        return response;
+      },
+      allowedMethods,
+    );
+  }
+
+  /**
+   * Creates the catch-all handler for unmatched paths
+   *
+   * Without global middlewares or a custom handler, a static 404 response
+   * function is used (zero overhead). Otherwise global middlewares are
+   * filtered by the request path at request time, since the path is unknown
+   * while building routes.
+   *
+   * With case-insensitive matching or slash collapsing enabled, the request
+   * is first resolved against the normalized path.
+   *
+   * @param table - Route table the handler is the catch-all of
+   * @returns Bun-compatible not found handler
+   */
+  private createNotFoundHandler(table: RouteTableState) {
+    const notFound = this.createNotFoundResponder();
+    const { caseSensitive, collapseSlashes } = this.pathNormalization;
+
+    if (caseSensitive && !collapseSlashes) {
+      return notFound;
+    }
+
+    return async (req: Request, server?: Server<unknown>): Promise<Response> => {
+      return (await this.dispatchNormalizedPath(table, req, server)) ?? notFound(req);
+    };
+  }
+
+  /**
+   * Creates the handler producing the 404 response
+   *
+   * @returns Bun-compatible handler
+   */
+  private createNotFoundResponder(): (req: Request) => Response | Promise<Response> {
+    if (!this.notFoundHandler && this.globalMiddlewares.length === 0 && !this.getRouteHooks()) {
+      return () => {
+        return new Response(JSON.stringify({ error: 'Not Found' }), {
+          status: 404,
+          headers: STATIC_JSON_HEADERS,
+        });
+      };
+    }
+
+    const respond = async (context: Context): Promise<Response> => {
+      if (this.notFoundHandler) {
+        return this.notFoundHandler(context);
+      }
+
+      return new Response(JSON.stringify({ error: 'Not Found' }), {
+        status: 404,
+        headers: STATIC_JSON_HEADERS,
+      });
+    };
+
+    return this.createFallbackHandler((req) => this.getGlobalMiddlewaresForPath(new URL(req.url).pathname), respond);
+  }
+
+  /**
+   * Creates a handler that runs global middlewares before a fallback response
+   *
+   * Used for 404 and 405 responses so middlewares such as CORS and logging
+   * also apply to requests that do not reach a route handler.
+   *
+   * @param middlewares - Middlewares to run, or a resolver called per request
+   * @param respond - Produces the fallback response
+   * @param allowedMethods - Methods registered for the path (stored as 'allowedMethods' context value)
+   * @returns Bun-compatible handler
+   */
+  private createFallbackHandler(
+    middlewares: BaseMiddleware<Context>[] | ((req: Request) => BaseMiddleware<Context>[]),
+    respond: (context: Context) => Promise<Response>,
+    allowedMethods?: string[],
+  ) {
+    // Path-dependent middleware lists (404 handler) are composed per request
+    const staticChain = typeof middlewares === 'function' ? undefined : compileMiddlewareChain(middlewares);
+
+    const run = async (context: Context, req: Request): Promise<Response> => {
+      if (allowedMethods) {
+        context.setValue('allowedMethods', allowedMethods);
+      }
+
+      const chain =
+        staticChain ?? compileMiddlewareChain((middlewares as (req: Request) => BaseMiddleware<Context>[])(req));
+      const result = await chain(context);
+
+      // If middleware returned a custom response, return it
+      if (result instanceof Response) {
+        return result;
+      }
+
+      // If middleware returned false, return 403
+      if (result === false) {
+        return new Response('Forbidden', { status: 403 });
+      }
+
+      return respond(context);
+    };
+
+    const hooks = this.getRouteHooks();
+
+    if (hooks) {
+      return this.createHookedHandler(hooks, run);
+    }
+
+    return async (req: Request): Promise<Response> => {
+      const context = new ErgenecoreContextWrapper(req);
+
+      try {
+        return context.finalizeResponse(await run(context, req));
+      } catch (error) {
+        return context.finalizeResponse(await this.handleError(error, context));
+      }
+    };
+  }
+
+  /**
+   * Converts an error thrown during request handling into a Response
+   *
+   * - HttpException → its own response
+   * - Other errors → custom error handler if set, otherwise 500 JSON
+   *
+   * @param error - Thrown error
+   * @param context - Request context (params already injected)
+   * @param errorHooks - onError hooks to notify first
+   * @returns Error response
+   */
+  private async handleError(error: unknown, context: Context, errorHooks: OnErrorHook[] = []): Promise<Response> {
+    for (const hook of errorHooks) {
+      try {
+        await hook(error, context);
+      } catch (hookError) {
+        this.logger.error('onError hook failed:', hookError);
+      }
+    }
+
+    if (error instanceof RequestTimeoutException) {
+      this.logger.warn(`Request timed out after ${error.timeout}ms: ${context.req.method} ${error.path}`);
+    }
+
+    // Limits enforced by the adapter reach the error handler
+    if (error instanceof RequestTimeoutException || error instanceof PayloadTooLargeException) {
+      return this.errorHandler ? this.errorHandler(error, context) : error.getResponse();
+    }
+
+    // If handler or middleware threw HttpException, convert to Response
+    if (error instanceof HttpException) {
+      return error.getResponse();
+    }
+
+    // Handle other errors with custom error handler if available
+    if (this.errorHandler) {
+      // Pass the original context with params already injected
+      return this.errorHandler(error as Error, context);
+    }
+
+    // Default error response
+    this.logger.error('Route handler error:', error);
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Internal Server Error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
   }
 
   /**
@@ -306,71 +2455,210 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * }
    * ```
    *
+   * @param routeQueue - Routes to build (default: all queued routes)
+   * @param table - Route table the 404 catch-all belongs to
    * @returns Bun router object
    */
-  private buildBunRoutes(): Record<string, any> {
-    const routes: Record<string, any> = {};
+  private buildBunRoutes(
+    routeQueue = this.routeQueue,
+    table: RouteTableState = { routes: {}, redirectAliases: new Set() },
+  ): RouteTable {
+    const routes: RouteTable = {};
 
     // Group routes by base path for optimization
-    const routeGroups = this.groupRoutesByBasePath(this.routeQueue);
+    const routeGroups = this.groupRoutesByBasePath(routeQueue);
 
     // Process each base path group
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     for (const [_, groupRoutes] of routeGroups) {
-      // Extract common middlewares for this group
-      const commonMiddlewares = this.extractCommonMiddlewares(groupRoutes);
-
-      // Group routes by exact path (same as before)
-      const routesByPath = new Map<string, RouteParams<Context, ValidationSchemaWithHook>[]>();
+      // Group routes by shape: paths that only differ by param names and
+      // constraints share a Bun route table entry
+      const routesByShape = new Map<string, ErgenecoreRouteParams[]>();
 
       for (const route of groupRoutes) {
-        if (!routesByPath.has(route.path)) {
-          routesByPath.set(route.path, []);
+        const shape = getRouteShape(route.path);
+
+        if (!routesByShape.has(shape)) {
+          routesByShape.set(shape, []);
         }
 
-        routesByPath.get(route.path).push(route);
+        routesByShape.get(shape).push(route);
       }
 
       // Build Bun router object for each path
-      for (const [path, pathRoutes] of routesByPath) {
+      for (const pathRoutes of routesByShape.values()) {
+        const path = stripParamConstraints(pathRoutes[0].path);
+
         routes[path] = {};
 
+        // Candidate routes per host pattern ('' when unscoped) and method,
+        // keyed by full path so that a duplicate route overrides the earlier one
+        const candidates = new Map<string, Map<string, Map<string, RouteHandler>>>();
+
         for (const route of pathRoutes) {
           const method = route.method.toUpperCase();
+          const hooks = this.getRouteHooks(route);
+          let handler: RouteHandler;
 
           // Fast Path Optimization with Pattern Matching
-          // ✅ Check if this route has any applicable global middlewares
-          const applicableGlobalMiddlewares = this.getGlobalMiddlewaresForPath(route.path);
-
-          // Check if route is simple (no middleware, validation, or static serve)
-          const isSimpleRoute =
-            applicableGlobalMiddlewares.length === 0 &&
-            (!route.middlewares || route.middlewares.length === 0) &&
-            !route.validator &&
-            !route.staticServe;
-
-          if (isSimpleRoute) {
+          if (this.isFastPathRoute(route)) {
             // Use fast path handler for simple routes (minimal overhead)
-            routes[path][method] = this.createFastPathHandler(route);
+            handler = this.createFastPathHandler(route, hooks);
           } else {
             // Use full-featured handler for complex routes
-            routes[path][method] = this.createRouteHandler(route, commonMiddlewares);
+            handler = this.createRouteHandler(route, hooks);
+          }
+
+          const host = this.getRouteHost(route) ?? '';
+
+          if (!candidates.has(host)) {
+            candidates.set(host, new Map());
+          }
+
+          const methods = candidates.get(host);
+
+          if (!methods.has(method)) {
+            methods.set(method, new Map());
+          }
+
+          methods.get(method).set(route.path, handler);
+        }
+
+        // Unscoped candidates first: they are the fallback of the host-scoped ones
+        for (const [method, handlers] of candidates.get('') ?? []) {
+          routes[path][method] = this.createParamDispatcher(path, handlers, table);
+        }
+
+        // Host-scoped handlers per method, keyed by host pattern
+        const hostHandlers = new Map<string, Map<string, RouteHandler>>();
+
+        for (const [host, methods] of candidates) {
+          if (!host) {
+            continue;
+          }
+
+          for (const [method, handlers] of methods) {
+            if (!hostHandlers.has(method)) {
+              hostHandlers.set(method, new Map());
+            }
+
+            hostHandlers.get(method).set(host, this.createParamDispatcher(path, handlers, table, routes[path][method]));
           }
         }
+
+        // Unscoped handlers serve requests from other hosts
+        for (const [method, handlers] of hostHandlers) {
+          routes[path][method] = this.createHostDispatcher(handlers, routes[path][method]);
+        }
       }
     }
 
-    // Add 404 handler with static headers
-    routes['/*'] = () => {
-      return new Response(JSON.stringify({ error: 'Not Found' }), {
-        status: 404,
-        headers: STATIC_JSON_HEADERS,
-      });
-    };
+    // Add 404 catch-all (unless a route was registered on '/*' itself)
+    if (!routes['/*']) {
+      routes['/*'] = table.notFoundHandler = this.createNotFoundHandler(table);
+    }
 
     return routes;
   }
 
+  /**
+   * Creates the handler trying the routes of a Bun route table entry in order
+   *
+   * Routes with param constraints are tried first, in registration order.
+   * The matched strings stay available to param validation (see
+   * extractValidationData()).
+   * The params of the first route accepting the values (renamed and
+   * converted by its constraints) replace the params matched by Bun. When
+   * every route rejects the values, the request falls through to the next
+   * route matching the path (see createParamFallback()).
+   *
+   * A single unconstrained route that declares the param names of the entry
+   * is returned as is.
+   *
+   * @param path - Path of the Bun route table entry
+   * @param handlers - Route handlers by full route path, in registration order
+   * @param table - Route table of the listener
+   * @param fallback - Handler for rejected values (defaults to the next matching route)
+   * @returns Bun-compatible handler
+   */
+  private createParamDispatcher(
+    path: string,
+    handlers: Map<string, RouteHandler>,
+    table: RouteTableState,
+    fallback?: RouteHandler,
+  ): RouteHandler {
+    if (handlers.size === 1 && handlers.has(path)) {
+      return handlers.get(path);
+    }
+
+    const compiled = Array.from(handlers, ([routePath, handler]) => ({
+      names: getParamNames(routePath),
+      resolve: compileParamResolver(routePath, this.paramMatchers),
+      constrained: hasParamConstraints(routePath),
+      handler,
+    }));
+    // Unconstrained routes accept any value: the last registered one wins, as for duplicate routes
+    const candidates = [
+      ...compiled.filter((candidate) => candidate.constrained),
+      ...compiled.filter((candidate) => !candidate.constrained).reverse(),
+    ];
+    const names = getParamNames(path);
+    const rejected = fallback ?? this.createParamFallback(path, table);
+
+    return (req: BunRequest, server?: Server<unknown>) => {
+      const matched: Record<string, string> = req.params ?? {};
+      const values = names.map((name) => matched[name]);
+
+      for (const candidate of candidates) {
+        const params = candidate.resolve(values);
+
+        if (params) {
+          // Param validation sees the raw strings, the context the converted values
+          const rawParams = Object.fromEntries(candidate.names.map((name, i) => [name, values[i]]));
+
+          Object.defineProperty(req, 'params', { value: params, configurable: true });
+          Object.defineProperty(req, 'rawParams', { value: rawParams, configurable: true });
+
+          return candidate.handler(req, server);
+        }
+      }
+
+      return rejected(req, server);
+    };
+  }
+
+  /**
+   * Creates the handler for requests whose param values every route of a
+   * Bun route table entry rejected
+   *
+   * Resolves the path again without the entry (and its trailing slash
+   * alias), so that the request reaches the next route in precedence order
+   * (e.g. `/users/*`) or the 404 handler.
+   *
+   * @param path - Path of the Bun route table entry
+   * @param table - Route table of the listener
+   * @returns Bun-compatible handler
+   */
+  private createParamFallback(path: string, table: RouteTableState): RouteHandler {
+    const exclude = new Set([path, this.toggleTrailingSlash(path)]);
+    const notFound = this.createNotFoundResponder();
+
+    return (req: Request, server?: Server<unknown>) => {
+      table.normalizedMatcher ??= new RouteMatcher(table.routes, {
+        caseSensitive: this.pathNormalization.caseSensitive,
+      });
+
+      const match = table.normalizedMatcher.match(req.method, new URL(req.url).pathname, exclude);
+
+      // The generated catch-all would resolve the normalized path back to this entry
+      if (!match || match.handler === table.notFoundHandler) {
+        return notFound(req);
+      }
+
+      return this.invokeRouteHandler(req, match, server);
+    };
+  }
+
   /**
    * Builds WebSocket routes from queued WebSocket route registrations
    *
@@ -390,8 +2678,9 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * }
    * ```
    */
-  private buildWebSocketRoutes(): Record<string, any> {
-    const routes: Record<string, any> = {};
+  private buildWebSocketRoutes(): Record<string, MethodHandlers> {
+    const routes: Record<string, MethodHandlers> = {};
+    const hostHandlers = new Map<string, Map<string, RouteHandler>>();
 
     for (const wsRoute of this.wsRouteQueue) {
       // Normalize path - ensure it starts with /
@@ -401,100 +2690,70 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
       routes[path] = routes[path] || {};
 
       // Add GET handler for WebSocket upgrade (with middleware chain)
-      routes[path].GET = this.createWebSocketUpgradeHandler(wsRoute);
+      const handler = this.createWebSocketUpgradeHandler(wsRoute);
+      const host = this.getRouteHost(wsRoute);
+
+      if (host) {
+        if (!hostHandlers.has(path)) {
+          hostHandlers.set(path, new Map());
+        }
+
+        hostHandlers.get(path).set(host, handler);
+      } else {
+        routes[path].GET = handler;
+      }
+    }
+
+    for (const [path, handlers] of hostHandlers) {
+      routes[path].GET = this.createHostDispatcher(handlers, routes[path].GET);
     }
 
     return routes;
   }
 
   /**
-   * Executes middleware chain with recursive next() pattern
+   * Returns the host pattern a route is scoped to
    *
-   * Middlewares can control execution flow by:
-   * - Calling await next() to proceed to next middleware
-   * - Returning false to stop pipeline (403 response)
-   * - Returning Response to send custom response and stop pipeline
-   * - Throwing HttpException to send custom HTTP error response
-   * - Throwing error to trigger error handler
+   * The route's own host takes precedence over its controller's host.
    *
-   * @param context - Request context
-   * @param middlewares - Array of middlewares to execute
-   * @param index - Current middleware index (internal)
-   * @returns Promise<boolean | Response> - true to continue, false to stop with 403, Response to send custom response
-   *
-   * @example
-   * ```typescript
-   * const result = await this.executeMiddlewares(context, globalMiddlewares);
-   * if (result === false) {
-   *   return new Response('Forbidden', { status: 403 });
-   * }
-   * if (result instanceof Response) {
-   *   return result;
-   * }
-   * ```
+   * @param route - HTTP or WebSocket route parameters
+   * @returns Host pattern, or undefined for routes served on every host
    */
-  private async executeMiddlewares(
-    context: Context,
-    middlewares: BaseMiddleware<Context>[],
-    index = 0,
-  ): Promise<boolean | Response> {
-    // Base case: all middlewares executed successfully
-    if (index >= middlewares.length) {
-      return true;
-    }
-
-    const middleware = middlewares[index];
-
-    // Create next() function that executes the next middleware in chain
-    const next = async (): Promise<void> => {
-      const result = await this.executeMiddlewares(context, middlewares, index + 1);
-
-      // If next middleware returned Response, throw MiddlewareResponseError to propagate it
-      if (result instanceof Response) {
-        throw new MiddlewareResponseError(result);
-      }
-
-      // If next middleware returned false, throw to stop current middleware
-      if (result === false) {
-        throw new Error('MIDDLEWARE_CHAIN_STOPPED');
-      }
-    };
-
-    try {
-      // Execute middleware with real next() function
-      const result = await middleware.handle(context, next);
-
-      // If middleware returns Response, stop pipeline and return response
-      if (result instanceof Response) {
-        return result;
-      }
+  private getRouteHost(route: { host?: string; controllerName?: string }): string | undefined {
+    return route.host ?? (route.controllerName ? this.controllerOptions.get(route.controllerName)?.host : undefined);
+  }
 
-      // If middleware returns false, stop pipeline
-      if (result === false) {
-        return false;
-      }
+  /**
+   * Creates a handler that dispatches a path and method by request host
+   *
+   * Host patterns are tried from most to least specific. Captured host
+   * params are attached to the request for `context.getHostParam()`.
+   *
+   * @param handlers - Handlers keyed by host pattern
+   * @param fallback - Unscoped handler for other hosts (404 if not set)
+   * @returns Bun-compatible handler
+   */
+  private createHostDispatcher(handlers: Map<string, RouteHandler>, fallback?: RouteHandler): RouteHandler {
+    const variants = Array.from(handlers, ([pattern, handler]) => ({ host: new HostPattern(pattern), handler })).sort(
+      (a, b) => HostPattern.compare(a.host, b.host),
+    );
+    const otherHosts = fallback ?? this.createNotFoundResponder();
 
-      // Middleware executed successfully
-      return true;
-    } catch (error) {
-      // If middleware threw HttpException, convert to Response
-      if (error instanceof HttpException) {
-        return error.getResponse();
-      }
+    return (req: Request, server?: Server<unknown>) => {
+      const hostname = getRequestHostname(req);
 
-      // If a downstream middleware returned a Response, propagate it
-      if (error instanceof MiddlewareResponseError) {
-        return error.response;
-      }
+      for (const variant of variants) {
+        const hostParams = variant.host.match(hostname);
 
-      // If a downstream middleware stopped the chain with false, propagate the stop
-      if (error instanceof Error && error.message === 'MIDDLEWARE_CHAIN_STOPPED') {
-        return false;
+        if (hostParams) {
+          Object.defineProperty(req, 'hostParams', { value: hostParams, configurable: true });
+
+          return variant.handler(req, server);
+        }
       }
 
-      // Other errors should be thrown (will be caught by route handler)
-      throw error;
-    }
+      return otherHosts(req, server);
+    };
   }
 
   /**
@@ -520,49 +2779,32 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * // handler(req) => Response | undefined
    * ```
    */
-  private createWebSocketUpgradeHandler(wsRoute: WebsocketRouteParams<Context>) {
+  private createWebSocketUpgradeHandler(wsRoute: ErgenecoreWebsocketRouteParams) {
     // ✅ Filter global middlewares by path pattern (ONCE during route building)
     // This happens at server startup, NOT on every request → zero runtime overhead
-    const applicableGlobalMiddlewares = this.getGlobalMiddlewaresForPath(wsRoute.path);
+    const middlewares = compileMiddlewareChain(this.getRouteMiddlewares(wsRoute));
 
-    return async (req: Request): Promise<Response | undefined> => {
+    return async (req: Request, server?: Server<unknown>): Promise<Response | undefined> => {
       try {
         // Create context wrapper
         const context = new ErgenecoreContextWrapper(req);
 
-        // Execute filtered global middlewares with real next() chain
-        if (applicableGlobalMiddlewares.length > 0) {
-          const result = await this.executeMiddlewares(context, applicableGlobalMiddlewares);
+        // Execute global and route middlewares as one chain
+        const result = await middlewares(context);
 
-          // If middleware returned a custom response, return it
-          if (result instanceof Response) {
-            return result;
-          }
-
-          // If middleware returned false, return 403
-          if (result === false) {
-            return new Response('Forbidden', { status: 403 });
-          }
+        // If middleware returned a custom response, return it
+        if (result instanceof Response) {
+          return result;
         }
 
-        // Execute route-specific middlewares with real next() chain
-        if (wsRoute.middlewares && wsRoute.middlewares.length > 0) {
-          const result = await this.executeMiddlewares(context, wsRoute.middlewares);
-
-          // If middleware returned a custom response, return it
-          if (result instanceof Response) {
-            return result;
-          }
-
-          // If middleware returned false, return 403
-          if (result === false) {
-            return new Response('Forbidden', { status: 403 });
-          }
+        // If middleware returned false, return 403
+        if (result === false) {
+          return new Response('Forbidden', { status: 403 });
         }
 
         // Attempt WebSocket upgrade
         // Use wsRoute.path (actual route path) instead of namespace (which might be the service name)
-        const upgraded = this.server.upgrade(req, {
+        const upgraded = (server ?? this.server).upgrade(req, {
           data: {
             path: wsRoute.path,
             id: `conn-${Date.now()}-${Math.random().toString(36).substring(7)}`,
@@ -617,12 +2859,12 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * // Throws: Route collision detected at path "/api/data": Both HTTP and WebSocket routes define GET method
    * ```
    */
-  private checkPathCollisions(httpRoutes: Record<string, any>, wsRoutes: Record<string, any>): void {
+  private checkPathCollisions(httpRoutes: RouteTable, wsRoutes: Record<string, MethodHandlers>): void {
     for (const wsPath of Object.keys(wsRoutes)) {
       // Check if HTTP routes have the same path
       if (httpRoutes[wsPath]) {
         // Check if HTTP route has GET method (collision with WebSocket GET)
-        if (httpRoutes[wsPath].GET) {
+        if (this.getMethodHandlers(httpRoutes[wsPath])?.GET) {
           throw new Error(
             `Route collision detected at path "${wsPath}": Both HTTP and WebSocket routes define GET method. ` +
               `WebSocket routes use GET for upgrade handshake, so HTTP GET cannot be registered on the same path.`,
@@ -632,6 +2874,35 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
     }
   }
 
+  /**
+   * Logs duplicate and ambiguous routes among all registered routes
+   *
+   * Complements checkPathCollisions(), which only covers HTTP GET vs
+   * WebSocket routes on the same path.
+   *
+   * @throws Error listing every error-level conflict when strict routing is enabled
+   */
+  private checkRouteConflicts(): void {
+    const conflicts = detectRouteConflicts(this.getRoutes());
+
+    for (const conflict of conflicts) {
+      if (conflict.severity === 'error') {
+        this.logger.error(conflict.message);
+      } else {
+        this.logger.warn(conflict.message);
+      }
+    }
+
+    const errors = conflicts.filter((conflict) => conflict.severity === 'error');
+
+    if (this.strictRouting && errors.length > 0) {
+      throw new Error(
+        `Strict routing: ${errors.length} route conflict(s) detected:\n` +
+          errors.map((conflict) => `  - ${conflict.message}`).join('\n'),
+      );
+    }
+  }
+
   /**
    * Merges HTTP and WebSocket routes into a single router object
    *
@@ -651,13 +2922,13 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * // Returns: { "/api": { POST: handler1, PUT: handler2, GET: wsHandler } }
    * ```
    */
-  private mergeRoutes(httpRoutes: Record<string, any>, wsRoutes: Record<string, any>): Record<string, any> {
+  private mergeRoutes(httpRoutes: RouteTable, wsRoutes: Record<string, MethodHandlers>): RouteTable {
     const merged = { ...httpRoutes };
 
     for (const [path, methods] of Object.entries(wsRoutes)) {
       if (merged[path]) {
         // Merge methods for existing path
-        merged[path] = { ...merged[path], ...methods };
+        merged[path] = { ...this.getMethodHandlers(merged[path]), ...methods };
       } else {
         // Add new path
         merged[path] = methods;
@@ -667,6 +2938,24 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
     return merged;
   }
 
+  /**
+   * Checks if a route can be served by the fast path handler
+   *
+   * A route is simple when it has no applicable global middlewares,
+   * no route middlewares, no validator and no static serve configuration.
+   *
+   * @param route - Route parameters
+   * @returns true if the fast path handler can be used
+   */
+  private isFastPathRoute(route: ErgenecoreRouteParams): boolean {
+    return (
+      this.getGlobalMiddlewaresForPath(route.path).length === 0 &&
+      (!route.middlewares || route.middlewares.length === 0) &&
+      !route.validator &&
+      !route.staticServe
+    );
+  }
+
   /**
    * Creates a fast path handler for simple routes
    *
@@ -681,10 +2970,20 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * - Direct handler execution
    * - Reduced try-catch overhead
    *
+   * Routes with lifecycle hooks, a timeout or a body limit use the full
+   * route handler (without middlewares to run).
+   *
    * @param route - Route parameters
+   * @param hooks - Resolved lifecycle hooks of the route (if any)
    * @returns Bun-compatible fast path handler
    */
-  private createFastPathHandler(route: RouteParams<Context, ValidationSchemaWithHook>) {
+  private createFastPathHandler(route: ErgenecoreRouteParams, hooks?: ResolvedRouteHooks) {
+    if (hooks || this.getRouteTimeout(route) || this.getBodyLimit(route) !== undefined) {
+      return this.createRouteHandler(route, hooks);
+    }
+
+    const toResponse = this.createResponseSerializer(route);
+
     // If no error handler is set, use ultra-minimal version with default error handling
     if (!this.errorHandler) {
       return async (req: Request): Promise<Response> => {
@@ -705,33 +3004,27 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
           // Execute handler directly
           const response = await route.handler(context);
 
-          // Return response (check if already a Response object)
-          if (response instanceof Response) {
-            return response;
-          }
-
-          // Wrap in Response with static headers
-          return new Response(JSON.stringify(response), {
-            status: 200,
-            headers: STATIC_JSON_HEADERS,
-          });
+          // Return response (check if already a Response object), serialize other return values
+          return context.finalizeResponse(response instanceof Response ? response : await toResponse(response));
         } catch (error) {
           // If handler threw HttpException, convert to Response
           if (error instanceof HttpException) {
-            return error.getResponse();
+            return context.finalizeResponse(error.getResponse());
           }
 
           // Default error handling when no custom error handler is registered
           this.logger.error('Route handler error:', error);
 
-          return new Response(
-            JSON.stringify({
-              error: error instanceof Error ? error.message : 'Internal Server Error',
-            }),
-            {
-              status: 500,
-              headers: STATIC_JSON_HEADERS,
-            },
+          return context.finalizeResponse(
+            new Response(
+              JSON.stringify({
+                error: error instanceof Error ? error.message : 'Internal Server Error',
+              }),
+              {
+                status: 500,
+                headers: STATIC_JSON_HEADERS,
+              },
+            ),
           );
         }
       };
@@ -756,24 +3049,16 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
         // Execute handler directly
         const response = await route.handler(context);
 
-        // Return response (check if already a Response object)
-        if (response instanceof Response) {
-          return response;
-        }
-
-        // Wrap in Response with static headers
-        return new Response(JSON.stringify(response), {
-          status: 200,
-          headers: STATIC_JSON_HEADERS,
-        });
+        // Return response (check if already a Response object), serialize other return values
+        return context.finalizeResponse(response instanceof Response ? response : await toResponse(response));
       } catch (error) {
         // If handler threw HttpException, convert to Response
         if (error instanceof HttpException) {
-          return error.getResponse();
+          return context.finalizeResponse(error.getResponse());
         }
 
         // Handle other errors with custom error handler
-        return this.errorHandler(error as Error, context);
+        return context.finalizeResponse(await this.errorHandler(error as Error, context));
       }
     };
   }
@@ -784,20 +3069,42 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * Wraps the Asena handler with:
    * - CoreContextWrapper for context abstraction
    * - Parameter injection from Bun's native parser
-   * - Global and route middlewares (pattern-filtered)
+   * - Global and route middlewares (pattern-filtered, deduplicated)
    * - Error handling
+   * - Response finalization (headers set via setResponseHeader() and queued cookies)
    *
    * @param route - Route parameters
-   * @param _commonMiddlewares - Common middlewares for this route group (for future optimization)
+   * @param hooks - Resolved lifecycle hooks of the route (if any)
    * @returns Bun-compatible route handler
    */
-  private createRouteHandler(
-    route: RouteParams<Context, ValidationSchemaWithHook>,
-    _commonMiddlewares: BaseMiddleware<Context>[] = [],
-  ) {
-    // ✅ Filter global middlewares by path pattern (ONCE during route building)
+  private createRouteHandler(route: ErgenecoreRouteParams, hooks?: ResolvedRouteHooks) {
+    // ✅ Resolve the middleware chain (ONCE during route building)
     // This happens at server startup, NOT on every request → zero runtime overhead
-    const applicableGlobalMiddlewares = this.getGlobalMiddlewaresForPath(route.path);
+    const timeout = this.getRouteTimeout(route);
+    const bodyLimit = this.getBodyLimit(route);
+    const run = this.compileRoutePipeline(
+      route,
+      this.getRouteMiddlewares(route),
+      this.createResponseSerializer(route),
+      hooks,
+    );
+
+    const pipeline = async (context: Context, req: Request): Promise<Response> => {
+      if (bodyLimit !== undefined) {
+        // Reject declared oversized bodies before any middleware runs
+        if (Number(req.headers.get('content-length')) > bodyLimit) {
+          throw new PayloadTooLargeException(bodyLimit);
+        }
+
+        context.setBodyLimit(bodyLimit);
+      }
+
+      return timeout ? this.runWithTimeout(route.path, timeout, context, () => run(context, req)) : run(context, req);
+    };
+
+    if (hooks) {
+      return this.createHookedHandler(hooks, pipeline);
+    }
 
     return async (req: Request): Promise<Response> => {
       // Create context wrapper outside try block so it's accessible in catch
@@ -815,91 +3122,310 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
       }
 
       try {
-        // Execute filtered global middlewares with real next() chain
-        if (applicableGlobalMiddlewares.length > 0) {
-          const result = await this.executeMiddlewares(context, applicableGlobalMiddlewares);
+        return context.finalizeResponse(await pipeline(context, req));
+      } catch (error) {
+        return context.finalizeResponse(await this.handleError(error, context));
+      }
+    };
+  }
 
-          // If middleware returned a custom response, return it
-          if (result instanceof Response) {
-            return result;
-          }
+  /**
+   * Composes the request pipeline of a route
+   *
+   * The middleware chain runs first, followed by preValidation hooks,
+   * validation, preHandler hooks, static serving and the handler. Steps the
+   * route does not use are left out when the pipeline is built.
+   *
+   * Errors are thrown to the caller, which converts them with handleError().
+   *
+   * @param route - Route parameters
+   * @param chain - Middlewares to run (global and route, see getRouteMiddlewares())
+   * @param toResponse - Converter for non-Response handler return values
+   * @param hooks - preValidation and preHandler hooks to run (if any)
+   * @returns Pipeline taking the request context (params already injected) and native request
+   */
+  private compileRoutePipeline(
+    route: RouteParams<Context, ValidationSchemaWithHook>,
+    chain: BaseMiddleware<Context>[],
+    toResponse: (value: unknown) => Response | Promise<Response>,
+    hooks?: ResolvedRouteHooks,
+  ): (context: Context, req: Request) => Promise<Response> {
+    const middlewares = chain.length > 0 ? compileMiddlewareChain(chain) : undefined;
+    const preValidation = hooks?.preValidation.length ? hooks.preValidation : undefined;
+    const preHandler = hooks?.preHandler.length ? hooks.preHandler : undefined;
+    const { validator, staticServe, handler } = route;
+
+    return async (context, req) => {
+      if (middlewares) {
+        const result = await middlewares(context);
+
+        // If middleware returned a custom response, return it
+        if (result instanceof Response) {
+          return result;
+        }
 
-          // If middleware returned false, return 403
-          if (result === false) {
-            return new Response('Forbidden', { status: 403 });
-          }
+        // If middleware returned false, return 403
+        if (result === false) {
+          return new Response('Forbidden', { status: 403 });
         }
+      }
 
-        // Execute route middlewares with real next() chain
-        if (route.middlewares && route.middlewares.length > 0) {
-          const result = await this.executeMiddlewares(context, route.middlewares);
+      if (preValidation) {
+        const hookResponse = await this.runRequestHooks(preValidation, context);
 
-          // If middleware returned a custom response, return it
-          if (result instanceof Response) {
-            return result;
-          }
+        if (hookResponse) return hookResponse;
+      }
 
-          // If middleware returned false, return 403
-          if (result === false) {
-            return new Response('Forbidden', { status: 403 });
-          }
-        }
+      // Execute validation
+      if (validator) {
+        const validationResult = await this.validateRequest(context, validator);
 
-        // Execute validation
-        if (route.validator) {
-          const validationResult = await this.validateRequest(context, route.validator);
+        if (validationResult) return validationResult;
+      }
 
-          if (validationResult) return validationResult;
-        }
+      if (preHandler) {
+        const hookResponse = await this.runRequestHooks(preHandler, context);
+
+        if (hookResponse) return hookResponse;
+      }
+
+      // Handle static file serving
+      if (staticServe) {
+        const staticResponse = await this.serveStaticFile(req, context, staticServe);
+
+        if (staticResponse) return staticResponse;
+      }
+
+      // Execute route handler
+      const response = await handler(context);
+
+      // If handler returns Response, return it directly, otherwise serialize the return value
+      return response instanceof Response ? response : toResponse(response);
+    };
+  }
+
+  /**
+   * Creates the function converting handler return values into a Response
+   *
+   * `undefined` and `null` become 204 No Content; strings, Blobs/BunFiles,
+   * bytes, streams, async iterables and respond() tuples
+   * get native bodies (see utils/ResponseCoercion). Other values are
+   * serialized with the route's serializer options merged over the global
+   * ones, or with a serializer compiled from the route's response schema
+   * (with a replacer: only the schema's properties are kept, then encoded).
+   *
+   * @param route - Route parameters
+   * @returns Converter for non-Response handler return values
+   */
+  private createResponseSerializer(route: ErgenecoreRouteParams): (value: unknown) => Response | Promise<Response> {
+    const options = { ...this.serializerOptions, ...route.serializer };
+    const json = options.serialize ?? createJsonSerializer(options);
+    let serialize = json;
+
+    if (route.responseSchema && options.replacer) {
+      // The compiled serializer writes strings, numbers and booleans without the replacer
+      const filter = compileSchemaFilter(route.responseSchema);
+
+      serialize = (value) => json(filter(value));
+    } else if (route.responseSchema) {
+      serialize = compileSchemaSerializer(route.responseSchema, json);
+    }
+    const headers = options.contentType ? { 'Content-Type': options.contentType } : STATIC_JSON_HEADERS;
+
+    return (value) => coerceResponse(value, serialize, headers);
+  }
 
-        // Handle static file serving
-        if (route.staticServe) {
-          const staticResponse = await this.serveStaticFile(req, context, route.staticServe);
+  /**
+   * Resolves the timeout of a route (route setting, otherwise the global `requestTimeout`)
+   *
+   * @param route - Route parameters
+   * @returns Timeout with status, or undefined if the route has none
+   */
+  private getRouteTimeout(route: ErgenecoreRouteParams): Required<RequestTimeoutOptions> | undefined {
+    const timeout = route.timeout ?? this.options.requestTimeout;
+
+    if (timeout === false || timeout === undefined) {
+      return undefined;
+    }
+
+    return typeof timeout === 'number' ? { ms: timeout, status: 503 } : { status: 503, ...timeout };
+  }
+
+  /**
+   * Resolves the body limit of a route (route setting, otherwise the controller's)
+   *
+   * @param route - Route parameters
+   * @returns Limit in bytes, or undefined if the route has none
+   */
+  private getBodyLimit(route: ErgenecoreRouteParams): number | undefined {
+    return (
+      route.bodyLimit ??
+      (route.controllerName ? this.controllerOptions.get(route.controllerName)?.bodyLimit : undefined)
+    );
+  }
+
+  /**
+   * Runs a request pipeline with a time limit
+   *
+   * `context.signal` is replaced by a signal that aborts when the client
+   * disconnects or the timeout fires. On timeout, a RequestTimeoutException
+   * is thrown without waiting for the pipeline.
+   *
+   * @param path - Route path (reported in the exception)
+   * @param timeout - Time limit and status
+   * @param context - Request context
+   * @param run - Request pipeline
+   * @returns Pipeline response
+   */
+  private async runWithTimeout(
+    path: string,
+    timeout: Required<RequestTimeoutOptions>,
+    context: Context,
+    run: () => Promise<Response>,
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const { promise: timedOut, reject } = Promise.withResolvers<never>();
+
+    context.setSignal(AbortSignal.any([context.req.signal, controller.signal]));
+
+    const timer = setTimeout(() => {
+      const error = new RequestTimeoutException(path, timeout.ms, timeout.status);
+
+      controller.abort(error);
+      reject(error);
+    }, timeout.ms);
 
-          if (staticResponse) return staticResponse;
+    try {
+      return await Promise.race([run(), timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Resolves the request hooks of a route
+   *
+   * @param route - Route (omit for global hooks only, e.g. 404 responses)
+   * @returns Hooks per name (global, controller, route), or undefined if there are none
+   */
+  private getRouteHooks(route?: { controllerName?: string; hooks?: RouteHooks }): ResolvedRouteHooks | undefined {
+    const scopes = [
+      route?.controllerName ? this.controllerOptions.get(route.controllerName)?.hooks : undefined,
+      route?.hooks,
+    ];
+    const resolved = {} as Record<RequestHookName, unknown[]>;
+    let count = 0;
+
+    for (const name of REQUEST_HOOK_NAMES) {
+      const hooks: unknown[] = [...this.hooks[name]];
+
+      for (const scope of scopes) {
+        const scoped = scope?.[name];
+
+        if (scoped) {
+          hooks.push(...(Array.isArray(scoped) ? scoped : [scoped]));
         }
+      }
 
-        // Execute route handler
-        const response = await route.handler(context);
+      resolved[name] = hooks;
+      count += hooks.length;
+    }
+
+    return count > 0 ? (resolved as ResolvedRouteHooks) : undefined;
+  }
+
+  /**
+   * Wraps a request pipeline with lifecycle hooks
+   *
+   * onRequest hooks run before the pipeline, onSend hooks receive every
+   * response (including middleware rejections and error responses, with
+   * context headers applied) and onResponse hooks run after the response
+   * has been handed to Bun.
+   *
+   * @param hooks - Resolved hooks
+   * @param run - Request pipeline (throws on error)
+   * @returns Bun-compatible handler
+   */
+  private createHookedHandler(
+    hooks: ResolvedRouteHooks,
+    run: (context: Context, req: Request, server?: Server<unknown>) => Promise<Response>,
+  ): RouteHandler {
+    return async (req: Request, server?: Server<unknown>): Promise<Response> => {
+      const context = new ErgenecoreContextWrapper(req);
+
+      // Inject Bun's native route params
+      // @ts-expect-error - Bun adds params to Request
+      if (req.params) {
+        // @ts-expect-error - Bun adds params to Request
+        const params = req.params;
 
-        // If handler returns Response, return it directly
-        if (response instanceof Response) {
-          return response;
+        for (const key in params) {
+          context.setValue(`param:${key}`, params[key]);
         }
+      }
 
-        // Otherwise, wrap in Response
-        return new Response(JSON.stringify(response), {
-          status: 200,
-          headers: { 'Content-Type': 'application/json' },
-        });
+      let response: Response;
+
+      try {
+        response = (await this.runRequestHooks(hooks.onRequest, context)) ?? (await run(context, req, server));
       } catch (error) {
-        // If handler or middleware threw HttpException, convert to Response
-        if (error instanceof HttpException) {
-          return error.getResponse();
-        }
+        response = await this.handleError(error, context, hooks.onError);
+      }
+
+      response = context.finalizeResponse(response);
 
-        // Handle other errors with custom error handler if available
-        if (this.errorHandler) {
-          // Pass the original context with params already injected
-          return this.errorHandler(error as Error, context);
+      try {
+        for (const hook of hooks.onSend) {
+          const replaced = await hook(context, response);
+
+          if (replaced instanceof Response) {
+            response = context.finalizeResponse(replaced);
+          }
         }
+      } catch (error) {
+        response = context.finalizeResponse(await this.handleError(error, context, hooks.onError));
+      }
 
-        // Default error response
-        this.logger.error('Route handler error:', error);
+      if (hooks.onResponse.length > 0) {
+        const sent = response;
 
-        return new Response(
-          JSON.stringify({
-            error: error instanceof Error ? error.message : 'Internal Server Error',
-          }),
-          {
-            status: 500,
-            headers: { 'Content-Type': 'application/json' },
-          },
-        );
+        setImmediate(() => void this.runResponseHooks(hooks.onResponse, context, sent));
       }
+
+      return response;
     };
   }
 
+  /**
+   * Runs onRequest, preValidation or preHandler hooks in order
+   *
+   * @returns The first Response returned by a hook, or undefined
+   */
+  private async runRequestHooks(hooks: RequestHook[], context: Context): Promise<Response | undefined> {
+    for (const hook of hooks) {
+      const result = await hook(context);
+
+      if (result instanceof Response) {
+        return result;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Runs onResponse hooks (errors are logged)
+   */
+  private async runResponseHooks(hooks: OnResponseHook[], context: Context, response: Response): Promise<void> {
+    for (const hook of hooks) {
+      try {
+        await hook(context, response);
+      } catch (error) {
+        this.logger.error('onResponse hook failed:', error);
+      }
+    }
+  }
+
   /**
    * Type guard to check if validation schema has hook format
    *
@@ -993,6 +3519,8 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
           },
         );
       }
+
+      context.setValidatedData(key, result.data);
     }
 
     // All validations passed
@@ -1028,6 +3556,13 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
       }
 
       case 'param': {
+        // Schemas validate the matched strings, before param matchers converted them
+        const rawParams = (context.req as Request & { rawParams?: Record<string, string> }).rawParams;
+
+        if (rawParams) {
+          return { ...rawParams };
+        }
+
         // Extract all params from context
         const params: Record<string, string> = {};
 
@@ -1155,6 +3690,9 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
 
       finalHeaders.set('Last-Modified', lastModified);
 
+      // Content-Length from file metadata (lets HEAD skip reading the file)
+      finalHeaders.set('Content-Length', String(file.size));
+
       // 11. Add custom headers (can override defaults)
       const customHeaders = this.buildStaticFileHeaders(resolvedFilePath, staticServe.extra);
 
@@ -1287,10 +3825,11 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
   /**
    * Extracts common middlewares across multiple routes
    *
-   * Identifies middlewares that are present in ALL routes and can be
-   * moved to group level for optimization.
+   * Identifies middlewares that are present in ALL routes (compared with
+   * the identity rules of utils/MiddlewarePipeline). Used to show shared
+   * middlewares once per controller in the startup log.
    *
-   * @param routes - Array of routes to analyze
+   * @param routes - Routes (or route infos) to analyze
    * @returns Array of common middleware instances
    *
    * @example
@@ -1302,9 +3841,7 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * ]) // => [auth, log]
    * ```
    */
-  private extractCommonMiddlewares(
-    routes: RouteParams<Context, ValidationSchemaWithHook>[],
-  ): BaseMiddleware<Context>[] {
+  private extractCommonMiddlewares(routes: { middlewares?: BaseMiddleware<Context>[] }[]): BaseMiddleware<Context>[] {
     // Need at least 2 routes to have common middlewares
     if (routes.length === 0 || routes.length === 1) {
       return [];
@@ -1316,10 +3853,7 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
     // Filter to only middlewares present in ALL routes
     return firstRouteMiddlewares.filter((middleware) => {
       return routes.every((route) => {
-        return (route.middlewares || []).some((mw) => {
-          // Compare by constructor name (class identity)
-          return mw.constructor.name === middleware.constructor.name;
-        });
+        return (route.middlewares || []).some((mw) => isSameMiddleware(mw, middleware));
       });
     });
   }
@@ -1346,10 +3880,8 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * // }
    * ```
    */
-  private groupRoutesByBasePath(
-    routes: RouteParams<Context, ValidationSchemaWithHook>[],
-  ): Map<string, RouteParams<Context, ValidationSchemaWithHook>[]> {
-    const groups = new Map<string, RouteParams<Context, ValidationSchemaWithHook>[]>();
+  private groupRoutesByBasePath(routes: ErgenecoreRouteParams[]): Map<string, ErgenecoreRouteParams[]> {
+    const groups = new Map<string, ErgenecoreRouteParams[]>();
 
     for (const route of routes) {
       const basePath = this.extractBasePath(route.path);
@@ -1364,6 +3896,62 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
     return groups;
   }
 
+  /**
+   * Returns a structured list of all registered HTTP and WebSocket routes
+   *
+   * Includes controller information, route and applicable global middlewares,
+   * and whether validation, static serving or the fast path is used.
+   * Useful for generating documentation, contract checks and admin tooling.
+   *
+   * @returns Route descriptions in registration order (HTTP routes first)
+   *
+   * @example
+   * ```typescript
+   * adapter.getRoutes();
+   * // => [
+   * //   { type: 'http', method: 'GET', path: '/users/:id', controllerName: 'UserController', fastPath: true, ... },
+   * //   { type: 'websocket', method: 'GET', path: '/chat', controllerName: 'ChatSocket', fastPath: false, ... }
+   * // ]
+   * ```
+   */
+  public getRoutes(): RouteInfo[] {
+    const httpRoutes: RouteInfo[] = this.routeQueue.map((route) => ({
+      type: 'http',
+      method: route.method.toUpperCase(),
+      path: route.path,
+      host: this.getRouteHost(route),
+      controllerName: route.controllerName,
+      controllerBasePath: route.controllerBasePath,
+      middlewares: route.middlewares || [],
+      globalMiddlewares: this.getGlobalMiddlewareEntriesForPath(route.path).map(({ middleware }) => middleware),
+      chain: this.getRouteMiddlewares(route),
+      hasValidator: !!route.validator,
+      hasStaticServe: !!route.staticServe,
+      fastPath: this.isFastPathRoute(route),
+    }));
+
+    const wsRoutes: RouteInfo[] = this.wsRouteQueue.map((wsRoute) => {
+      const path = wsRoute.path.startsWith('/') ? wsRoute.path : `/${wsRoute.path}`;
+
+      return {
+        type: 'websocket',
+        method: 'GET',
+        path,
+        host: this.getRouteHost(wsRoute),
+        controllerName: wsRoute.controllerName,
+        controllerBasePath: wsRoute.path,
+        middlewares: wsRoute.middlewares || [],
+        globalMiddlewares: this.getGlobalMiddlewareEntriesForPath(wsRoute.path).map(({ middleware }) => middleware),
+        chain: this.getRouteMiddlewares(wsRoute),
+        hasValidator: false,
+        hasStaticServe: false,
+        fastPath: false,
+      };
+    });
+
+    return [...httpRoutes, ...wsRoutes];
+  }
+
   public get hostname() {
     return this._hostname;
   }
@@ -1386,15 +3974,25 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * // => Map {
    * //   'UserController' => {
    * //     basePath: '/users',
-   * //     routes: [{ method: 'GET', path: '/users' }, { method: 'POST', path: '/users' }]
+   * //     routes: [{ method: 'GET', path: '/users', chain: [] }, { method: 'POST', path: '/users', chain: [auth] }]
    * //   }
    * // }
    * ```
    */
-  private groupRoutesByController(): Map<string, { basePath: string; routes: { method: string; path: string }[] }> {
-    const groups = new Map<string, { basePath: string; routes: { method: string; path: string }[] }>();
+  private groupRoutesByController(): Map<
+    string,
+    { basePath: string; routes: { method: string; path: string; chain: BaseMiddleware<Context>[] }[] }
+  > {
+    const groups = new Map<
+      string,
+      { basePath: string; routes: { method: string; path: string; chain: BaseMiddleware<Context>[] }[] }
+    >();
+
+    for (const route of this.getRoutes()) {
+      if (route.type !== 'http') {
+        continue;
+      }
 
-    for (const route of this.routeQueue) {
       const controllerName = route.controllerName || 'Unknown';
       const controllerBasePath = route.controllerBasePath || '/';
 
@@ -1406,8 +4004,9 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
       }
 
       groups.get(controllerName).routes.push({
-        method: route.method.toUpperCase(),
-        path: route.path,
+        method: route.method,
+        path: route.host ? `${route.host}${route.path}` : route.path,
+        chain: route.chain,
       });
     }
 
@@ -1432,8 +4031,14 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * // }
    * ```
    */
-  private groupWebSocketRoutesByController(): Map<string, { basePath: string; routes: { path: string }[] }> {
-    const groups = new Map<string, { basePath: string; routes: { path: string }[] }>();
+  private groupWebSocketRoutesByController(): Map<
+    string,
+    { basePath: string; routes: { path: string; chain: BaseMiddleware<Context>[] }[] }
+  > {
+    const groups = new Map<
+      string,
+      { basePath: string; routes: { path: string; chain: BaseMiddleware<Context>[] }[] }
+    >();
 
     for (const wsRoute of this.wsRouteQueue) {
       const controllerName = wsRoute.controllerName || 'Unknown';
@@ -1446,8 +4051,11 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
         });
       }
 
+      const host = this.getRouteHost(wsRoute);
+
       groups.get(controllerName).routes.push({
-        path: wsRoute.path,
+        path: host ? `${host}/${wsRoute.path.replace(/^\//, '')}` : wsRoute.path,
+        chain: this.getRouteMiddlewares(wsRoute),
       });
     }
 
@@ -1482,9 +4090,78 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * ```
    */
   private getGlobalMiddlewaresForPath(path: string): BaseMiddleware<Context>[] {
-    return this.globalMiddlewares
-      .filter(({ config }) => shouldApplyMiddleware(path, config))
-      .map(({ middleware }) => middleware);
+    return dedupeMiddlewares(
+      this.getGlobalMiddlewareEntriesForPath(path).map((entry) =>
+        hasHostQualifiedPatterns(entry.config) ? this.getHostScopedMiddleware(entry) : entry.middleware,
+      ),
+    );
+  }
+
+  /**
+   * Resolves the middleware chain of a route
+   *
+   * Applicable global middlewares run first, then controller and route
+   * middlewares. A middleware registered at several levels runs once, at
+   * its first position. Host-scoped global registrations are wrapped and
+   * therefore never merged with route-level registrations.
+   *
+   * @param route - HTTP or WebSocket route
+   * @returns Effective middleware chain
+   */
+  private getRouteMiddlewares(route: {
+    path: string;
+    middlewares?: BaseMiddleware<Context>[];
+  }): BaseMiddleware<Context>[] {
+    return dedupeMiddlewares([...this.getGlobalMiddlewaresForPath(route.path), ...(route.middlewares ?? [])]);
+  }
+
+  /**
+   * Filters global middleware registrations for a specific route path
+   *
+   * Registrations with host-qualified patterns (e.g., 'admin.example.com/api/*')
+   * are kept when their path part may match; the host is checked per request.
+   *
+   * @param path - Route path
+   * @returns Matching registrations in registration order
+   */
+  private getGlobalMiddlewareEntriesForPath(path: string): Ergenecore['globalMiddlewares'] {
+    return this.globalMiddlewares.filter(({ config }) =>
+      hasHostQualifiedPatterns(config)
+        ? mayApplyHostScopedMiddleware(config, path)
+        : shouldApplyMiddleware(path, config),
+    );
+  }
+
+  /**
+   * Wraps a global middleware with host-qualified patterns so that it only
+   * runs for matching request hosts and paths
+   *
+   * @param entry - Global middleware registration
+   * @returns Middleware that calls next() directly when the patterns do not match
+   */
+  private getHostScopedMiddleware(entry: Ergenecore['globalMiddlewares'][number]): BaseMiddleware<Context> {
+    let wrapper = this.hostScopedMiddlewares.get(entry);
+
+    if (!wrapper) {
+      const { middleware, config } = entry;
+
+      wrapper = {
+        override: middleware.override,
+        handle: (context: Context, next: () => Promise<void>) => {
+          const { pathname } = new URL(context.req.url);
+
+          if (!shouldApplyHostScopedMiddleware(config, getRequestHostname(context.req), pathname)) {
+            return next();
+          }
+
+          return middleware.handle(context, next);
+        },
+      };
+      Object.defineProperty(wrapper.handle, 'name', { value: getMiddlewareName(middleware) });
+      this.hostScopedMiddlewares.set(entry, wrapper);
+    }
+
+    return wrapper;
   }
 
   /**
@@ -1546,12 +4223,13 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
    * @returns Formatted log string with color codes
    *
    * @example
-   * Output format:
+   * Output format (middlewares shared by all routes of a controller are
+   * listed once next to it, the others next to each route):
    * ```
-   *   UserController (/users):
+   *   UserController (/users) [CorsMiddleware → AuthMiddleware]
    *     GET /users
    *     GET /users/:id
-   *     POST /users
+   *     POST /users [RateLimiterMiddleware]
    *
    *   ChatNamespace (chat):
    *     WS /chat
@@ -1570,7 +4248,9 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
       .sort(([a], [b]) => a.localeCompare(b));
 
     for (const [controllerName, group] of httpOnlyControllers) {
-      lines.push(`  ${blue(controllerName)} ${yellow(`(${group.basePath})`)}`);
+      const common = this.extractCommonMiddlewares(group.routes.map((route) => ({ middlewares: route.chain })));
+
+      lines.push(`  ${blue(controllerName)} ${yellow(`(${group.basePath})`)}${this.formatMiddlewareChain(common)}`);
 
       // Sort routes: GET first, then POST, PUT, PATCH, DELETE
       const methodOrder = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
@@ -1595,7 +4275,7 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
           coloredMethod = red(route.method);
         }
 
-        lines.push(`    ${coloredMethod} ${route.path}`);
+        lines.push(`    ${coloredMethod} ${route.path}${this.formatMiddlewareChain(route.chain, common)}`);
       }
 
       lines.push(''); // Empty line between controllers
@@ -1609,9 +4289,13 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
     for (const [controllerName, group] of mixedControllers) {
       // Merge WebSocket routes into this controller
       const wsGroup = wsGroups.get(controllerName);
-      const allRoutes = [...group.routes, ...wsGroup.routes.map((r) => ({ method: 'WS', path: r.path }))];
+      const allRoutes = [
+        ...group.routes,
+        ...wsGroup.routes.map((r) => ({ method: 'WS', path: r.path, chain: r.chain })),
+      ];
+      const common = this.extractCommonMiddlewares(allRoutes.map((route) => ({ middlewares: route.chain })));
 
-      lines.push(`  ${blue(controllerName)} ${yellow(`(${group.basePath})`)}`);
+      lines.push(`  ${blue(controllerName)} ${yellow(`(${group.basePath})`)}${this.formatMiddlewareChain(common)}`);
 
       // Sort routes: GET first, then POST, PUT, PATCH, DELETE, WS
       const methodOrder = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'WS'];
@@ -1638,7 +4322,7 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
           coloredMethod = blue(route.method);
         }
 
-        lines.push(`    ${coloredMethod} ${route.path}`);
+        lines.push(`    ${coloredMethod} ${route.path}${this.formatMiddlewareChain(route.chain, common)}`);
       }
 
       lines.push(''); // Empty line between controllers
@@ -1653,12 +4337,50 @@ export class Ergenecore extends AsenaAdapter<Context, ValidationSchemaWithHook |
       lines.push(`  ${blue(namespaceName)} ${yellow(`(${group.basePath})`)}`);
 
       for (const route of group.routes) {
-        lines.push(`    ${blue('WS')} ${route.path}`);
+        lines.push(`    ${blue('WS')} ${route.path}${this.formatMiddlewareChain(route.chain)}`);
       }
 
       lines.push(''); // Empty line between namespaces
     }
 
+    // 4. Static routes
+    if (this.staticRoutes.size > 0) {
+      lines.push(`  ${blue('Static routes')}`);
+
+      for (const [path, value] of this.staticRoutes) {
+        const kind = isHtmlBundle(value) ? 'HTML bundle' : value instanceof Response ? 'response' : 'file';
+
+        lines.push(`    ${green('STATIC')} ${path} ${yellow(`(${kind})`)}`);
+      }
+
+      lines.push('');
+    }
+
+    // 5. Path normalization policy
+    const { trailingSlash, caseSensitive, collapseSlashes } = this.pathNormalization;
+
+    lines.push(
+      `  ${yellow('Path normalization')}: trailing slash ${trailingSlash}, ` +
+        `${caseSensitive ? 'case-sensitive' : 'case-insensitive'}, ` +
+        `${collapseSlashes ? 'duplicate slashes collapsed' : 'duplicate slashes kept'}`,
+    );
+    lines.push('');
+
     return lines.join('\n');
   }
+
+  /**
+   * Formats a middleware chain for the startup log
+   *
+   * @param chain - Middlewares in execution order
+   * @param shown - Middlewares already listed for the controller (omitted)
+   * @returns ' [A → B]', or an empty string when nothing is left to show
+   */
+  private formatMiddlewareChain(chain: BaseMiddleware<Context>[], shown: BaseMiddleware<Context>[] = []): string {
+    const names = chain
+      .filter((middleware) => !shown.some((other) => isSameMiddleware(other, middleware)))
+      .map(getMiddlewareName);
+
+    return names.length > 0 ? ` [${names.join(' → ')}]` : '';
+  }
 }
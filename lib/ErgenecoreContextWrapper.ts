@@ -1,5 +1,5 @@
 import type { AsenaContext, CookieExtra, SendOptions } from '@asenajs/asena/adapter';
-import { HttpException } from './errors';
+import { HttpException, PayloadTooLargeException } from './errors';
 
 /**
  * CoreContext type alias for CoreContextWrapper
@@ -23,6 +23,17 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
 
   private bodyRead = false;
 
+  private _signal?: AbortSignal;
+
+  private bodyLimit?: number;
+
+  private limitedBody?: Blob;
+
+  /**
+   * Query object parsed by the route's query schema
+   */
+  private validatedQuery?: Record<string, unknown>;
+
   /**
    * Lazy-initialized mock Response object
    * Only created when context.res is accessed (e.g., by middlewares setting headers)
@@ -31,6 +42,12 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
     headers: Map<string, string>;
   };
 
+  /**
+   * Set-Cookie values queued when Bun's native cookie map is unavailable
+   * (fallback handler, inject())
+   */
+  private pendingCookies?: string[];
+
   public constructor(request: Request) {
     this.request = request;
   }
@@ -70,6 +87,27 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
     return this.request;
   }
 
+  /**
+   * Signal aborted when the client disconnects or the route timeout fires
+   *
+   * Pass it to database queries and outbound requests to cancel them.
+   *
+   * @example
+   * ```typescript
+   * const res = await fetch(upstreamUrl, { signal: context.signal });
+   * ```
+   */
+  public get signal(): AbortSignal {
+    return this._signal ?? this.request.signal;
+  }
+
+  /**
+   * Replace the request signal (used by the adapter to add the route timeout)
+   */
+  public setSignal(signal: AbortSignal): void {
+    this._signal = signal;
+  }
+
   /**
    * Get mock Response object (lazy-initialized)
    *
@@ -103,7 +141,7 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
    * Get request body as ArrayBuffer
    */
   public async getArrayBuffer(): Promise<ArrayBuffer> {
-    return await this.request.arrayBuffer();
+    return await (await this.getBodySource()).arrayBuffer();
   }
 
   /**
@@ -113,7 +151,7 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
     const contentType = this.request.headers.get('content-type');
 
     if (contentType?.includes('multipart/form-data') || contentType?.includes('application/x-www-form-urlencoded')) {
-      const formData = await this.request.formData();
+      const formData = await (await this.getBodySource()).formData();
       const result: Record<string, any> = {};
 
       formData.forEach((value, key) => {
@@ -123,29 +161,116 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
       return result;
     }
 
-    return await this.request.json();
+    return await (await this.getBodySource()).json();
   }
 
   /**
    * Get request body as Blob
    */
   public async getBlob(): Promise<Blob> {
-    return await this.request.blob();
+    return await (await this.getBodySource()).blob();
   }
 
   /**
    * Get request body as FormData
    */
   public async getFormData(): Promise<FormData> {
-    return await this.request.formData();
+    return await (await this.getBodySource()).formData();
+  }
+
+  /**
+   * Limit the request body size (used by the adapter for routes with a `bodyLimit`)
+   *
+   * Body readers throw PayloadTooLargeException (413) once the limit is exceeded.
+   *
+   * @param limit - Maximum body size in bytes
+   */
+  public setBodyLimit(limit: number): void {
+    this.bodyLimit = limit;
+  }
+
+  /**
+   * Store the data parsed by a validation schema (used by the adapter after successful validation)
+   *
+   * getBody() returns the parsed `json` data and getQuery() the parsed
+   * `query` values, so defaults, coercions and transforms of the schemas
+   * apply.
+   *
+   * @param target - Validation target
+   * @param data - Schema output
+   */
+  public setValidatedData(target: string, data: unknown): void {
+    if (target === 'json' || target === 'body') {
+      this.bodyCache = data;
+      this.bodyRead = true;
+    } else if (target === 'query' && data !== null && typeof data === 'object') {
+      this.validatedQuery = data as Record<string, unknown>;
+    }
+  }
+
+  /**
+   * Returns the object the body readers read from
+   *
+   * Without a body limit this is the native request. With a limit the body
+   * is streamed and counted chunk by chunk, so requests without a
+   * Content-Length header (chunked encoding) cannot exceed it.
+   *
+   * @throws PayloadTooLargeException if the body exceeds the limit
+   */
+  private async getBodySource(): Promise<Request | Response> {
+    if (this.bodyLimit === undefined || (!this.request.body && !this.limitedBody)) {
+      return this.request;
+    }
+
+    if (!this.limitedBody) {
+      if (Number(this.request.headers.get('content-length')) > this.bodyLimit) {
+        throw new PayloadTooLargeException(this.bodyLimit);
+      }
+
+      const reader = this.request.body.getReader();
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+
+      for (;;) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          break;
+        }
+
+        size += value.byteLength;
+
+        if (size > this.bodyLimit) {
+          await reader.cancel();
+
+          throw new PayloadTooLargeException(this.bodyLimit);
+        }
+
+        chunks.push(value);
+      }
+
+      this.limitedBody = new Blob(chunks);
+    }
+
+    // Buffered body can be read more than once
+    return new Response(this.limitedBody, { headers: this.request.headers });
   }
 
   /**
    * Get URL parameter by name
-   * Parameters are stored in the values map by the router
+   * Parameters are stored in the values map by the router (converted by
+   * their param matcher, e.g. a number for `:id<int>`)
+   */
+  public getParam<T = string>(name: string): T {
+    return this.values.get(`param:${name}`) ?? '';
+  }
+
+  /**
+   * Get host parameter by name
+   * Parameters are captured from host patterns such as ':tenant.example.com'
    */
-  public getParam(name: string): string {
-    return this.values.get(`param:${name}`) || '';
+  public getHostParam(name: string): string {
+    return (this.request as Request & { hostParams?: Record<string, string> }).hostParams?.[name] || '';
   }
 
   /**
@@ -178,7 +303,7 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
 
     try {
       // Get raw text first to check if body is empty
-      const text = await this.request.text();
+      const text = await (await this.getBodySource()).text();
 
       // Empty body is valid - return empty object
       if (!text || text.trim() === '') {
@@ -192,6 +317,11 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
       this.bodyRead = true;
       return this.bodyCache as T;
     } catch (error) {
+      // Body limit exceeded
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
       // JSON parsing failed - throw HttpException (industry standard)
       throw new HttpException(400, {
         error: 'Invalid JSON in request body',
@@ -202,8 +332,14 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
 
   /**
    * Get single query parameter by name
+   *
+   * Returns the parsed value if the route validated the query with a schema.
    */
   public async getQuery(name: string): Promise<string> {
+    if (this.validatedQuery && name in this.validatedQuery) {
+      return this.validatedQuery[name] as string;
+    }
+
     return this.url.searchParams.get(name) || '';
   }
 
@@ -285,6 +421,7 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
    * Set cookie (optionally signed with secret)
    *
    * Uses Bun's native cookie API which automatically handles Set-Cookie headers.
+   * Outside Bun's native routes, the cookie is added to the response by the adapter.
    *
    * @param name - Cookie name
    * @param value - Cookie value
@@ -303,14 +440,11 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
       cookieValue = await this.signCookieValue(value, secret);
     }
 
-    // Use Bun native API (available in Bun.serve() context)
+    // Use Bun native API (available in Bun.serve() route handlers)
     if ('cookies' in this.request && (this.request as any).cookies) {
       (this.request as any).cookies.set(name, cookieValue, extraOptions);
     } else {
-      throw new Error(
-        'setCookie() requires Bun native cookie API. ' +
-          'This method should only be called within Bun.serve() context.',
-      );
+      this.queueCookie(new Bun.Cookie(name, cookieValue, extraOptions ?? {}));
     }
   }
 
@@ -318,6 +452,7 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
    * Delete cookie
    *
    * Uses Bun's native cookie API which automatically handles Set-Cookie headers.
+   * Outside Bun's native routes, the expired cookie is added to the response by the adapter.
    *
    * @param name - Cookie name
    * @param options - Cookie options (path, domain)
@@ -335,17 +470,60 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
             path: extraOptions.path,
             domain: extraOptions.domain,
           }
-        : undefined;
+        : {};
 
       (this.request as any).cookies.delete(name, deleteOptions);
     } else {
-      throw new Error(
-        'deleteCookie() requires Bun native cookie API. ' +
-          'This method should only be called within Bun.serve() context.',
+      this.queueCookie(
+        new Bun.Cookie(name, '', {
+          path: extraOptions?.path ?? '/',
+          domain: extraOptions?.domain,
+          expires: new Date(0),
+          maxAge: 0,
+        }),
       );
     }
   }
 
+  /**
+   * Apply headers set via setResponseHeader() and queued cookies to a response
+   *
+   * Called by the adapter for every outgoing response (handler return values,
+   * redirects, middleware rejections, error responses). Headers already
+   * present on the response take precedence.
+   *
+   * @param response - Outgoing response
+   * @returns The response itself when there is nothing to apply, otherwise a copy with the headers
+   */
+  public finalizeResponse(response: Response): Response {
+    const pending = this._mockResponse?.headers;
+    const cookies = this.pendingCookies;
+    const missing: [string, string][] = [];
+
+    pending?.forEach((value, key) => {
+      if (!response.headers.has(key)) {
+        missing.push([key, value]);
+      }
+    });
+
+    if (missing.length === 0 && !cookies) {
+      return response;
+    }
+
+    // Copy instead of mutating: the response may be immutable or shared between requests
+    const headers = new Headers(response.headers);
+
+    for (const [key, value] of missing) {
+      headers.set(key, value);
+    }
+
+    for (const cookie of cookies ?? []) {
+      headers.append('Set-Cookie', cookie);
+    }
+
+    return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+  }
+
   /**
    * Redirect to a URL
    */
@@ -426,6 +604,13 @@ export class ErgenecoreContextWrapper implements AsenaContext<Request, Response>
     return merged;
   }
 
+  /**
+   * Queue a Set-Cookie header for finalizeResponse()
+   */
+  private queueCookie(cookie: Bun.Cookie): void {
+    (this.pendingCookies ??= []).push(cookie.toString());
+  }
+
   /**
    * Sign cookie value using Web Crypto API (HMAC-SHA256)
    */
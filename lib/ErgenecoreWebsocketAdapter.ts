@@ -24,6 +24,10 @@ export class ErgenecoreWebsocketAdapter extends AsenaWebsocketAdapter {
 
   private heartbeatIntervals: Map<string, NodeJS.Timeout> = new Map(); // connection ID -> interval
 
+  private sockets: Map<string, ServerWebSocket<WebSocketData>> = new Map(); // connection ID -> socket
+
+  private onAllClosed?: () => void; // resolves a pending shutdown once every socket has closed
+
   public constructor(logger: ServerLogger) {
     super(logger);
   }
@@ -81,18 +85,27 @@ export class ErgenecoreWebsocketAdapter extends AsenaWebsocketAdapter {
 
   /**
    * Gets active connection count for a namespace
-   * @param namespace - WebSocket namespace
+   * @param namespace - WebSocket namespace (all namespaces if omitted)
    * @returns Number of active connections
    */
-  public getConnectionCount(namespace: string): number {
+  public getConnectionCount(namespace?: string): number {
+    if (namespace === undefined) {
+      return this.sockets.size;
+    }
+
     return this.activeConnections.get(namespace)?.size || 0;
   }
 
   /**
    * Graceful shutdown - closes all connections
-   * @param _timeoutMs - Timeout for graceful shutdown (default: 5000)
+   *
+   * Sends a 1001 (Going Away) close frame to every open connection and waits
+   * for the clients to complete the close handshake. Connections still open
+   * after the timeout are terminated.
+   *
+   * @param timeoutMs - Timeout for graceful shutdown (default: 5000)
    */
-  public async shutdown(_timeoutMs = 5000): Promise<void> {
+  public async shutdown(timeoutMs = 5000): Promise<void> {
     this.logger.info('Starting WebSocket graceful shutdown...');
 
     // Stop all heartbeats
@@ -102,7 +115,32 @@ export class ErgenecoreWebsocketAdapter extends AsenaWebsocketAdapter {
 
     this.heartbeatIntervals.clear();
 
+    if (this.sockets.size > 0) {
+      const { promise, resolve } = Promise.withResolvers<void>();
+
+      this.onAllClosed = resolve;
+
+      for (const ws of this.sockets.values()) {
+        ws.close(1001, 'Server shutting down');
+      }
+
+      const timer = setTimeout(resolve, timeoutMs);
+
+      await promise;
+      clearTimeout(timer);
+      this.onAllClosed = undefined;
+
+      if (this.sockets.size > 0) {
+        this.logger.warn(`WebSocket shutdown timed out, terminating ${this.sockets.size} connection(s)`);
+
+        for (const ws of this.sockets.values()) {
+          ws.terminate();
+        }
+      }
+    }
+
     // Clear connection tracking
+    this.sockets.clear();
     this.activeConnections.clear();
 
     this.logger.info('WebSocket shutdown complete');
@@ -144,6 +182,7 @@ export class ErgenecoreWebsocketAdapter extends AsenaWebsocketAdapter {
         }
 
         this.activeConnections.get(namespace).add(ws.data.id);
+        this.sockets.set(ws.data.id, ws);
 
         // Start heartbeat if enabled
         if (heartbeatInterval) {
@@ -167,6 +206,11 @@ export class ErgenecoreWebsocketAdapter extends AsenaWebsocketAdapter {
 
         // Remove from tracking
         this.activeConnections.get(namespace)?.delete(ws.data.id);
+        this.sockets.delete(ws.data.id);
+
+        if (this.sockets.size === 0) {
+          this.onAllClosed?.();
+        }
 
         const remainingCount = this.getConnectionCount(namespace);
 
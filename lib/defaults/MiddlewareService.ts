@@ -23,6 +23,7 @@
 
 import type { AsenaMiddlewareService } from '@asenajs/asena/middleware';
 import type { Context } from '../ErgenecoreContextWrapper';
+import { MIDDLEWARE_INSTANCE } from '../utils/MiddlewarePipeline';
 
 /**
  * Base class for Ergenecore middleware services
@@ -30,6 +31,23 @@ import type { Context } from '../ErgenecoreContextWrapper';
  * Implements Asena's middleware service interface with Ergenecore's Context type.
  */
 export abstract class MiddlewareService implements AsenaMiddlewareService<Context> {
+  /**
+   * Binds `handle` to the instance and marks it with the instance, so that
+   * registrations of the same instance at several levels run once
+   * (see utils/MiddlewarePipeline)
+   */
+  public constructor() {
+    // Handles declared as arrow function properties are assigned after this constructor
+    if (typeof this.handle !== 'function') {
+      return;
+    }
+
+    const handle = this.handle.bind(this);
+
+    Object.setPrototypeOf(handle, Object.create(Function.prototype, { [MIDDLEWARE_INSTANCE]: { value: this } }));
+    this.handle = handle;
+  }
+
   /**
    * Middleware handler
    *
@@ -89,6 +89,73 @@ export class HttpException extends Error {
   }
 }
 
+/**
+ * Thrown when a request exceeds its route timeout
+ *
+ * Passed to the error handler (if any) like other errors; otherwise the
+ * client receives the configured status (503 or 504).
+ *
+ * @example
+ * ```typescript
+ * adapter.onError((error, ctx) => {
+ *   if (error instanceof RequestTimeoutException) {
+ *     return ctx.send({ error: `Timed out: ${error.path}` }, error.status);
+ *   }
+ *
+ *   return ctx.send({ error: 'Internal Server Error' }, 500);
+ * });
+ * ```
+ */
+export class RequestTimeoutException extends HttpException {
+  /**
+   * Route path that timed out
+   */
+  public readonly path: string;
+
+  /**
+   * Time limit that was exceeded (ms)
+   */
+  public readonly timeout: number;
+
+  /**
+   * Creates a new RequestTimeoutException
+   *
+   * @param path - Route path
+   * @param timeout - Time limit (ms)
+   * @param status - Response status (503 or 504)
+   */
+  public constructor(path: string, timeout: number, status: 503 | 504 = 503) {
+    super(status, { error: status === 504 ? 'Gateway Timeout' : 'Service Unavailable' });
+    this.name = 'RequestTimeoutException';
+    this.path = path;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Thrown when a request body exceeds the route's body limit
+ *
+ * Passed to the error handler (if any) like other errors; otherwise the
+ * client receives 413 Payload Too Large.
+ */
+export class PayloadTooLargeException extends HttpException {
+  /**
+   * Body limit that was exceeded (bytes)
+   */
+  public readonly limit: number;
+
+  /**
+   * Creates a new PayloadTooLargeException
+   *
+   * @param limit - Body limit (bytes)
+   */
+  public constructor(limit: number) {
+    super(413, { error: 'Payload Too Large', limit });
+    this.name = 'PayloadTooLargeException';
+    this.limit = limit;
+  }
+}
+
 /**
  * Internal error class for middleware response propagation
  *
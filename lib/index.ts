@@ -28,16 +28,35 @@ export { ErgenecoreContextWrapper } from './ErgenecoreContextWrapper';
 export { ErgenecoreWebsocketAdapter } from './ErgenecoreWebsocketAdapter';
 
 // Error classes
-export { HttpException } from './errors';
+export { HttpException, PayloadTooLargeException, RequestTimeoutException } from './errors';
 
 // Factory functions
 export {
   createErgenecoreAdapter,
+  createErgenecoreCluster,
   createProductionAdapter,
   createDevelopmentAdapter,
   type ErgenecoreOptions,
 } from './utils/factory';
 
+// Cluster mode
+export {
+  ClusterSupervisor,
+  getClusterWorkerId,
+  isClusterWorker,
+  onClusterMessage,
+  sendToSupervisor,
+} from './utils/Cluster';
+
+// Programmatic routes
+export { RouteGroup } from './utils/RouteGroup';
+
+// Handler return values
+export { respond } from './utils/ResponseCoercion';
+
+// Testing utilities
+export { InjectResponse } from './utils/InjectResponse';
+
 // Default base classes
 export { ValidationService } from './defaults/ValidationService';
 export { ConfigService } from './defaults/ConfigService';
@@ -46,6 +65,61 @@ export { StaticServeService } from './defaults/StaticServeService';
 
 // Types
 export type { Context } from './ErgenecoreContextWrapper';
-export type { ErgenecoreHandler, ErgenecoreNext } from './types/Handler';
+export type {
+  ErgenecoreHandler,
+  ErgenecoreNext,
+  MethodNotAllowedHandler,
+  NotFoundHandler,
+  ResponseTuple,
+} from './types/Handler';
 export type { StaticServeExtras } from './types/StaticServeExtras';
 export type { ValidationSchema, ValidationSchemaWithHook } from './types/Validation';
+export type { InjectOptions } from './types/Inject';
+export type { RouteInfo } from './types/RouteInfo';
+export type { RouteConflict, RouteConflictKind } from './types/RouteConflict';
+export type { PathNormalizationOptions, TrailingSlashPolicy } from './types/PathNormalization';
+export type { ControllerOptions, ErgenecoreRouteParams, ErgenecoreWebsocketRouteParams } from './types/RouteOptions';
+export type { ShutdownHook, ShutdownSignalOptions } from './types/Shutdown';
+export type {
+  LifecycleHooks,
+  OnErrorHook,
+  OnResponseHook,
+  OnSendHook,
+  OnStartHook,
+  OnStopHook,
+  RequestHook,
+  RequestHookName,
+  RouteHooks,
+} from './types/Hooks';
+export type { ErgenecoreServeOptions, RequestTimeout, RequestTimeoutOptions } from './types/Timeout';
+export type { ResponseSerializer, SerializerOptions } from './types/Serializer';
+export type { StaticRouteValue } from './types/StaticRoute';
+export type { ListenerOptions } from './types/Listener';
+export type { HttpRedirectOptions, TlsCertificateFiles, TlsOptions } from './types/Tls';
+export type { ClusterOptions, ClusterWorkerHealth, ClusterWorkerStatus } from './types/Cluster';
+export type {
+  HealthCheck,
+  HealthCheckOptions,
+  HealthCheckResult,
+  HealthOptions,
+  HealthReport,
+  HealthStatus,
+} from './types/Health';
+export type {
+  JoinedPath,
+  MergedSchemas,
+  NoSchemas,
+  RouteDefinitionHandler,
+  RouteDefinitionOptions,
+  RouteGroupOptions,
+  RouteMiddleware,
+  RouteSchemas,
+} from './types/RouteGroup';
+export type {
+  InferValidationSchema,
+  RouteContext,
+  RouteParamNames,
+  RouteParamTypes,
+  TypedContext,
+} from './types/TypedContext';
+export type { ParamMatcher, ParamMatcherTypes } from './types/ParamMatcher';
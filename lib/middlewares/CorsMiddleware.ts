@@ -47,6 +47,9 @@ export interface CorsOptions {
   /**
    * Allowed HTTP methods
    *
+   * When not set, preflight responses on the adapter's default OPTIONS handler
+   * use the methods registered for the requested path.
+   *
    * @default ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']
    */
   methods?: string[];
@@ -103,6 +106,8 @@ export class CorsMiddleware extends MiddlewareService {
 
   private readonly methods: string;
 
+  private readonly methodsConfigured: boolean;
+
   private readonly allowedHeaders: string;
 
   private readonly exposedHeaders: string;
@@ -137,6 +142,7 @@ export class CorsMiddleware extends MiddlewareService {
     // Pre-process and store configuration (avoid runtime processing)
     this.origin = options.origin ?? '*';
     this.methods = (options.methods ?? ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']).join(', ');
+    this.methodsConfigured = options.methods !== undefined;
     this.allowedHeaders = (options.allowedHeaders ?? ['Content-Type', 'Authorization']).join(', ');
     this.exposedHeaders = (options.exposedHeaders ?? []).join(', ');
     this.credentials = options.credentials ?? false;
@@ -188,7 +194,7 @@ export class CorsMiddleware extends MiddlewareService {
       // Build headers object for preflight response
       const headers: Record<string, string> = {
         'Access-Control-Allow-Origin': allowedOrigin,
-        'Access-Control-Allow-Methods': this.methods,
+        'Access-Control-Allow-Methods': this.getAllowedMethods(context),
         'Access-Control-Allow-Headers': this.allowedHeaders,
         'Access-Control-Max-Age': this.maxAge,
       };
@@ -205,6 +211,25 @@ export class CorsMiddleware extends MiddlewareService {
     return await next();
   }
 
+  /**
+   * Determines the Access-Control-Allow-Methods value for a preflight request
+   *
+   * Uses the configured methods, or the methods registered for the path when
+   * the adapter's default OPTIONS handler provides them.
+   *
+   * @param context - Ergenecore context wrapper
+   * @returns Comma-separated method list
+   */
+  private getAllowedMethods(context: Context): string {
+    if (this.methodsConfigured) {
+      return this.methods;
+    }
+
+    const routeMethods = context.getValue<string[] | undefined>('allowedMethods');
+
+    return routeMethods ? routeMethods.join(', ') : this.methods;
+  }
+
   /**
    * Determines the allowed origin value for the response
    *
@@ -0,0 +1,120 @@
+import type { ServerLogger } from '@asenajs/asena/logger';
+
+/**
+ * Cluster supervisor configuration
+ *
+ * @example
+ * ```typescript
+ * const cluster = createErgenecoreCluster({
+ *   workers: 4,
+ *   onMessage: (message, workerId) => console.log(`worker ${workerId}:`, message),
+ * });
+ * ```
+ */
+export interface ClusterOptions {
+  /**
+   * Number of worker processes
+   *
+   * @default navigator.hardwareConcurrency
+   */
+  workers?: number;
+
+  /**
+   * Command starting a worker
+   *
+   * @default the command of the current process (same entry script)
+   */
+  cmd?: string[];
+
+  /**
+   * Additional environment variables of the workers
+   */
+  env?: Record<string, string>;
+
+  /**
+   * Delay before the first restart of a crashed worker (ms), doubled per consecutive crash
+   *
+   * @default 100
+   */
+  restartDelay?: number;
+
+  /**
+   * Maximum restart delay (ms)
+   *
+   * @default 10000
+   */
+  maxRestartDelay?: number;
+
+  /**
+   * Interval of worker health reports (ms)
+   *
+   * @default 5000
+   */
+  healthInterval?: number;
+
+  /**
+   * Time workers get to drain in-flight requests on shutdown before they are killed (ms)
+   *
+   * @default 10000
+   */
+  shutdownTimeout?: number;
+
+  /**
+   * Signals that shut the cluster down gracefully (`false` to not handle signals)
+   *
+   * @default ['SIGTERM', 'SIGINT']
+   */
+  shutdownSignals?: NodeJS.Signals[] | false;
+
+  /**
+   * Receives messages sent by workers with `sendToSupervisor()`
+   */
+  onMessage?: (message: unknown, workerId: number) => void;
+
+  /**
+   * Supervisor logger
+   */
+  logger?: ServerLogger;
+}
+
+/**
+ * Lifecycle state of a worker slot
+ */
+export type ClusterWorkerStatus = 'starting' | 'ready' | 'restarting' | 'stopping' | 'exited';
+
+/**
+ * Health of a worker slot as last reported to the supervisor
+ */
+export interface ClusterWorkerHealth {
+  /**
+   * Worker slot (1-based, kept across restarts)
+   */
+  id: number;
+
+  /**
+   * Process id of the current worker process
+   */
+  pid: number;
+
+  status: ClusterWorkerStatus;
+
+  /**
+   * Number of restarts of the slot
+   */
+  restarts: number;
+
+  /**
+   * Timestamp (ms) of the last health report
+   */
+  lastHeartbeat?: number;
+
+  /**
+   * In-flight requests at the last health report
+   */
+  pendingRequests?: number;
+
+  /**
+   * Resident set size at the last health report (bytes)
+   */
+  memoryUsage?: number;
+}
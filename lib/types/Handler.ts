@@ -15,8 +15,10 @@ import type { Context } from '../ErgenecoreContextWrapper';
  * Asynchronous function that receives an ErgenecoreContextWrapper
  * and returns a Response or JSON-serializable data.
  *
+ * @template C - Context type (`TypedContext` / `RouteContext` for typed params, body and query)
  * @param ctx - Ergenecore context wrapper (ErgenecoreContextWrapper)
- * @returns Response object or JSON-serializable data
+ * @returns Response object, string, Blob/BunFile, bytes, stream, async iterable,
+ *   respond() tuple or JSON-serializable data
  *
  * @example
  * ```typescript
@@ -46,7 +48,29 @@ import type { Context } from '../ErgenecoreContextWrapper';
  * };
  * ```
  */
-export type ErgenecoreHandler = (ctx: Context) => Promise<Response | any>;
+export type ErgenecoreHandler<C = Context> = (ctx: C) => Promise<Response | any>;
+
+/**
+ * Response described by a handler return value (see respond())
+ *
+ * The body is coerced like any other return value (string, Blob, stream,
+ * serialized data) and the status and headers are applied on top.
+ *
+ * @example
+ * ```typescript
+ * const handler: ErgenecoreHandler = async () =>
+ *   respond({
+ *     status: 201,
+ *     headers: { Location: '/users/42' },
+ *     body: { id: 42 },
+ *   });
+ * ```
+ */
+export interface ResponseTuple {
+  status?: number;
+  headers?: HeadersInit;
+  body: unknown;
+}
 
 /**
  * Ergenecore middleware next function
@@ -66,3 +90,37 @@ export type ErgenecoreHandler = (ctx: Context) => Promise<Response | any>;
  * ```
  */
 export type ErgenecoreNext = () => Promise<void>;
+
+/**
+ * Handler for requests that do not match any route
+ *
+ * Runs after global middlewares whose include/exclude patterns match the
+ * request path, so CORS and logging middlewares still apply.
+ *
+ * @param ctx - Ergenecore context wrapper
+ * @returns Response to send
+ *
+ * @example
+ * ```typescript
+ * adapter.onNotFound((ctx) => ctx.send({ error: `No route for ${ctx.req.url}` }, 404));
+ * ```
+ */
+export type NotFoundHandler = (ctx: Context) => Response | Promise<Response>;
+
+/**
+ * Handler for requests to a known path with an unregistered method
+ *
+ * The adapter adds the `Allow` header to the returned response if missing.
+ *
+ * @param ctx - Ergenecore context wrapper
+ * @param allowedMethods - Methods registered for the requested path
+ * @returns Response to send
+ *
+ * @example
+ * ```typescript
+ * adapter.onMethodNotAllowed((ctx, allowed) =>
+ *   ctx.send({ error: 'Method Not Allowed', allowed }, 405),
+ * );
+ * ```
+ */
+export type MethodNotAllowedHandler = (ctx: Context, allowedMethods: string[]) => Response | Promise<Response>;
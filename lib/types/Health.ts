@@ -0,0 +1,129 @@
+/**
+ * Health check function
+ *
+ * The check fails when it throws, rejects, returns `false` or exceeds its
+ * timeout. Any other return value passes; objects are included in the
+ * response as `details`.
+ *
+ * @example
+ * ```typescript
+ * const database: HealthCheck = async () => {
+ *   await db.query('SELECT 1');
+ *
+ *   return { pool: db.pool.size };
+ * };
+ * ```
+ */
+export type HealthCheck = () => unknown;
+
+/**
+ * Options of a registered health check
+ */
+export interface HealthCheckOptions {
+  /**
+   * Time after which the check fails (ms)
+   *
+   * @default 5000
+   */
+  timeout?: number;
+
+  /**
+   * Run the check for liveness as well as readiness
+   *
+   * Only use this for failures a restart fixes (e.g., a deadlocked worker);
+   * dependency checks belong to readiness only.
+   *
+   * @default false
+   */
+  liveness?: boolean;
+}
+
+/**
+ * Health endpoint configuration
+ *
+ * @example
+ * ```typescript
+ * adapter.enableHealthChecks({ livePath: '/livez', readyPath: '/readyz' });
+ * ```
+ */
+export interface HealthOptions {
+  /**
+   * Liveness endpoint path
+   *
+   * @default '/health/live'
+   */
+  livePath?: string;
+
+  /**
+   * Readiness endpoint path
+   *
+   * @default '/health/ready'
+   */
+  readyPath?: string;
+}
+
+/**
+ * Status of a health check or endpoint
+ */
+export type HealthStatus = 'up' | 'down';
+
+/**
+ * Result of a single health check
+ */
+export interface HealthCheckResult {
+  status: HealthStatus;
+
+  /**
+   * Check duration (ms)
+   */
+  latency: number;
+
+  /**
+   * Failure reason
+   */
+  error?: string;
+
+  /**
+   * Object returned by the check
+   */
+  details?: unknown;
+}
+
+/**
+ * Body of the liveness and readiness responses (503 when down)
+ */
+export interface HealthReport {
+  status: HealthStatus;
+
+  /**
+   * Results by check name
+   */
+  checks: Record<string, HealthCheckResult>;
+
+  /**
+   * Adapter state
+   */
+  server: {
+    /**
+     * Whether start() completed and no shutdown is in progress
+     */
+    ready: boolean;
+
+    shuttingDown: boolean;
+
+    /**
+     * In-flight HTTP requests across all listeners
+     */
+    pendingRequests: number;
+
+    /**
+     * Open WebSocket connections
+     */
+    websocketConnections: number;
+
+    /**
+     * Process uptime (s)
+     */
+    uptime: number;
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Ergenecore lifecycle hook type definitions
+ *
+ * Request hooks run in this order:
+ * 1. `onRequest` - before global middlewares (also for 404/405/OPTIONS responses)
+ * 2. `preValidation` - after middlewares, before the validator
+ * 3. `preHandler` - after validation, before the route handler
+ * 4. `onSend` - with the final Response (including 403, validation and error responses)
+ * 5. `onResponse` - after the response has been handed to Bun
+ *
+ * `onError` hooks observe errors before the error handler runs. `onStart`
+ * and `onStop` hooks follow the server lifecycle.
+ *
+ * @module types/Hooks
+ */
+
+import type { Server } from 'bun';
+import type { Context } from '../ErgenecoreContextWrapper';
+
+/**
+ * Hook running before the route handler (`onRequest`, `preValidation`, `preHandler`)
+ *
+ * Returning a Response skips the remaining hooks and the handler. The
+ * Response still passes through the `onSend` hooks.
+ *
+ * @example
+ * ```typescript
+ * adapter.addHook('onRequest', (ctx) => {
+ *   ctx.setValue('startTime', performance.now());
+ * });
+ * ```
+ */
+export type RequestHook = (ctx: Context) => void | Response | Promise<void | Response>;
+
+/**
+ * Hook receiving the response before it is sent
+ *
+ * Returning a Response replaces the current one for the following hooks.
+ *
+ * @example
+ * ```typescript
+ * adapter.addHook('onSend', (ctx, response) => {
+ *   response.headers.set('X-Request-Id', ctx.getValue('requestId'));
+ * });
+ * ```
+ */
+export type OnSendHook = (ctx: Context, response: Response) => void | Response | Promise<void | Response>;
+
+/**
+ * Hook running after the response has been handed to Bun (e.g., metrics)
+ *
+ * Does not delay the response. Errors are logged.
+ */
+export type OnResponseHook = (ctx: Context, response: Response) => void | Promise<void>;
+
+/**
+ * Hook observing errors thrown by hooks, middlewares or handlers
+ *
+ * Runs before the error handler set with `onError()`, which still produces the response.
+ */
+export type OnErrorHook = (error: unknown, ctx: Context) => void | Promise<void>;
+
+/**
+ * Hook running after the server has started
+ */
+export type OnStartHook = (server: Server<unknown>) => void | Promise<void>;
+
+/**
+ * Hook running after the server has stopped
+ */
+export type OnStopHook = () => void | Promise<void>;
+
+/**
+ * Lifecycle hooks by name
+ */
+export interface LifecycleHooks {
+  onRequest: RequestHook;
+  preValidation: RequestHook;
+  preHandler: RequestHook;
+  onSend: OnSendHook;
+  onResponse: OnResponseHook;
+  onError: OnErrorHook;
+  onStart: OnStartHook;
+  onStop: OnStopHook;
+}
+
+/**
+ * Names of hooks that run per request
+ */
+export type RequestHookName = Exclude<keyof LifecycleHooks, 'onStart' | 'onStop'>;
+
+/**
+ * Per-route (or per-controller) request hooks
+ *
+ * Run after the global hooks of the same name.
+ *
+ * @example
+ * ```typescript
+ * adapter.registerRoute({
+ *   method: HttpMethod.GET,
+ *   path: '/reports',
+ *   middlewares: [],
+ *   handler: async (ctx) => ctx.send(await buildReport()),
+ *   hooks: { preHandler: [loadTenant], onSend: addCacheHeaders },
+ * });
+ * ```
+ */
+export type RouteHooks = {
+  [K in RequestHookName]?: LifecycleHooks[K] | LifecycleHooks[K][];
+};
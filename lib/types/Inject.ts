@@ -0,0 +1,43 @@
+/**
+ * Options for in-process request injection via `Ergenecore.inject()`
+ *
+ * Describes a request without building a `Request` object by hand.
+ * Relative URLs are resolved against `http://localhost`.
+ *
+ * @example
+ * ```typescript
+ * const res = await adapter.inject({
+ *   method: 'POST',
+ *   url: '/users',
+ *   body: { name: 'John' },
+ * });
+ * ```
+ */
+export interface InjectOptions {
+  /**
+   * HTTP method
+   * @default 'GET'
+   */
+  method?: string;
+
+  /**
+   * Request URL or path (e.g., '/users/1?expand=true')
+   */
+  url: string;
+
+  /**
+   * Request headers
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Query parameters appended to the URL
+   */
+  query?: Record<string, string>;
+
+  /**
+   * Request body
+   * Plain objects and arrays are JSON encoded and sent with `Content-Type: application/json`.
+   */
+  body?: BodyInit | object;
+}
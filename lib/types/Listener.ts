@@ -0,0 +1,65 @@
+/**
+ * Additional listener of the adapter
+ *
+ * Besides the main listener (`port`/`hostname`), an adapter can listen on
+ * further ports or Unix domain sockets. Each listener is a separate Bun
+ * server sharing the adapter's global middlewares, hooks, error and
+ * not found handlers.
+ *
+ * Routes are selected by controller name or path pattern (same syntax as
+ * global middleware patterns). Selected routes are removed from the main
+ * listener unless `exclusive` is false. A listener without selectors serves
+ * every HTTP route and leaves the main listener unchanged.
+ *
+ * WebSocket routes are served by the main listener only, since Bun's
+ * pub/sub topics are scoped to a single server.
+ *
+ * @example
+ * ```typescript
+ * // Internal admin port, not reachable through the public port
+ * adapter.addListener({ name: 'admin', port: 9001, hostname: '127.0.0.1', controllers: ['AdminController'] });
+ *
+ * // Unix socket for a sidecar, metrics stay available on the public port too
+ * adapter.addListener({ name: 'sidecar', unix: '/run/app.sock', paths: ['/metrics'], exclusive: false });
+ * ```
+ */
+export interface ListenerOptions {
+  /**
+   * Listener name (used in logs and by getListenerServer())
+   */
+  name: string;
+
+  /**
+   * Port to listen on (mutually exclusive with `unix`)
+   */
+  port?: number;
+
+  /**
+   * Hostname to bind the port to
+   *
+   * @default the adapter hostname
+   */
+  hostname?: string;
+
+  /**
+   * Unix domain socket path (mutually exclusive with `port`)
+   */
+  unix?: string;
+
+  /**
+   * Controllers whose routes this listener serves
+   */
+  controllers?: string[];
+
+  /**
+   * Path patterns of routes this listener serves (e.g., '/admin/*')
+   */
+  paths?: string[];
+
+  /**
+   * Serve the selected routes on this listener only
+   *
+   * @default true
+   */
+  exclusive?: boolean;
+}
@@ -0,0 +1,53 @@
+/**
+ * Custom param matcher
+ *
+ * A regular expression must match the whole segment value, which is then
+ * stored as is. A function receives the decoded value and returns the
+ * converted value, or `undefined` to reject it.
+ *
+ * @example
+ * ```typescript
+ * adapter.addParamMatcher('year', /\d{4}/);
+ * adapter.addParamMatcher('date', (value) => {
+ *   const date = new Date(value);
+ *
+ *   return Number.isNaN(date.getTime()) ? undefined : date;
+ * });
+ *
+ * adapter.get('/archive/:year<year>', handler);
+ * ```
+ */
+export type ParamMatcher = RegExp | ((value: string) => unknown);
+
+/**
+ * Param value types by matcher name, used to type `getParam()` of typed routes
+ *
+ * Built-in matchers are listed here. Declare the type of a custom matcher
+ * that converts its value by augmenting the interface; other matchers
+ * produce strings.
+ *
+ * @example
+ * ```typescript
+ * declare module '@asenajs/ergenecore' {
+ *   interface ParamMatcherTypes {
+ *     date: Date;
+ *   }
+ * }
+ * ```
+ */
+export interface ParamMatcherTypes {
+  /**
+   * Safe integer (`-?\d+`), converted to a number
+   */
+  int: number;
+
+  /**
+   * UUID (any version, case-insensitive)
+   */
+  uuid: string;
+
+  /**
+   * Lower case words separated by single hyphens (`my-first-post`)
+   */
+  slug: string;
+}
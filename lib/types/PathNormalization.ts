@@ -0,0 +1,51 @@
+/**
+ * Trailing slash handling
+ *
+ * - `strict`: `/users` and `/users/` are different routes (Bun's default)
+ * - `ignore`: both forms are served by the registered route
+ * - `redirect-301` / `redirect-308`: the other form redirects to the registered route
+ *   (308 preserves the method and body)
+ */
+export type TrailingSlashPolicy = 'strict' | 'ignore' | 'redirect-301' | 'redirect-308';
+
+/**
+ * Adapter-level path normalization policy
+ *
+ * Applies to both HTTP and WebSocket routes.
+ *
+ * @example
+ * ```typescript
+ * adapter.setPathNormalization({
+ *   trailingSlash: 'redirect-308',
+ *   caseSensitive: false,
+ *   collapseSlashes: true,
+ * });
+ * ```
+ */
+export interface PathNormalizationOptions {
+  /**
+   * Trailing slash handling
+   *
+   * @default 'strict'
+   */
+  trailingSlash?: TrailingSlashPolicy;
+
+  /**
+   * Match static path segments case-sensitively
+   *
+   * Parameter values keep their original case.
+   *
+   * @default true
+   */
+  caseSensitive?: boolean;
+
+  /**
+   * Treat repeated slashes as one (`/api//users` → `/api/users`)
+   *
+   * With a redirect trailing slash policy, the request is redirected to the
+   * collapsed path instead of being served in place.
+   *
+   * @default false
+   */
+  collapseSlashes?: boolean;
+}
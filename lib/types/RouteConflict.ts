@@ -0,0 +1,39 @@
+import type { RouteInfo } from './RouteInfo';
+
+/**
+ * Kind of route conflict found at startup
+ *
+ * - `duplicate`: the same method and path are registered twice (the last one wins)
+ * - `param-name`: routes with the same method and shape use different
+ *   parameter names (e.g., `GET /users/:id` and `GET /users/:userId`)
+ * - `wildcard-overlap`: a route is also covered by a wildcard route of
+ *   another controller (e.g., `/api/users` and `/api/*`)
+ */
+export type RouteConflictKind = 'duplicate' | 'param-name' | 'wildcard-overlap';
+
+/**
+ * Route conflict diagnostic
+ *
+ * Errors are refused in strict routing mode; warnings are only logged.
+ */
+export interface RouteConflict {
+  /**
+   * Conflict kind
+   */
+  kind: RouteConflictKind;
+
+  /**
+   * Diagnostic severity
+   */
+  severity: 'error' | 'warning';
+
+  /**
+   * Human-readable description naming both routes and their controllers
+   */
+  message: string;
+
+  /**
+   * The two conflicting routes, in registration order
+   */
+  routes: [RouteInfo, RouteInfo];
+}
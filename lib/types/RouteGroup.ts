@@ -0,0 +1,101 @@
+import type { BaseMiddleware, BaseValidator } from '@asenajs/asena/adapter';
+import type { Context } from '../ErgenecoreContextWrapper';
+import type { ErgenecoreRouteParams } from './RouteOptions';
+import type { ValidationSchema, ValidationSchemaWithHook } from './Validation';
+
+/**
+ * Handler of a programmatically registered route
+ *
+ * May return any value supported by the response serializer (see
+ * `ErgenecoreHandler`), synchronously or as a promise. The adapter's route
+ * methods type the context from the path and schemas (see `RouteContext`).
+ */
+export type RouteDefinitionHandler<C = Context> = (ctx: C) => unknown;
+
+/**
+ * Middleware of a programmatically registered route
+ *
+ * Plain functions are wrapped in a middleware instance (once per function,
+ * so registering the same function on a group and a route runs it once).
+ */
+export type RouteMiddleware = BaseMiddleware<Context> | ((ctx: Context, next: () => Promise<void>) => unknown);
+
+/**
+ * Zod schemas by validation target
+ *
+ * @example
+ * ```typescript
+ * const schemas: RouteSchemas = {
+ *   json: z.object({ name: z.string() }),
+ *   query: { schema: z.object({ page: z.string() }), hook: (result, ctx) => ctx.send({ error: 'Bad page' }, 400) },
+ * };
+ * ```
+ */
+export type RouteSchemas = Partial<
+  Record<'json' | 'query' | 'form' | 'param' | 'header', ValidationSchema | ValidationSchemaWithHook>
+>;
+
+/**
+ * Absence of Zod schemas (default of the typed route APIs)
+ */
+export type NoSchemas = Record<never, never>;
+
+/**
+ * Options of a programmatically registered route
+ *
+ * @example
+ * ```typescript
+ * adapter.post('/users', handler, { middlewares: [auth], validator: { json: CreateUserSchema }, bodyLimit: 1024 });
+ * ```
+ */
+export type RouteDefinitionOptions<Schemas extends RouteSchemas = RouteSchemas> = Partial<
+  Pick<ErgenecoreRouteParams, 'host' | 'hooks' | 'timeout' | 'bodyLimit' | 'serializer' | 'responseSchema'>
+> & {
+  /**
+   * Route middlewares (run after the group middlewares)
+   */
+  middlewares?: RouteMiddleware[];
+
+  /**
+   * Validator or Zod schemas by target (merged over the group validator per target)
+   */
+  validator?: BaseValidator<ValidationSchemaWithHook> | Schemas;
+};
+
+/**
+ * Options of a route group, inherited by its routes and nested groups
+ *
+ * Middlewares, validator targets and hooks are combined with those of the
+ * routes; the other options apply to routes that do not set them.
+ *
+ * @example
+ * ```typescript
+ * adapter.group('/admin', { name: 'Admin', middlewares: [auth], host: 'admin.example.com' }, (admin) => {
+ *   admin.get('/stats', getStats);
+ * });
+ * ```
+ */
+export type RouteGroupOptions<Schemas extends RouteSchemas = RouteSchemas> = Omit<
+  RouteDefinitionOptions<Schemas>,
+  'responseSchema'
+> & {
+  /**
+   * Name of the group's routes in the startup log, `getRoutes()`,
+   * `configureController()` and listener selection
+   *
+   * @default the parent group's name, or the group's full prefix
+   */
+  name?: string;
+};
+
+/**
+ * Full path of a route in a group (type-level counterpart of the path joining)
+ */
+export type JoinedPath<Prefix extends string, Path extends string> = Path extends `/${string}` | ''
+  ? `${Prefix}${Path}`
+  : `${Prefix}/${Path}`;
+
+/**
+ * Schemas of a route in a group (route targets win over group targets)
+ */
+export type MergedSchemas<GroupSchemas, Schemas> = Omit<GroupSchemas, keyof Schemas> & Schemas;
@@ -0,0 +1,78 @@
+import type { BaseMiddleware } from '@asenajs/asena/adapter';
+import type { Context } from '../ErgenecoreContextWrapper';
+
+/**
+ * Structured description of a registered route
+ *
+ * Returned by `Ergenecore.getRoutes()` for documentation generation,
+ * contract checks and admin tooling.
+ *
+ * @example
+ * ```typescript
+ * for (const route of adapter.getRoutes()) {
+ *   console.log(`${route.method} ${route.path} (${route.controllerName})`);
+ * }
+ * ```
+ */
+export interface RouteInfo {
+  /**
+   * Route kind
+   */
+  type: 'http' | 'websocket';
+
+  /**
+   * Uppercase HTTP method (WebSocket routes use GET for the upgrade handshake)
+   */
+  method: string;
+
+  /**
+   * Full route path (e.g., '/api/users/:id')
+   */
+  path: string;
+
+  /**
+   * Host pattern the route is scoped to (undefined for routes served on every host)
+   */
+  host?: string;
+
+  /**
+   * Name of the controller that registered the route
+   */
+  controllerName?: string;
+
+  /**
+   * Controller base path (WebSocket routes use their own path)
+   */
+  controllerBasePath?: string;
+
+  /**
+   * Route-level middlewares (including controller middlewares)
+   */
+  middlewares: BaseMiddleware<Context>[];
+
+  /**
+   * Global middlewares whose include/exclude patterns apply to this route
+   */
+  globalMiddlewares: BaseMiddleware<Context>[];
+
+  /**
+   * Middlewares that run for the route, in order: applicable global
+   * middlewares, then route middlewares, each middleware once
+   */
+  chain: BaseMiddleware<Context>[];
+
+  /**
+   * Whether a validator is attached
+   */
+  hasValidator: boolean;
+
+  /**
+   * Whether static file serving is attached
+   */
+  hasStaticServe: boolean;
+
+  /**
+   * Whether the route is served by the fast path handler
+   */
+  fastPath: boolean;
+}
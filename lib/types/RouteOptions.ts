@@ -0,0 +1,90 @@
+import type { RouteParams, WebsocketRouteParams } from '@asenajs/asena/adapter';
+import type { Context } from '../ErgenecoreContextWrapper';
+import type { RouteHooks } from './Hooks';
+import type { SerializerOptions } from './Serializer';
+import type { RequestTimeout } from './Timeout';
+import type { ValidationSchema, ValidationSchemaWithHook } from './Validation';
+
+/**
+ * Adapter options applied to every route of a controller
+ *
+ * @example
+ * ```typescript
+ * adapter.configureController('AdminController', { host: 'admin.example.com' });
+ * adapter.configureController('TenantController', { host: ':tenant.example.com' });
+ * ```
+ */
+export interface ControllerOptions {
+  /**
+   * Host pattern the controller's HTTP and WebSocket routes are scoped to
+   *
+   * - Exact: `api.example.com`
+   * - Wildcard label: `*.example.com`
+   * - Param label: `:tenant.example.com` (read with `context.getHostParam('tenant')`)
+   *
+   * Requests from other hosts fall back to an unscoped route on the same
+   * path, or get 404.
+   */
+  host?: string;
+
+  /**
+   * Request hooks for every HTTP route of the controller (run after global hooks)
+   */
+  hooks?: RouteHooks;
+
+  /**
+   * Maximum request body size in bytes for every HTTP route of the controller
+   */
+  bodyLimit?: number;
+}
+
+/**
+ * HTTP route registration parameters with Ergenecore-specific options
+ */
+export type ErgenecoreRouteParams = RouteParams<Context, ValidationSchemaWithHook> & {
+  /**
+   * Host pattern the route is scoped to (overrides the controller's host)
+   */
+  host?: string;
+
+  /**
+   * Request hooks for the route (run after global and controller hooks)
+   */
+  hooks?: RouteHooks;
+
+  /**
+   * Request timeout (overrides the global `requestTimeout`, `false` disables it)
+   */
+  timeout?: RequestTimeout | false;
+
+  /**
+   * Maximum request body size in bytes (overrides the controller's limit)
+   *
+   * Bun's global `maxRequestBodySize` still applies and must be raised for
+   * limits above it.
+   */
+  bodyLimit?: number;
+
+  /**
+   * Serializer options for handler return values (merged over the global options)
+   */
+  serializer?: SerializerOptions;
+
+  /**
+   * Zod schema of the handler return value
+   *
+   * Compiles a faster serializer that writes only the declared properties.
+   * The value is not validated.
+   */
+  responseSchema?: ValidationSchema;
+};
+
+/**
+ * WebSocket route registration parameters with Ergenecore-specific options
+ */
+export type ErgenecoreWebsocketRouteParams = WebsocketRouteParams<Context> & {
+  /**
+   * Host pattern the route is scoped to (overrides the controller's host)
+   */
+  host?: string;
+};
@@ -0,0 +1,47 @@
+/**
+ * Converts a handler return value into a response body
+ *
+ * @param value - Value returned by the route handler (never undefined or null)
+ * @returns Serialized body
+ */
+export type ResponseSerializer = (value: unknown) => string;
+
+/**
+ * Serialization of handler return values that are not a Response
+ *
+ * Handlers returning `undefined` or `null` always get `204 No Content`.
+ * Route options are merged over the global options.
+ *
+ * @example
+ * ```typescript
+ * adapter.setSerializer({
+ *   bigint: 'number',
+ *   replacer: (key, value) => (value instanceof Decimal ? value.toFixed(2) : value),
+ * });
+ * ```
+ */
+export interface SerializerOptions {
+  /**
+   * JSON.stringify replacer, applied after the built-in BigInt, Map and Set handling
+   */
+  replacer?: (key: string, value: unknown) => unknown;
+
+  /**
+   * BigInt encoding (`number` loses precision above Number.MAX_SAFE_INTEGER)
+   *
+   * @default 'string'
+   */
+  bigint?: 'string' | 'number';
+
+  /**
+   * Custom serializer replacing JSON encoding (e.g., for MessagePack or superjson)
+   */
+  serialize?: ResponseSerializer;
+
+  /**
+   * Content-Type of serialized responses
+   *
+   * @default 'application/json'
+   */
+  contentType?: string;
+}
@@ -0,0 +1,45 @@
+/**
+ * Hook run during graceful shutdown
+ *
+ * Hooks run in registration order after in-flight requests have drained
+ * and the server has stopped. A failing hook is logged and does not prevent
+ * the remaining hooks from running.
+ *
+ * @example
+ * ```typescript
+ * adapter.onShutdown(() => rateLimiter.destroy());
+ * adapter.onShutdown(async () => await db.close());
+ * ```
+ */
+export type ShutdownHook = () => void | Promise<void>;
+
+/**
+ * Automatic shutdown on process signals
+ *
+ * @example
+ * ```typescript
+ * adapter.enableShutdownSignals({ signals: ['SIGTERM'], timeout: 25000 });
+ * ```
+ */
+export interface ShutdownSignalOptions {
+  /**
+   * Signals that trigger a graceful shutdown
+   *
+   * @default ['SIGTERM', 'SIGINT']
+   */
+  signals?: NodeJS.Signals[];
+
+  /**
+   * Maximum time to wait for in-flight requests and WebSocket connections (ms)
+   *
+   * @default 10000
+   */
+  timeout?: number;
+
+  /**
+   * Exit the process once the shutdown completes (code 1 if it failed)
+   *
+   * @default true
+   */
+  exit?: boolean;
+}
@@ -0,0 +1,21 @@
+import type { BunFile, HTMLBundle } from 'bun';
+
+/**
+ * Value served by a static route
+ *
+ * Static routes are put into Bun's route table as-is and answer every
+ * method without running middlewares or hooks:
+ * - Response: cloned for each request (health pings, robots.txt)
+ * - HTML bundle (`import index from './index.html'`): bundled by Bun, with
+ *   hot reloading when the `development` serve option is enabled
+ * - BunFile: streamed from disk
+ *
+ * @example
+ * ```typescript
+ * import index from './public/index.html';
+ *
+ * adapter.registerStaticRoute('/health/ping', new Response('OK'));
+ * adapter.registerStaticRoute('/*', index); // SPA fallback for paths without a route
+ * ```
+ */
+export type StaticRouteValue = Response | HTMLBundle | BunFile;
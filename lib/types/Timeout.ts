@@ -0,0 +1,49 @@
+import type { AsenaServeOptions } from '@asenajs/asena/adapter';
+
+/**
+ * Request timeout with a custom status code
+ */
+export interface RequestTimeoutOptions {
+  /**
+   * Time limit for middlewares, validation and the handler (ms)
+   */
+  ms: number;
+
+  /**
+   * Status code sent when the timeout fires
+   *
+   * @default 503
+   */
+  status?: 503 | 504;
+}
+
+/**
+ * Request timeout in milliseconds, or with a custom status code
+ *
+ * @example
+ * ```typescript
+ * const timeout: RequestTimeout = 5000;
+ * const gatewayTimeout: RequestTimeout = { ms: 30000, status: 504 };
+ * ```
+ */
+export type RequestTimeout = number | RequestTimeoutOptions;
+
+/**
+ * Serve options accepted by `Ergenecore.serveOptions()`
+ *
+ * @example
+ * ```typescript
+ * await adapter.serveOptions(() => ({
+ *   serveOptions: { idleTimeout: 30 },
+ *   requestTimeout: { ms: 10000, status: 504 },
+ * }));
+ * ```
+ */
+export interface ErgenecoreServeOptions extends AsenaServeOptions {
+  /**
+   * Default timeout for every HTTP route (routes can override or disable it)
+   *
+   * @default undefined (no timeout)
+   */
+  requestTimeout?: RequestTimeout;
+}
@@ -0,0 +1,99 @@
+/**
+ * Certificate files of a TLS server name
+ */
+export interface TlsCertificateFiles {
+  /**
+   * Path to the PEM certificate (chain)
+   */
+  cert: string;
+
+  /**
+   * Path to the PEM private key
+   */
+  key: string;
+
+  /**
+   * Passphrase of the private key
+   */
+  passphrase?: string;
+
+  /**
+   * Path to a PEM CA bundle
+   */
+  ca?: string;
+
+  /**
+   * Server name (SNI) the certificate is used for
+   *
+   * Required for entries of `TlsOptions.certificates`.
+   */
+  serverName?: string;
+}
+
+/**
+ * Companion HTTP listener redirecting to HTTPS
+ *
+ * @example
+ * ```typescript
+ * // Redirect port 80 and answer Let's Encrypt HTTP-01 challenges
+ * const httpRedirect: HttpRedirectOptions = { port: 80, acmeChallengeDir: '/var/www/acme' };
+ * ```
+ */
+export interface HttpRedirectOptions {
+  /**
+   * HTTP port
+   *
+   * @default 80
+   */
+  port?: number;
+
+  /**
+   * Hostname to bind the port to
+   *
+   * @default the adapter hostname
+   */
+  hostname?: string;
+
+  /**
+   * Directory served under `/.well-known/acme-challenge/` instead of redirecting
+   */
+  acmeChallengeDir?: string;
+}
+
+/**
+ * TLS configuration of the main listener
+ *
+ * Certificates are read from files when the server starts. With `watch`
+ * enabled, changes to the files (e.g., a certificate renewal) are applied
+ * without restarting the process.
+ *
+ * @example
+ * ```typescript
+ * adapter.setTls({
+ *   cert: './certs/example.com.crt',
+ *   key: './certs/example.com.key',
+ *   certificates: [{ serverName: 'api.example.org', cert: './certs/api.crt', key: './certs/api.key' }],
+ *   httpRedirect: { port: 80, acmeChallengeDir: './acme' },
+ * });
+ * ```
+ */
+export interface TlsOptions extends Partial<Omit<TlsCertificateFiles, 'serverName'>> {
+  /**
+   * Additional certificates selected by server name (SNI)
+   */
+  certificates?: TlsCertificateFiles[];
+
+  /**
+   * Reload the certificates when their files change
+   *
+   * @default true
+   */
+  watch?: boolean;
+
+  /**
+   * Start an HTTP listener that redirects to HTTPS with 308 (`true` uses the defaults)
+   *
+   * @default undefined (no HTTP listener)
+   */
+  httpRedirect?: boolean | HttpRedirectOptions;
+}
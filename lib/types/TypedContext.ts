@@ -0,0 +1,166 @@
+/**
+ * Typed context definitions
+ *
+ * Narrows the context accessors of a route from its path literal and its
+ * Zod schemas, so that unknown param names and body/query property
+ * mismatches are compile errors.
+ *
+ * @module types/TypedContext
+ */
+
+import type z from 'zod';
+import type { ErgenecoreContextWrapper } from '../ErgenecoreContextWrapper';
+import type { ParamMatcherTypes } from './ParamMatcher';
+import type { NoSchemas } from './RouteGroup';
+import type { ValidationSchema, ValidationSchemaWithHook } from './Validation';
+
+/**
+ * Param name of a single path segment (`:id` → `'id'`, `:id<int>` → `'id'`)
+ */
+type SegmentParam<Segment extends string> = Segment extends `:${infer Name}<${string}>`
+  ? Name
+  : Segment extends `:${infer Name}`
+    ? Name
+    : never;
+
+/**
+ * Values of an enum constraint (`active|archived` → `'active' | 'archived'`)
+ */
+type EnumValues<Constraint extends string> = Constraint extends `${infer Value}|${infer Rest}`
+  ? Value | EnumValues<Rest>
+  : Constraint;
+
+/**
+ * Characters that make a constraint an inline regular expression rather than an enum
+ */
+type RegExpCharacter = '\\' | '(' | '[' | '{' | '*' | '+' | '?' | '^' | '$';
+
+/**
+ * Param value type of a single path segment (only constrained params are listed)
+ */
+type SegmentParamType<Segment extends string> = Segment extends `:${infer Name}<${infer Constraint}>`
+  ? {
+      [K in Name]: Constraint extends keyof ParamMatcherTypes
+        ? ParamMatcherTypes[Constraint]
+        : Constraint extends `${string}${RegExpCharacter}${string}`
+          ? string
+          : Constraint extends `${string}|${string}`
+            ? EnumValues<Constraint>
+            : string;
+    }
+  : NoSchemas;
+
+/**
+ * Param names declared by a route path
+ *
+ * Resolves to `string` when the path is not a literal type.
+ *
+ * @example
+ * ```typescript
+ * type Params = RouteParamNames<'/users/:id/posts/:postId'>; // 'id' | 'postId'
+ * ```
+ */
+export type RouteParamNames<Path extends string> = string extends Path
+  ? string
+  : Path extends `${infer Segment}/${infer Rest}`
+    ? SegmentParam<Segment> | RouteParamNames<Rest>
+    : SegmentParam<Path>;
+
+/**
+ * Param value types declared by the constraints of a route path (see `ParamMatcherTypes`)
+ *
+ * @example
+ * ```typescript
+ * type Values = RouteParamTypes<'/users/:id<int>/:tab<posts|likes>'>; // { id: number } & { tab: 'posts' | 'likes' }
+ * ```
+ */
+export type RouteParamTypes<Path extends string> = string extends Path
+  ? NoSchemas
+  : Path extends `${infer Segment}/${infer Rest}`
+    ? SegmentParamType<Segment> & RouteParamTypes<Rest>
+    : SegmentParamType<Path>;
+
+/**
+ * Output type of a validation schema (plain Zod schema or schema with hook)
+ *
+ * Resolves to `unknown` for validator handlers, whose schema is only known at runtime.
+ */
+export type InferValidationSchema<S> = S extends ValidationSchemaWithHook
+  ? z.infer<S['schema']>
+  : S extends ValidationSchema
+    ? z.infer<S>
+    : unknown;
+
+/**
+ * Context with accessors narrowed to a route's params, body and query
+ *
+ * The runtime object is the regular `ErgenecoreContextWrapper`. After
+ * successful validation, `getBody()` and `getQuery()` return the values
+ * parsed by the schemas (defaults, coercions and transforms applied).
+ *
+ * @template Params - Param names accepted by `getParam()`
+ * @template Body - Type returned by `getBody()`
+ * @template Query - Query object whose keys are accepted by `getQuery()` and `getQueryAll()`
+ * @template ParamTypes - Value types of converted params (other params are strings)
+ *
+ * @example
+ * ```typescript
+ * const handler: ErgenecoreHandler<TypedContext<'id', { name: string }>> = async (ctx) => {
+ *   const body = await ctx.getBody(); // { name: string }
+ *
+ *   return { id: ctx.getParam('id'), name: body.name };
+ * };
+ * ```
+ */
+export interface TypedContext<
+  Params extends string = string,
+  Body = unknown,
+  Query = Record<string, string>,
+  ParamTypes = NoSchemas,
+> extends Omit<ErgenecoreContextWrapper, 'getParam' | 'getBody' | 'getQuery' | 'getQueryAll'> {
+  /**
+   * Get URL parameter by name (only names declared by the route path)
+   */
+  getParam<K extends Params>(name: K): K extends keyof ParamTypes ? ParamTypes[K] : string;
+
+  /**
+   * Get request body as JSON (the validated body if a `json` schema is attached)
+   */
+  getBody<T = Body>(): Promise<T>;
+
+  /**
+   * Get single query parameter by name (the validated value if a `query` schema is attached)
+   */
+  getQuery<K extends keyof Query & string>(name: K): Promise<Query[K]>;
+
+  /**
+   * Get all raw values for a query parameter
+   */
+  getQueryAll(name: keyof Query & string): Promise<string[]>;
+}
+
+/**
+ * Typed context of a route, derived from its path and Zod schemas by target (see `RouteSchemas`)
+ *
+ * Targets without a schema keep the untyped accessors. Params typed by
+ * their constraint (see `RouteParamTypes`) are returned converted.
+ *
+ * @example
+ * ```typescript
+ * const CreatePost = z.object({ title: z.string() });
+ *
+ * type Ctx = RouteContext<'/users/:id/posts', { json: typeof CreatePost }>;
+ *
+ * const handler: ErgenecoreHandler<Ctx> = async (ctx) => {
+ *   const { title } = await ctx.getBody();
+ *
+ *   return { user: ctx.getParam('id'), title };
+ * };
+ * ```
+ */
+export type RouteContext<Path extends string = string, Schemas = NoSchemas> = TypedContext<
+  RouteParamNames<Path>,
+  Schemas extends { json: infer S } ? InferValidationSchema<S> : unknown,
+  Schemas extends { query: infer S } ? InferValidationSchema<S> : Record<string, string>,
+  RouteParamTypes<Path>
+>;
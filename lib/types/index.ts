@@ -20,7 +20,13 @@
  */
 
 // Handler types
-export type { ErgenecoreHandler, ErgenecoreNext } from './Handler';
+export type {
+  ErgenecoreHandler,
+  ErgenecoreNext,
+  MethodNotAllowedHandler,
+  NotFoundHandler,
+  ResponseTuple,
+} from './Handler';
 
 // Static serve types
 export * from './StaticServeExtras';
@@ -28,5 +34,54 @@ export * from './StaticServeExtras';
 // Validation types
 export * from './Validation';
 
+// Inject types
+export * from './Inject';
+
+// Route introspection types
+export * from './RouteInfo';
+export * from './RouteConflict';
+
+// Route and controller option types
+export * from './RouteOptions';
+
+// Path normalization types
+export * from './PathNormalization';
+
+// Lifecycle hook types
+export * from './Hooks';
+
+// Timeout types
+export * from './Timeout';
+
+// Serializer types
+export * from './Serializer';
+
+// Shutdown types
+export * from './Shutdown';
+
+// Static route types
+export * from './StaticRoute';
+
+// Listener types
+export * from './Listener';
+
+// TLS types
+export * from './Tls';
+
+// Cluster types
+export * from './Cluster';
+
+// Health check types
+export * from './Health';
+
+// Route group types
+export * from './RouteGroup';
+
+// Typed context types
+export * from './TypedContext';
+
+// Param matcher types
+export * from './ParamMatcher';
+
 // Re-export Context type for convenience
 export type { Context } from '../ErgenecoreContextWrapper';
@@ -0,0 +1,488 @@
+/**
+ * Cluster mode
+ *
+ * The supervisor starts worker processes running the same entry script.
+ * Every worker creates its adapter as usual; the factory detects the
+ * worker environment and binds the port with `reusePort`, so the kernel
+ * distributes connections across the workers.
+ *
+ * Supervisor and workers communicate over Bun's IPC channel:
+ * - Workers report `ready` once started and their health periodically
+ * - The supervisor asks workers to shut down gracefully
+ * - Application messages are sent in both directions
+ *
+ * @module utils/Cluster
+ *
+ * @example
+ * ```typescript
+ * if (isClusterWorker()) {
+ *   onClusterMessage((message) => cache.clear());
+ *
+ *   const adapter = createErgenecoreAdapter({ port: 3000 });
+ *   // ... register routes
+ *   await adapter.start();
+ * } else {
+ *   const cluster = createErgenecoreCluster({ workers: 4 });
+ *
+ *   cluster.start();
+ *   cluster.broadcast({ type: 'invalidate' });
+ * }
+ * ```
+ */
+
+import type { ServerLogger } from '@asenajs/asena/logger';
+import type { Server, Subprocess } from 'bun';
+import type { Ergenecore } from '../Ergenecore';
+import type { ClusterOptions, ClusterWorkerHealth } from '../types/Cluster';
+
+/**
+ * Environment variable carrying the worker slot id
+ */
+const WORKER_ID_ENV = 'ERGENECORE_WORKER_ID';
+
+/**
+ * Environment variable carrying the health report interval
+ */
+const HEALTH_INTERVAL_ENV = 'ERGENECORE_HEALTH_INTERVAL';
+
+/**
+ * Environment variable carrying the drain timeout of workers stopped by a signal
+ */
+const SHUTDOWN_TIMEOUT_ENV = 'ERGENECORE_SHUTDOWN_TIMEOUT';
+
+/**
+ * Signals a worker drains on, as when the supervisor asks it to shut down
+ *
+ * A terminal sends Ctrl+C to the whole process group, so workers receive it
+ * alongside the supervisor.
+ */
+const WORKER_SHUTDOWN_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+/**
+ * Grace period after the shutdown timeout before workers are killed (ms)
+ */
+const KILL_GRACE_MS = 1000;
+
+/**
+ * Messages exchanged between supervisor and workers
+ */
+type ClusterMessage =
+  | { ergenecore: 'ready' }
+  | { ergenecore: 'health'; pendingRequests: number; memoryUsage: number }
+  | { ergenecore: 'shutdown'; timeout: number }
+  | { ergenecore: 'message'; data: unknown };
+
+/**
+ * Worker slot managed by the supervisor
+ */
+interface WorkerSlot {
+  health: ClusterWorkerHealth;
+  process?: Subprocess;
+  exited?: Promise<void>;
+  restartTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Crashes since the worker last became ready
+   */
+  failures: number;
+}
+
+/**
+ * Starts, restarts and stops the worker processes of a cluster
+ */
+export class ClusterSupervisor {
+  private readonly slots: WorkerSlot[] = [];
+
+  private readonly signalListeners = new Map<NodeJS.Signals, () => void>();
+
+  private shuttingDown = false;
+
+  private shutdownPromise?: Promise<void>;
+
+  /**
+   * Creates a supervisor (workers are started by start())
+   *
+   * @param options - Cluster options
+   * @param logger - Supervisor logger
+   */
+  public constructor(
+    private readonly options: ClusterOptions,
+    private readonly logger: ServerLogger,
+  ) {}
+
+  /**
+   * Starts the worker processes and installs the shutdown signal handlers
+   *
+   * @throws Error if the cluster was already started
+   */
+  public start(): void {
+    if (this.slots.length > 0) {
+      throw new Error('Cluster is already started');
+    }
+
+    const workers = this.options.workers ?? navigator.hardwareConcurrency;
+
+    for (let id = 1; id <= workers; id++) {
+      const slot: WorkerSlot = { health: { id, pid: 0, status: 'starting', restarts: 0 }, failures: 0 };
+
+      this.slots.push(slot);
+      this.spawn(slot);
+    }
+
+    const signals = this.options.shutdownSignals ?? ['SIGTERM', 'SIGINT'];
+
+    for (const signal of signals || []) {
+      const listener = () => {
+        this.logger.info(`Received ${signal}, shutting down cluster...`);
+        this.shutdown().then(
+          () => process.exit(0),
+          (error) => {
+            this.logger.error('Cluster shutdown failed:', error);
+            process.exit(1);
+          },
+        );
+      };
+
+      this.signalListeners.set(signal, listener);
+      process.once(signal, listener);
+    }
+
+    this.logger.info(`Cluster started with ${workers} worker(s)`);
+  }
+
+  /**
+   * Sends a message to every running worker (received with `onClusterMessage()`)
+   *
+   * @param message - Serializable message
+   */
+  public broadcast(message: unknown): void {
+    for (const slot of this.slots) {
+      this.send(slot, { ergenecore: 'message', data: message });
+    }
+  }
+
+  /**
+   * Sends a message to one worker
+   *
+   * @param workerId - Worker slot id
+   * @param message - Serializable message
+   * @returns false if the worker is not running
+   */
+  public sendTo(workerId: number, message: unknown): boolean {
+    const slot = this.slots.find((candidate) => candidate.health.id === workerId);
+
+    return !!slot && this.send(slot, { ergenecore: 'message', data: message });
+  }
+
+  /**
+   * Returns the health of every worker slot
+   */
+  public getHealth(): ClusterWorkerHealth[] {
+    return this.slots.map((slot) => ({ ...slot.health }));
+  }
+
+  /**
+   * Shuts the workers down gracefully
+   *
+   * Workers drain their in-flight requests (see `Ergenecore.shutdown()`) and
+   * exit. Workers still running after the shutdown timeout are killed.
+   * Calling shutdown() again returns the same promise.
+   *
+   * @param timeoutMs - Drain timeout per worker (default: `shutdownTimeout` option)
+   */
+  public shutdown(timeoutMs = this.options.shutdownTimeout ?? 10000): Promise<void> {
+    this.shutdownPromise ??= this.performShutdown(timeoutMs);
+
+    return this.shutdownPromise;
+  }
+
+  private async performShutdown(timeoutMs: number): Promise<void> {
+    this.shuttingDown = true;
+
+    for (const [signal, listener] of this.signalListeners) {
+      process.off(signal, listener);
+    }
+
+    this.signalListeners.clear();
+
+    const running = this.slots.filter((slot) => {
+      clearTimeout(slot.restartTimer);
+
+      if (slot.health.status === 'restarting') {
+        slot.health.status = 'exited';
+      }
+
+      return slot.process && slot.health.status !== 'exited';
+    });
+
+    for (const slot of running) {
+      slot.health.status = 'stopping';
+      this.send(slot, { ergenecore: 'shutdown', timeout: timeoutMs });
+    }
+
+    const killTimer = setTimeout(() => {
+      for (const slot of running) {
+        if (slot.health.status !== 'exited') {
+          this.logger.warn(`Worker ${slot.health.id} did not stop in time, killing it`);
+          slot.process?.kill('SIGKILL');
+        }
+      }
+    }, timeoutMs + KILL_GRACE_MS);
+
+    await Promise.all(running.map((slot) => slot.exited));
+    clearTimeout(killTimer);
+
+    this.logger.info('Cluster stopped');
+  }
+
+  /**
+   * Starts the worker process of a slot
+   */
+  private spawn(slot: WorkerSlot): void {
+    const { id } = slot.health;
+    let onExit!: () => void;
+
+    slot.exited = new Promise((resolve) => {
+      onExit = resolve;
+    });
+
+    slot.process = Bun.spawn({
+      cmd: this.options.cmd ?? [process.execPath, ...process.argv.slice(1)],
+      env: {
+        ...process.env,
+        ...this.options.env,
+        [WORKER_ID_ENV]: String(id),
+        [HEALTH_INTERVAL_ENV]: String(this.options.healthInterval ?? 5000),
+        [SHUTDOWN_TIMEOUT_ENV]: String(this.options.shutdownTimeout ?? 10000),
+      },
+      stdio: ['inherit', 'inherit', 'inherit'],
+      ipc: (message) => this.handleMessage(slot, message as ClusterMessage),
+      onExit: (_process, exitCode, signalCode) => {
+        this.handleExit(slot, exitCode, signalCode);
+        onExit();
+      },
+    });
+
+    slot.health = { id, pid: slot.process.pid, status: 'starting', restarts: slot.health.restarts };
+  }
+
+  private handleMessage(slot: WorkerSlot, message: ClusterMessage): void {
+    switch (message?.ergenecore) {
+      case 'ready':
+        slot.failures = 0;
+
+        if (slot.health.status === 'starting') {
+          slot.health.status = 'ready';
+        }
+
+        this.logger.info(`Worker ${slot.health.id} ready (pid ${slot.health.pid})`);
+        break;
+
+      case 'health':
+        slot.health.lastHeartbeat = Date.now();
+        slot.health.pendingRequests = message.pendingRequests;
+        slot.health.memoryUsage = message.memoryUsage;
+        break;
+
+      case 'message':
+        this.options.onMessage?.(message.data, slot.health.id);
+        break;
+    }
+  }
+
+  /**
+   * Restarts a worker that exited outside of a shutdown (exponential backoff)
+   */
+  private handleExit(slot: WorkerSlot, exitCode: number | null, signalCode: number | null): void {
+    if (this.shuttingDown) {
+      slot.health.status = 'exited';
+
+      return;
+    }
+
+    const delay = Math.min(
+      (this.options.restartDelay ?? 100) * 2 ** slot.failures,
+      this.options.maxRestartDelay ?? 10000,
+    );
+
+    slot.failures++;
+    slot.health.status = 'restarting';
+
+    this.logger.error(
+      `Worker ${slot.health.id} (pid ${slot.health.pid}) exited with ${exitCode ?? `signal ${signalCode}`}, ` +
+        `restarting in ${delay}ms`,
+    );
+
+    slot.restartTimer = setTimeout(() => {
+      slot.health.restarts++;
+      this.spawn(slot);
+    }, delay);
+  }
+
+  private send(slot: WorkerSlot, message: ClusterMessage): boolean {
+    if (!slot.process || slot.health.status === 'exited' || slot.health.status === 'restarting') {
+      return false;
+    }
+
+    slot.process.send(message);
+
+    return true;
+  }
+}
+
+/**
+ * Message handlers of the current worker process
+ */
+const messageHandlers = new Set<(message: unknown) => void>();
+
+/**
+ * Adapters of the current worker process, shut down when the supervisor asks to
+ */
+const workerAdapters = new Set<Ergenecore>();
+
+let listeningForMessages = false;
+
+let listeningForSignals = false;
+
+/**
+ * Whether the current process was started by a cluster supervisor
+ */
+export function isClusterWorker(): boolean {
+  return process.env[WORKER_ID_ENV] !== undefined && typeof process.send === 'function';
+}
+
+/**
+ * Returns the worker slot id of the current process
+ *
+ * @returns Slot id (1-based), or undefined outside of a cluster
+ */
+export function getClusterWorkerId(): number | undefined {
+  return isClusterWorker() ? Number(process.env[WORKER_ID_ENV]) : undefined;
+}
+
+/**
+ * Receives messages broadcast by the supervisor
+ *
+ * @param handler - Message handler
+ * @returns Function removing the handler
+ */
+export function onClusterMessage(handler: (message: unknown) => void): () => void {
+  listenForMessages();
+  messageHandlers.add(handler);
+
+  return () => messageHandlers.delete(handler);
+}
+
+/**
+ * Sends a message to the supervisor (received by the `onMessage` option)
+ *
+ * @param message - Serializable message
+ * @throws Error outside of a cluster worker
+ */
+export function sendToSupervisor(message: unknown): void {
+  if (!isClusterWorker()) {
+    throw new Error('sendToSupervisor() can only be called in a cluster worker');
+  }
+
+  process.send({ ergenecore: 'message', data: message } satisfies ClusterMessage);
+}
+
+/**
+ * Connects an adapter to the supervisor
+ *
+ * Enables `reusePort`, reports readiness and health once the server has
+ * started, and shuts the adapter down gracefully (then exits) when the
+ * supervisor asks to or the process receives SIGINT/SIGTERM. Attaching the
+ * same adapter again has no effect.
+ *
+ * @param adapter - Adapter of the worker process
+ */
+export function attachClusterWorker(adapter: Ergenecore): void {
+  if (workerAdapters.has(adapter)) {
+    return;
+  }
+
+  const interval = Number(process.env[HEALTH_INTERVAL_ENV]) || 5000;
+  let server: Server<unknown> | undefined;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const report = () => {
+    process.send({
+      ergenecore: 'health',
+      pendingRequests: server?.pendingRequests ?? 0,
+      memoryUsage: process.memoryUsage().rss,
+    } satisfies ClusterMessage);
+  };
+
+  adapter.setReusePort(true);
+
+  adapter.addHook('onStart', (started) => {
+    server = started;
+    process.send({ ergenecore: 'ready' } satisfies ClusterMessage);
+    report();
+    heartbeat = setInterval(report, interval);
+    heartbeat.unref();
+  });
+
+  adapter.addHook('onStop', () => {
+    clearInterval(heartbeat);
+  });
+
+  workerAdapters.add(adapter);
+  listenForMessages();
+  listenForSignals();
+}
+
+/**
+ * Installs the IPC listener dispatching supervisor messages to the handlers
+ * and shutting down the attached adapters
+ */
+function listenForMessages(): void {
+  if (listeningForMessages) {
+    return;
+  }
+
+  listeningForMessages = true;
+
+  process.on('message', (message: ClusterMessage) => {
+    if (message?.ergenecore === 'message') {
+      for (const handler of messageHandlers) {
+        handler(message.data);
+      }
+    } else if (message?.ergenecore === 'shutdown' && workerAdapters.size > 0) {
+      shutdownWorker(message.timeout);
+    }
+  });
+}
+
+/**
+ * Installs the signal listeners shutting down the attached adapters
+ *
+ * Without them, a Ctrl+C would kill the workers before the supervisor
+ * asks them to drain.
+ */
+function listenForSignals(): void {
+  if (listeningForSignals) {
+    return;
+  }
+
+  listeningForSignals = true;
+
+  const timeout = Number(process.env[SHUTDOWN_TIMEOUT_ENV]) || 10000;
+
+  for (const signal of WORKER_SHUTDOWN_SIGNALS) {
+    process.on(signal, () => shutdownWorker(timeout));
+  }
+}
+
+/**
+ * Shuts the attached adapters down gracefully, then exits the worker
+ *
+ * @param timeoutMs - Drain timeout
+ */
+function shutdownWorker(timeoutMs: number): void {
+  Promise.all(Array.from(workerAdapters, (adapter) => adapter.shutdown(timeoutMs))).then(
+    () => process.exit(0),
+    () => process.exit(1),
+  );
+}
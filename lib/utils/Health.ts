@@ -0,0 +1,79 @@
+/**
+ * Health checks
+ *
+ * Runs registered checks concurrently, each bounded by its timeout, and
+ * builds the per-check results of the liveness and readiness endpoints.
+ *
+ * @module utils/Health
+ */
+
+import type { HealthCheck, HealthCheckOptions, HealthCheckResult, HealthStatus } from '../types/Health';
+
+/**
+ * Default check timeout (ms)
+ */
+const DEFAULT_HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * Registered health check
+ */
+export interface RegisteredHealthCheck {
+  check: HealthCheck;
+  options: HealthCheckOptions;
+}
+
+/**
+ * Runs a single check
+ *
+ * @param check - Registered health check
+ * @returns Check result (never rejects)
+ */
+export async function runHealthCheck({ check, options }: RegisteredHealthCheck): Promise<HealthCheckResult> {
+  const timeout = options.timeout ?? DEFAULT_HEALTH_CHECK_TIMEOUT_MS;
+  const startedAt = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const latency = () => Math.round((performance.now() - startedAt) * 100) / 100;
+
+  try {
+    const value = await Promise.race([
+      Promise.resolve().then(check),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+      }),
+    ]);
+
+    if (value === false) {
+      return { status: 'down', latency: latency(), error: 'Check returned false' };
+    }
+
+    return {
+      status: 'up',
+      latency: latency(),
+      ...(value !== null && typeof value === 'object' && { details: value }),
+    };
+  } catch (error) {
+    return { status: 'down', latency: latency(), error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs checks concurrently
+ *
+ * @param checks - Registered health checks by name
+ * @returns Results by check name and the overall status (down if any check is down)
+ */
+export async function runHealthChecks(
+  checks: Map<string, RegisteredHealthCheck>,
+): Promise<{ status: HealthStatus; checks: Record<string, HealthCheckResult> }> {
+  const entries = await Promise.all(
+    Array.from(checks, async ([name, check]) => [name, await runHealthCheck(check)] as const),
+  );
+
+  return {
+    status: entries.every(([, result]) => result.status === 'up') ? 'up' : 'down',
+    checks: Object.fromEntries(entries),
+  };
+}
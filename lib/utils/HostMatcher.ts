@@ -0,0 +1,243 @@
+/**
+ * Host pattern matching
+ *
+ * Matches request hostnames against host patterns used to scope routes,
+ * controllers and global middlewares to a host. A pattern is a list of
+ * dot-separated labels:
+ * - Static labels match exactly (case-insensitive): `api.example.com`
+ * - `*` matches any single label: `*.example.com`
+ * - `:name` matches any single label and captures it: `:tenant.example.com`
+ *
+ * @module utils/HostMatcher
+ *
+ * @example
+ * ```typescript
+ * const pattern = new HostPattern(':tenant.example.com');
+ *
+ * pattern.match('acme.example.com'); // => { tenant: 'acme' }
+ * pattern.match('example.com'); // => null
+ * ```
+ */
+
+import type { GlobalMiddlewareConfig } from '@asenajs/asena/server/config';
+import { matchesPattern } from '@asenajs/asena/utlis';
+
+/**
+ * Label kinds ordered by precedence (lower wins)
+ */
+const STATIC_LABEL = 0;
+const PARAM_LABEL = 1;
+const WILDCARD_LABEL = 2;
+
+/**
+ * Compiled host pattern
+ */
+export class HostPattern {
+  /**
+   * Pattern as registered (e.g., ':tenant.example.com')
+   */
+  public readonly pattern: string;
+
+  private readonly labels: string[];
+
+  private readonly kinds: number[];
+
+  /**
+   * Compiles a host pattern
+   *
+   * @param pattern - Host pattern (exact, `*` wildcard labels or `:name` param labels)
+   */
+  public constructor(pattern: string) {
+    this.pattern = pattern;
+    this.labels = pattern.toLowerCase().split('.');
+    this.kinds = this.labels.map((label) => {
+      if (label === '*') return WILDCARD_LABEL;
+
+      if (label.startsWith(':')) return PARAM_LABEL;
+
+      return STATIC_LABEL;
+    });
+  }
+
+  /**
+   * Matches a hostname against the pattern
+   *
+   * @param hostname - Request hostname without port (e.g., 'acme.example.com')
+   * @returns Captured host params, or null if the hostname does not match
+   */
+  public match(hostname: string): Record<string, string> | null {
+    const labels = hostname.toLowerCase().split('.');
+
+    if (labels.length !== this.labels.length) {
+      return null;
+    }
+
+    const params: Record<string, string> = {};
+
+    for (let i = 0; i < labels.length; i++) {
+      const kind = this.kinds[i];
+
+      if (labels[i] === '') {
+        return null;
+      }
+
+      if (kind === PARAM_LABEL) {
+        params[this.labels[i].slice(1)] = labels[i];
+      } else if (kind === STATIC_LABEL && labels[i] !== this.labels[i]) {
+        return null;
+      }
+    }
+
+    return params;
+  }
+
+  /**
+   * Orders patterns so that the most specific one is tried first
+   *
+   * Labels are compared from the top-level domain down, so
+   * `api.example.com` wins over `:tenant.example.com`, which wins over
+   * `*.example.com`.
+   */
+  public static compare(a: HostPattern, b: HostPattern): number {
+    const length = Math.min(a.kinds.length, b.kinds.length);
+
+    for (let i = 1; i <= length; i++) {
+      const kindA = a.kinds[a.kinds.length - i];
+      const kindB = b.kinds[b.kinds.length - i];
+
+      if (kindA !== kindB) {
+        return kindA - kindB;
+      }
+    }
+
+    return b.kinds.length - a.kinds.length;
+  }
+}
+
+/**
+ * Compiled host patterns of global middleware configs
+ */
+const compiledPatterns = new Map<string, HostPattern>();
+
+/**
+ * Returns the cached compiled pattern
+ */
+function getHostPattern(pattern: string): HostPattern {
+  let compiled = compiledPatterns.get(pattern);
+
+  if (!compiled) {
+    compiled = new HostPattern(pattern);
+    compiledPatterns.set(pattern, compiled);
+  }
+
+  return compiled;
+}
+
+/**
+ * Extracts the hostname of a request (without port, lower case)
+ *
+ * Uses the Host header and falls back to the request URL.
+ *
+ * @param req - Request
+ * @returns Hostname (e.g., 'api.example.com')
+ */
+export function getRequestHostname(req: Request): string {
+  const host = req.headers.get('host') ?? new URL(req.url).host;
+
+  // IPv6 literal (e.g., '[::1]:3000')
+  if (host.startsWith('[')) {
+    return host.slice(0, host.indexOf(']') + 1);
+  }
+
+  const portIndex = host.indexOf(':');
+
+  return (portIndex === -1 ? host : host.slice(0, portIndex)).toLowerCase();
+}
+
+/**
+ * Splits a global middleware pattern into host and path parts
+ *
+ * Patterns that do not start with '/' (and are not the '*' catch-all) are
+ * host-qualified: `admin.example.com/api/*` → host `admin.example.com`,
+ * path `/api/*`. A host without a path applies to every path.
+ *
+ * @param pattern - include/exclude pattern
+ * @returns Host pattern (if any) and path pattern
+ */
+export function splitHostQualifiedPattern(pattern: string): { host?: string; path: string } {
+  if (pattern === '*' || pattern.startsWith('/')) {
+    return { path: pattern };
+  }
+
+  const slashIndex = pattern.indexOf('/');
+
+  if (slashIndex === -1) {
+    return { host: pattern, path: '*' };
+  }
+
+  return { host: pattern.slice(0, slashIndex), path: pattern.slice(slashIndex) };
+}
+
+/**
+ * Whether a global middleware config uses host-qualified patterns
+ *
+ * @param config - Global middleware route config
+ */
+export function hasHostQualifiedPatterns(config?: GlobalMiddlewareConfig['routes']): boolean {
+  if (!config) {
+    return false;
+  }
+
+  return [...(config.include ?? []), ...(config.exclude ?? [])].some(
+    (pattern) => splitHostQualifiedPattern(pattern).host !== undefined,
+  );
+}
+
+/**
+ * Evaluates a global middleware config with host-qualified patterns
+ *
+ * Same semantics as `shouldApplyMiddleware()`: exclusions take precedence,
+ * and a missing include list applies to everything.
+ *
+ * @param config - Global middleware route config
+ * @param hostname - Request hostname
+ * @param path - Request path (or route path when the host is unknown)
+ * @returns true if the middleware applies
+ */
+export function shouldApplyHostScopedMiddleware(
+  config: GlobalMiddlewareConfig['routes'],
+  hostname: string,
+  path: string,
+): boolean {
+  const { include = ['*'], exclude = [] } = config;
+  const matches = (pattern: string) => {
+    const parts = splitHostQualifiedPattern(pattern);
+
+    return (!parts.host || getHostPattern(parts.host).match(hostname) !== null) && matchesPattern(path, parts.path);
+  };
+
+  return !exclude.some(matches) && include.some(matches);
+}
+
+/**
+ * Whether a global middleware config with host-qualified patterns may apply
+ * to a route path (the host is only known per request)
+ *
+ * Path-only exclusions are applied here; host-qualified patterns are
+ * re-checked with `shouldApplyHostScopedMiddleware()` per request.
+ *
+ * @param config - Global middleware route config
+ * @param path - Route path
+ * @returns false if the middleware can never apply to the path
+ */
+export function mayApplyHostScopedMiddleware(config: GlobalMiddlewareConfig['routes'], path: string): boolean {
+  const { include = ['*'], exclude = [] } = config;
+
+  const excluded = exclude.some((pattern) => {
+    const parts = splitHostQualifiedPattern(pattern);
+
+    return !parts.host && matchesPattern(path, parts.path);
+  });
+
+  return !excluded && include.some((pattern) => matchesPattern(path, splitHostQualifiedPattern(pattern).path));
+}
@@ -0,0 +1,152 @@
+/**
+ * Response returned by `Ergenecore.inject()`
+ *
+ * Wraps the native Response with an already-read body so it can be inspected
+ * synchronously, and provides fluent assertion helpers for tests.
+ *
+ * @module utils/InjectResponse
+ *
+ * @example
+ * ```typescript
+ * const res = await adapter.inject({ url: '/users/1' });
+ *
+ * res.expectStatus(200).expectHeader('content-type', /json/).expectJson({ id: '1' });
+ * ```
+ */
+export class InjectResponse {
+  /**
+   * Original Response object (body already consumed)
+   */
+  public readonly response: Response;
+
+  /**
+   * Raw response body as text
+   */
+  public readonly body: string;
+
+  public constructor(response: Response, body: string) {
+    this.response = response;
+    this.body = body;
+  }
+
+  /**
+   * Creates an InjectResponse by reading the body of a Response
+   *
+   * @param response - Native Response object
+   * @returns InjectResponse with buffered body
+   */
+  public static async from(response: Response): Promise<InjectResponse> {
+    return new InjectResponse(response, await response.text());
+  }
+
+  /**
+   * HTTP status code
+   */
+  public get status(): number {
+    return this.response.status;
+  }
+
+  /**
+   * Response headers
+   */
+  public get headers(): Headers {
+    return this.response.headers;
+  }
+
+  /**
+   * Parses the body as JSON
+   *
+   * @throws Error if the body is not valid JSON
+   */
+  public json<T = unknown>(): T {
+    return JSON.parse(this.body) as T;
+  }
+
+  /**
+   * Returns the body as text
+   */
+  public text(): string {
+    return this.body;
+  }
+
+  /**
+   * Asserts the response status code
+   *
+   * @param expected - Expected status code
+   * @returns this (for chaining)
+   */
+  public expectStatus(expected: number): this {
+    if (this.status !== expected) {
+      throw new Error(`Expected status ${expected} but received ${this.status} (body: ${this.body})`);
+    }
+
+    return this;
+  }
+
+  /**
+   * Asserts a response header
+   *
+   * Without an expected value, only checks that the header is present.
+   *
+   * @param name - Header name (case-insensitive)
+   * @param expected - Expected value or pattern
+   * @returns this (for chaining)
+   */
+  public expectHeader(name: string, expected?: string | RegExp): this {
+    const actual = this.headers.get(name);
+
+    if (actual === null) {
+      throw new Error(`Expected header "${name}" to be present`);
+    }
+
+    if (expected === undefined) {
+      return this;
+    }
+
+    const matches = typeof expected === 'string' ? actual === expected : expected.test(actual);
+
+    if (!matches) {
+      throw new Error(`Expected header "${name}" to match ${String(expected)} but received "${actual}"`);
+    }
+
+    return this;
+  }
+
+  /**
+   * Asserts that the JSON body deeply equals the expected value
+   *
+   * @param expected - Expected JSON value
+   * @returns this (for chaining)
+   */
+  public expectJson(expected: unknown): this {
+    let actual: unknown;
+
+    try {
+      actual = this.json();
+    } catch {
+      throw new Error(`Expected JSON body but received "${this.body}"`);
+    }
+
+    if (!Bun.deepEquals(actual, expected)) {
+      throw new Error(`Expected JSON body ${JSON.stringify(expected)} but received ${this.body}`);
+    }
+
+    return this;
+  }
+
+  /**
+   * Asserts the body text
+   *
+   * @param expected - Expected text or pattern
+   * @returns this (for chaining)
+   */
+  public expectBody(expected: string | RegExp): this {
+    const matches = typeof expected === 'string' ? this.body === expected : expected.test(this.body);
+
+    if (!matches) {
+      throw new Error(`Expected body to match ${String(expected)} but received "${this.body}"`);
+    }
+
+    return this;
+  }
+}
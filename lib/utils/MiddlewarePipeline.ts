@@ -0,0 +1,200 @@
+/**
+ * Compiled middleware chains
+ *
+ * A chain is composed once when routes are built. Per request, the
+ * dispatcher allocates a single `next()` function and walks the middleware
+ * array by index instead of building a closure per middleware. A chain that
+ * runs to the end throws nothing.
+ *
+ * A middleware stops the chain by returning `false` or a Response, or by
+ * throwing an HttpException; later middlewares are skipped. As with the
+ * previous recursive runner, the stop rejects `await next()` in the upstream
+ * middlewares (MiddlewareResponseError or 'MIDDLEWARE_CHAIN_STOPPED'). The
+ * error is created once and passed up unchanged unless a middleware catches
+ * it; the dispatcher turns it back into the chain outcome. Other errors
+ * propagate to the caller.
+ *
+ * Chains are deduplicated by middleware identity:
+ * - A MiddlewareService is identified by its instance, also through the
+ *   wrappers Asena prepares for decorator registrations
+ *   (`{ handle: instance.handle.bind(instance) }`, see MIDDLEWARE_INSTANCE).
+ * - Another middleware instance is identified by the instance.
+ * - Another wrapper with its own `handle` property (`{ handle, override }`)
+ *   is identified by that function, so wrappers sharing a handle match.
+ *
+ * The same middleware registered globally and on a controller or route thus
+ * runs once, while different instances of the same class (e.g. two
+ * differently configured rate limiters) stay separate. Class names are never
+ * compared.
+ *
+ * @module utils/MiddlewarePipeline
+ *
+ * @example
+ * ```typescript
+ * const chain = compileMiddlewareChain([cors, auth]);
+ * const outcome = await chain(context);
+ *
+ * if (outcome === false) return new Response('Forbidden', { status: 403 });
+ * if (outcome instanceof Response) return outcome;
+ * ```
+ */
+
+import type { BaseMiddleware } from '@asenajs/asena/adapter';
+import type { Context } from '../ErgenecoreContextWrapper';
+import { HttpException, MiddlewareResponseError } from '../errors';
+
+/**
+ * Result of a middleware chain
+ *
+ * `true` to continue with the route, `false` to reject with 403,
+ * a Response to send instead of running the route.
+ */
+export type MiddlewareOutcome = boolean | Response;
+
+/**
+ * Compiled middleware chain
+ */
+export type MiddlewareChain = (context: Context) => Promise<MiddlewareOutcome>;
+
+const passThrough: MiddlewareChain = async () => true;
+
+const CHAIN_STOPPED = 'MIDDLEWARE_CHAIN_STOPPED';
+
+/**
+ * Converts the error that rejected the outermost `next()` into a chain outcome
+ *
+ * @throws The error itself when it is not a stop
+ */
+function getStopOutcome(error: unknown): MiddlewareOutcome {
+  if (error instanceof MiddlewareResponseError) {
+    return error.response;
+  }
+
+  if (error instanceof Error && error.message === CHAIN_STOPPED) {
+    return false;
+  }
+
+  throw error;
+}
+
+/**
+ * Composes a middleware chain
+ *
+ * @param middlewares - Middlewares in execution order
+ * @returns Chain dispatcher (a no-op resolving to true for an empty list)
+ */
+export function compileMiddlewareChain(middlewares: BaseMiddleware<Context>[]): MiddlewareChain {
+  if (middlewares.length === 0) {
+    return passThrough;
+  }
+
+  const chain = [...middlewares];
+  const count = chain.length;
+
+  return async (context) => {
+    let index = 0;
+
+    const next = async (): Promise<void> => {
+      if (index >= count) {
+        return;
+      }
+
+      const middleware = chain[index++];
+      let result: unknown;
+
+      try {
+        result = await middleware.handle(context, next);
+      } catch (error) {
+        // A stop rejected from a downstream next() passes through as the same error
+        if (!(error instanceof HttpException)) {
+          throw error;
+        }
+
+        result = error.getResponse();
+      }
+
+      if (result instanceof Response) {
+        throw new MiddlewareResponseError(result);
+      }
+
+      if (result === false) {
+        throw new Error(CHAIN_STOPPED);
+      }
+    };
+
+    try {
+      await next();
+
+      return true;
+    } catch (error) {
+      return getStopOutcome(error);
+    }
+  };
+}
+
+/**
+ * Middleware instance a handle belongs to
+ *
+ * MiddlewareService gives each instance its own `handle` whose prototype
+ * holds this key. A bound function inherits the prototype of its target, so
+ * the instance can be read from every `handle.bind()` Asena creates.
+ */
+export const MIDDLEWARE_INSTANCE = Symbol('ergenecore.middlewareInstance');
+
+/**
+ * Identity of a middleware registration (see module docs)
+ */
+export function getMiddlewareIdentity(middleware: BaseMiddleware<Context>): unknown {
+  const handle = middleware.handle as BaseMiddleware<Context>['handle'] & { [MIDDLEWARE_INSTANCE]?: object };
+
+  if (handle[MIDDLEWARE_INSTANCE]) {
+    return handle[MIDDLEWARE_INSTANCE];
+  }
+
+  // Plain wrapper objects carry the middleware in their handle; instances are the middleware
+  return Object.getPrototypeOf(middleware) === Object.prototype ? handle : middleware;
+}
+
+/**
+ * Whether two registrations refer to the same middleware
+ */
+export function isSameMiddleware(a: BaseMiddleware<Context>, b: BaseMiddleware<Context>): boolean {
+  return a === b || getMiddlewareIdentity(a) === getMiddlewareIdentity(b);
+}
+
+/**
+ * Removes repeated middlewares, keeping the first occurrence
+ *
+ * @param middlewares - Middlewares in execution order (global before route)
+ * @returns Middlewares that run once each
+ */
+export function dedupeMiddlewares(middlewares: BaseMiddleware<Context>[]): BaseMiddleware<Context>[] {
+  const seen = new Set<unknown>();
+
+  return middlewares.filter((middleware) => {
+    const identity = getMiddlewareIdentity(middleware);
+
+    if (seen.has(identity)) {
+      return false;
+    }
+
+    seen.add(identity);
+
+    return true;
+  });
+}
+
+/**
+ * Display name of a middleware (class name, otherwise handle function name)
+ *
+ * Only used for logging; names may be mangled by minifiers.
+ */
+export function getMiddlewareName(middleware: BaseMiddleware<Context>): string {
+  const className = middleware.constructor?.name;
+
+  if (className && className !== 'Object') {
+    return className;
+  }
+
+  return middleware.handle.name.replace(/^bound /, '') || 'anonymous';
+}
@@ -0,0 +1,192 @@
+/**
+ * Route param constraints
+ *
+ * Bun's router only knows `:name` and `*` segments, so constraints are
+ * declared inline in the route path and checked after Bun matched it:
+ * - Built-in matchers: `:id<int>`, `:id<uuid>`, `:slug<slug>`
+ * - Enums: `:status<active|archived>`
+ * - Custom matchers registered by name: `:year<year>`
+ * - Inline regular expressions matching the whole segment: `:code<[A-Z]{3}\d+>`
+ *   (a segment cannot contain `/`; use a custom matcher for flags)
+ *
+ * The constraints are stripped from the path registered in Bun's route
+ * table, so routes that only differ by param names and constraints share a
+ * table entry and are tried in order by the adapter.
+ *
+ * @module utils/ParamMatchers
+ *
+ * @example
+ * ```typescript
+ * const resolve = compileParamResolver('/users/:id<int>/:tab<posts|likes>', new Map());
+ *
+ * resolve(['42', 'posts']); // => { id: 42, tab: 'posts' }
+ * resolve(['ada', 'posts']); // => null
+ * ```
+ */
+
+import type { ParamMatcher } from '../types/ParamMatcher';
+
+/**
+ * Param segment with an inline constraint (`:name<constraint>`)
+ */
+const CONSTRAINED_PARAM = /^:([^<]+)<(.+)>$/;
+
+/**
+ * Matcher name (anything else that is not an enum is an inline regular expression)
+ */
+const MATCHER_NAME = /^\w+$/;
+
+/**
+ * Enum of plain values (`active|archived`)
+ */
+const ENUM_CONSTRAINT = /^[\w.-]+(?:\|[\w.-]+)+$/;
+
+/**
+ * Built-in matchers (cannot be replaced by custom matchers)
+ */
+export const BUILT_IN_PARAM_MATCHERS: Readonly<Record<string, ParamMatcher>> = {
+  int: (value) => (/^-?\d+$/.test(value) && Number.isSafeInteger(Number(value)) ? Number(value) : undefined),
+  uuid: /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i,
+  slug: /[a-z0-9]+(?:-[a-z0-9]+)*/,
+};
+
+/**
+ * Resolves the params of a route from the positional param values matched by Bun
+ *
+ * @returns Params by name (converted by their matchers), or null if a value is rejected
+ */
+export type ParamResolver = (values: string[]) => Record<string, unknown> | null;
+
+/**
+ * Removes the inline constraints from a route path (`/users/:id<int>` → `/users/:id`)
+ *
+ * @param path - Route path
+ * @returns Path as registered in Bun's route table
+ */
+export function stripParamConstraints(path: string): string {
+  return hasParamConstraints(path)
+    ? path
+        .split('/')
+        .map((segment) => segment.replace(CONSTRAINED_PARAM, ':$1'))
+        .join('/')
+    : path;
+}
+
+/**
+ * Whether a route path declares inline param constraints
+ */
+export function hasParamConstraints(path: string): boolean {
+  return path.includes('<');
+}
+
+/**
+ * Replaces param names and constraints so that routes matched by the same
+ * Bun route table entry compare equal (`/users/:id<int>` → `/users/:`)
+ */
+export function getRouteShape(path: string): string {
+  return path
+    .split('/')
+    .map((segment) => (segment.startsWith(':') ? ':' : segment))
+    .join('/');
+}
+
+/**
+ * Param names of a route path, in segment order (`/users/:id<int>/:tab` → `['id', 'tab']`)
+ */
+export function getParamNames(path: string): string[] {
+  return path
+    .split('/')
+    .filter((segment) => segment.startsWith(':'))
+    .map((segment) => CONSTRAINED_PARAM.exec(segment)?.[1] ?? segment.slice(1));
+}
+
+/**
+ * Compiles the param constraints of a route path
+ *
+ * @param path - Route path with inline constraints
+ * @param matchers - Custom matchers by name
+ * @returns Resolver for the param values of the path, in segment order
+ * @throws Error if the path references an unknown matcher or an invalid regular expression
+ */
+export function compileParamResolver(path: string, matchers: ReadonlyMap<string, ParamMatcher>): ParamResolver {
+  const params = path
+    .split('/')
+    .filter((segment) => segment.startsWith(':'))
+    .map((segment) => {
+      const constrained = CONSTRAINED_PARAM.exec(segment);
+
+      if (!constrained) {
+        return { name: segment.slice(1), match: undefined };
+      }
+
+      const [, name, constraint] = constrained;
+
+      return { name, match: compileConstraint(constraint, matchers, path) };
+    });
+
+  return (values) => {
+    const result: Record<string, unknown> = {};
+
+    for (let i = 0; i < params.length; i++) {
+      const { name, match } = params[i];
+      const value = match ? match(values[i]) : values[i];
+
+      if (value === undefined) {
+        return null;
+      }
+
+      result[name] = value;
+    }
+
+    return result;
+  };
+}
+
+/**
+ * Compiles a single constraint (enum, matcher name or inline regular expression) into a conversion function
+ */
+function compileConstraint(
+  constraint: string,
+  matchers: ReadonlyMap<string, ParamMatcher>,
+  path: string,
+): (value: string) => unknown {
+  if (ENUM_CONSTRAINT.test(constraint)) {
+    const allowed = new Set(constraint.split('|'));
+
+    return (value) => (allowed.has(value) ? value : undefined);
+  }
+
+  if (!MATCHER_NAME.test(constraint)) {
+    return compileRegExp(constraint, '', path);
+  }
+
+  const matcher = BUILT_IN_PARAM_MATCHERS[constraint] ?? matchers.get(constraint);
+
+  if (!matcher) {
+    throw new Error(
+      `Unknown param matcher "${constraint}" in route "${path}": use int, uuid, slug, a matcher registered ` +
+        `with addParamMatcher(), an enum (a|b) or an inline regular expression`,
+    );
+  }
+
+  if (typeof matcher === 'function') {
+    return matcher;
+  }
+
+  return compileRegExp(matcher.source, matcher.flags, path);
+}
+
+/**
+ * Compiles a regular expression that must match the whole segment
+ */
+function compileRegExp(source: string, flags: string, path: string): (value: string) => string | undefined {
+  let pattern: RegExp;
+
+  try {
+    pattern = new RegExp(`^(?:${source})$`, flags.replace(/[gy]/g, ''));
+  } catch (error) {
+    throw new Error(`Invalid param constraint "${source}" in route "${path}": ${(error as Error).message}`);
+  }
+
+  return (value) => (pattern.test(value) ? value : undefined);
+}
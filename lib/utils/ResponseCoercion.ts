@@ -0,0 +1,174 @@
+/**
+ * Handler return value coercion
+ *
+ * Converts values returned by route handlers into Responses:
+ * - `undefined` / `null` → 204 No Content
+ * - string → text/plain
+ * - Blob / BunFile → the file's type and size
+ * - Uint8Array / ArrayBuffer → application/octet-stream
+ * - ReadableStream → streamed body
+ * - AsyncIterable → streamed body (objects as NDJSON lines)
+ * - respond() tuples → body coerced with the given status and headers
+ * - Anything else → serialized (JSON by default)
+ *
+ * @module utils/ResponseCoercion
+ */
+
+import type { ResponseTuple } from '../types/Handler';
+import type { ResponseSerializer } from '../types/Serializer';
+
+const TEXT_CONTENT_TYPE = 'text/plain; charset=utf-8';
+const BINARY_CONTENT_TYPE = 'application/octet-stream';
+const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+const RESPONSE_TUPLE = Symbol('ergenecore.responseTuple');
+
+const encoder = new TextEncoder();
+
+/**
+ * Describes a response by its body, status and headers
+ *
+ * Only objects created by this function are treated as response tuples;
+ * a plain `{ status, headers, body }` object is serialized like other data.
+ *
+ * @param tuple - Body (coerced like any handler return value), status and headers
+ * @returns Marked copy of the tuple, to return from a handler
+ *
+ * @example
+ * ```typescript
+ * handler: async () => respond({ status: 201, headers: { Location: '/users/42' }, body: { id: 42 } });
+ * ```
+ */
+export function respond(tuple: ResponseTuple): ResponseTuple {
+  return Object.defineProperty({ ...tuple }, RESPONSE_TUPLE, { value: true });
+}
+
+/**
+ * Converts a handler return value into a Response
+ *
+ * @param value - Value returned by the handler (not a Response)
+ * @param serialize - Serializer for values without a native body representation
+ * @param headers - Headers of serialized responses (Content-Type)
+ * @returns Response, or a promise for async iterables (resolved once the first item is available)
+ */
+export function coerceResponse(
+  value: unknown,
+  serialize: ResponseSerializer,
+  headers: Record<string, string>,
+): Response | Promise<Response> {
+  if (value === undefined || value === null) {
+    return new Response(null, { status: 204 });
+  }
+
+  if (isResponseTuple(value)) {
+    return applyResponseTuple(value, serialize, headers);
+  }
+
+  if (typeof value === 'string') {
+    return new Response(value, { headers: { 'Content-Type': TEXT_CONTENT_TYPE } });
+  }
+
+  // Blob and BunFile carry their own type and size
+  if (value instanceof Blob) {
+    return new Response(value, {
+      headers: { 'Content-Type': value.type || BINARY_CONTENT_TYPE, 'Content-Length': String(value.size) },
+    });
+  }
+
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return new Response(value as BodyInit, {
+      headers: { 'Content-Type': BINARY_CONTENT_TYPE, 'Content-Length': String(value.byteLength) },
+    });
+  }
+
+  if (value instanceof ReadableStream) {
+    return new Response(value, { headers: { 'Content-Type': BINARY_CONTENT_TYPE } });
+  }
+
+  if (isAsyncIterable(value)) {
+    return streamAsyncIterable(value, serialize);
+  }
+
+  return new Response(serialize(value), { headers });
+}
+
+/**
+ * Whether a value was created by respond()
+ */
+function isResponseTuple(value: unknown): value is ResponseTuple {
+  return typeof value === 'object' && value !== null && RESPONSE_TUPLE in value;
+}
+
+/**
+ * Coerces the tuple body and applies its status and headers
+ */
+async function applyResponseTuple(
+  tuple: ResponseTuple,
+  serialize: ResponseSerializer,
+  headers: Record<string, string>,
+): Promise<Response> {
+  const response = await coerceResponse(tuple.body, serialize, headers);
+  const mergedHeaders = new Headers(response.headers);
+
+  new Headers(tuple.headers).forEach((value, key) => {
+    mergedHeaders.set(key, value);
+  });
+
+  return new Response(response.body, {
+    status: tuple.status ?? response.status,
+    headers: mergedHeaders,
+  });
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Streams an async iterable
+ *
+ * Strings and bytes are written as-is; other items are serialized as
+ * NDJSON lines. The Content-Type follows the first item.
+ */
+async function streamAsyncIterable(iterable: AsyncIterable<unknown>, serialize: ResponseSerializer): Promise<Response> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  let pending: IteratorResult<unknown> | undefined = await iterator.next();
+
+  const encode = (item: unknown): Uint8Array => {
+    if (item instanceof Uint8Array) return item;
+
+    if (typeof item === 'string') return encoder.encode(item);
+
+    return encoder.encode(`${serialize(item)}\n`);
+  };
+
+  const first = pending.value;
+  let contentType = NDJSON_CONTENT_TYPE;
+
+  if (typeof first === 'string') {
+    contentType = TEXT_CONTENT_TYPE;
+  } else if (first instanceof Uint8Array) {
+    contentType = BINARY_CONTENT_TYPE;
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const result = pending ?? (await iterator.next());
+
+      pending = undefined;
+
+      if (result.done) {
+        controller.close();
+
+        return;
+      }
+
+      controller.enqueue(encode(result.value));
+    },
+    async cancel(reason) {
+      await iterator.return?.(reason);
+    },
+  });
+
+  return new Response(stream, { headers: { 'Content-Type': contentType } });
+}
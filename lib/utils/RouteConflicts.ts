@@ -0,0 +1,143 @@
+/**
+ * Route conflict detection
+ *
+ * Bun's router is a plain object keyed by path and method, so registering
+ * the same route twice silently overwrites the first handler. This module
+ * inspects the registered routes before the route table is built and
+ * reports:
+ * - Exact duplicates (same method and path)
+ * - Parameter name conflicts (`GET /users/:id` vs `GET /users/:userId`,
+ *   unless a param constraint tells the routes apart: `/users/:id<int>` vs
+ *   `/users/:name`). Bun matches each method separately, so
+ *   `GET /users/:id` and `DELETE /users/:userId` both work.
+ * - Routes overlapped by another controller's wildcard route
+ *
+ * Routes scoped to different hosts are not duplicates. Parameter names and
+ * wildcard overlaps are checked regardless of host, since Bun matches the
+ * path before the host is dispatched.
+ *
+ * @module utils/RouteConflicts
+ *
+ * @example
+ * ```typescript
+ * for (const conflict of detectRouteConflicts(adapter.getRoutes())) {
+ *   console.warn(conflict.message);
+ * }
+ * ```
+ */
+
+import type { RouteConflict } from '../types/RouteConflict';
+import type { RouteInfo } from '../types/RouteInfo';
+import { getRouteShape, hasParamConstraints } from './ParamMatchers';
+
+/**
+ * Detects duplicate and ambiguous routes
+ *
+ * @param routes - Registered routes in registration order
+ * @returns Conflicts in registration order (errors and warnings)
+ */
+export function detectRouteConflicts(routes: RouteInfo[]): RouteConflict[] {
+  const conflicts: RouteConflict[] = [];
+
+  for (let i = 0; i < routes.length; i++) {
+    for (let j = i + 1; j < routes.length; j++) {
+      const conflict = compareRoutes(routes[i], routes[j]);
+
+      if (conflict) {
+        conflicts.push(conflict);
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Compares two routes (`first` registered before `second`)
+ */
+function compareRoutes(first: RouteInfo, second: RouteInfo): RouteConflict | null {
+  if (first.path === second.path) {
+    // HTTP GET vs WebSocket on the same path is rejected by checkPathCollisions()
+    if (first.method !== second.method || first.type !== second.type || first.host !== second.host) {
+      return null;
+    }
+
+    return {
+      kind: 'duplicate',
+      severity: 'error',
+      message:
+        `Duplicate route ${describe(second)}: registered by ${controllerOf(first)} and ${controllerOf(second)}. ` +
+        `The route from ${controllerOf(second)} overrides the earlier one.`,
+      routes: [first, second],
+    };
+  }
+
+  if (getRouteShape(first.path) === getRouteShape(second.path)) {
+    // Each method has its own params; constrained routes are tried before the others of the same shape
+    if (first.method !== second.method || hasParamConstraints(first.path) || hasParamConstraints(second.path)) {
+      return null;
+    }
+
+    return {
+      kind: 'param-name',
+      severity: 'error',
+      message:
+        `Conflicting parameter names: ${describe(first)} (${controllerOf(first)}) and ` +
+        `${describe(second)} (${controllerOf(second)}) match the same paths. Use the same parameter names.`,
+      routes: [first, second],
+    };
+  }
+
+  if (first.method !== second.method || first.controllerName === second.controllerName) {
+    return null;
+  }
+
+  const [wildcard, route] = isWildcard(first.path) ? [first, second] : [second, first];
+
+  if (!isWildcard(wildcard.path) || !wildcardCovers(wildcard.path, route.path)) {
+    return null;
+  }
+
+  return {
+    kind: 'wildcard-overlap',
+    severity: 'warning',
+    message:
+      `${describe(route)} (${controllerOf(route)}) overlaps wildcard route ${describe(wildcard)} ` +
+      `(${controllerOf(wildcard)}). The more specific route takes precedence.`,
+    routes: [first, second],
+  };
+}
+
+/**
+ * Whether the path ends with a wildcard segment (the `/*` catch-all is the
+ * designated fallback and is not reported)
+ */
+function isWildcard(path: string): boolean {
+  return path !== '/*' && path.endsWith('/*');
+}
+
+/**
+ * Whether every path matched by `path` is also matched by the wildcard pattern
+ */
+function wildcardCovers(wildcard: string, path: string): boolean {
+  const prefix = wildcard.split('/').slice(0, -1);
+  const segments = path.split('/');
+
+  if (segments.length <= prefix.length) {
+    return false;
+  }
+
+  return prefix.every(
+    (segment, index) => segment === segments[index] || (segment.startsWith(':') && segments[index] !== '*'),
+  );
+}
+
+function describe(route: RouteInfo): string {
+  const path = route.host ? `${route.host}${route.path}` : route.path;
+
+  return route.type === 'websocket' ? `WebSocket ${path}` : `${route.method} ${path}`;
+}
+
+function controllerOf(route: RouteInfo): string {
+  return route.controllerName ?? 'an unnamed controller';
+}
@@ -0,0 +1,312 @@
+/**
+ * Programmatic route API
+ *
+ * Registers routes without decorated controllers. Every route is converted
+ * to `ErgenecoreRouteParams` and passed to `registerRoute()`, so it goes
+ * through the same queue, conflict checks, fast path detection and startup
+ * log as controller routes. Groups prefix paths and pass their options on
+ * to their routes and nested groups.
+ *
+ * @module utils/RouteGroup
+ *
+ * @example
+ * ```typescript
+ * adapter.get('/ping', () => 'pong');
+ *
+ * adapter.group('/api', { middlewares: [auth] }, (api) => {
+ *   api.get('/users/:id', (ctx) => users.find(ctx.getParam('id')));
+ *   api.group('/admin', { name: 'Admin', middlewares: [adminOnly] }, (admin) => {
+ *     admin.delete('/users/:id', (ctx) => users.remove(ctx.getParam('id')));
+ *   });
+ * });
+ * ```
+ */
+
+import type { AsenaHandler, BaseMiddleware, BaseValidator } from '@asenajs/asena/adapter';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../ErgenecoreContextWrapper';
+import type { RouteHooks } from '../types/Hooks';
+import type {
+  JoinedPath,
+  MergedSchemas,
+  NoSchemas,
+  RouteDefinitionHandler,
+  RouteDefinitionOptions,
+  RouteGroupOptions,
+  RouteMiddleware,
+  RouteSchemas,
+} from '../types/RouteGroup';
+import type { RouteContext } from '../types/TypedContext';
+import type { ErgenecoreRouteParams } from '../types/RouteOptions';
+import type { SerializerOptions } from '../types/Serializer';
+import type { ValidationSchemaWithHook } from '../types/Validation';
+
+/**
+ * Callback registering the routes of a group (implementation signature of group())
+ */
+export type GroupDefinition = (group: never) => void;
+
+/**
+ * Builder of a route group (the adapter's own methods register ungrouped routes)
+ *
+ * @template Prefix - Full path prefix, used to type the params of the routes
+ * @template GroupSchemas - Zod schemas inherited from the groups, used to type body and query
+ */
+export class RouteGroup<Prefix extends string = string, GroupSchemas = NoSchemas> {
+  /**
+   * Creates a group
+   *
+   * @param register - Registers a route with the adapter
+   * @param prefix - Full path prefix of the group ('' for ungrouped routes)
+   * @param groupOptions - Options inherited from the parent groups
+   */
+  public constructor(
+    private readonly register: (params: ErgenecoreRouteParams) => void,
+    private readonly prefix = '',
+    private readonly groupOptions: RouteGroupOptions = {},
+  ) {}
+
+  /**
+   * Registers a GET route
+   */
+  public get<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<JoinedPath<Prefix, Path>, MergedSchemas<GroupSchemas, Schemas>>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    return this.route(HttpMethod.GET, path, handler, options);
+  }
+
+  /**
+   * Registers a POST route
+   */
+  public post<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<JoinedPath<Prefix, Path>, MergedSchemas<GroupSchemas, Schemas>>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    return this.route(HttpMethod.POST, path, handler, options);
+  }
+
+  /**
+   * Registers a PUT route
+   */
+  public put<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<JoinedPath<Prefix, Path>, MergedSchemas<GroupSchemas, Schemas>>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    return this.route(HttpMethod.PUT, path, handler, options);
+  }
+
+  /**
+   * Registers a PATCH route
+   */
+  public patch<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<JoinedPath<Prefix, Path>, MergedSchemas<GroupSchemas, Schemas>>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    return this.route(HttpMethod.PATCH, path, handler, options);
+  }
+
+  /**
+   * Registers a DELETE route
+   */
+  public delete<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<JoinedPath<Prefix, Path>, MergedSchemas<GroupSchemas, Schemas>>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    return this.route(HttpMethod.DELETE, path, handler, options);
+  }
+
+  /**
+   * Registers an OPTIONS route (replaces the generated 204 response)
+   */
+  public options<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<JoinedPath<Prefix, Path>, MergedSchemas<GroupSchemas, Schemas>>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    return this.route(HttpMethod.OPTIONS, path, handler, options);
+  }
+
+  /**
+   * Registers a HEAD route (replaces the HEAD response derived from GET)
+   */
+  public head<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<JoinedPath<Prefix, Path>, MergedSchemas<GroupSchemas, Schemas>>>,
+    options?: RouteDefinitionOptions<Schemas>,
+  ): this {
+    return this.route(HttpMethod.HEAD, path, handler, options);
+  }
+
+  /**
+   * Registers a route
+   *
+   * @param method - HTTP method
+   * @param path - Path relative to the group prefix
+   * @param handler - Route handler
+   * @param options - Route options (combined with the group options)
+   * @returns The group, for chaining
+   */
+  public route<Path extends string, Schemas extends RouteSchemas = NoSchemas>(
+    method: HttpMethod,
+    path: Path,
+    handler: RouteDefinitionHandler<RouteContext<JoinedPath<Prefix, Path>, MergedSchemas<GroupSchemas, Schemas>>>,
+    options: RouteDefinitionOptions<Schemas> = {},
+  ): this {
+    const { middlewares, validator, hooks, serializer, ...rest } = options;
+    const { name, middlewares: groupMiddlewares, validator: groupValidator, ...inherited } = this.groupOptions;
+
+    this.register({
+      ...inherited,
+      ...rest,
+      method,
+      path: joinPaths(this.prefix, path),
+      handler: handler as AsenaHandler<Context>,
+      middlewares: [...(groupMiddlewares ?? []), ...(middlewares ?? [])].map(toMiddleware),
+      validator: mergeValidators(groupValidator, validator),
+      staticServe: undefined,
+      hooks: mergeHooks(this.groupOptions.hooks, hooks),
+      serializer: mergeSerializers(this.groupOptions.serializer, serializer),
+      controllerName: name,
+      controllerBasePath: this.prefix || undefined,
+    });
+
+    return this;
+  }
+
+  /**
+   * Registers the routes of a nested group
+   *
+   * @param prefix - Path prefix relative to this group
+   * @param options - Group options (combined with this group's options)
+   * @param define - Registers the group's routes
+   * @returns This group, for chaining
+   */
+  public group<P extends string, Schemas extends RouteSchemas = NoSchemas>(
+    prefix: P,
+    options: RouteGroupOptions<Schemas>,
+    define: (group: RouteGroup<JoinedPath<Prefix, P>, MergedSchemas<GroupSchemas, Schemas>>) => void,
+  ): this;
+
+  public group<P extends string>(
+    prefix: P,
+    define: (group: RouteGroup<JoinedPath<Prefix, P>, GroupSchemas>) => void,
+  ): this;
+
+  public group(prefix: string, optionsOrDefine: RouteGroupOptions | GroupDefinition, define?: GroupDefinition): this {
+    const options = typeof optionsOrDefine === 'function' ? {} : optionsOrDefine;
+    const fullPrefix = joinPaths(this.prefix, prefix);
+    const { middlewares, validator, hooks, serializer, ...rest } = options;
+
+    const group = new RouteGroup<string, RouteSchemas>(this.register, fullPrefix, {
+      ...this.groupOptions,
+      ...rest,
+      name: options.name ?? this.groupOptions.name ?? fullPrefix,
+      middlewares: [...(this.groupOptions.middlewares ?? []), ...(middlewares ?? [])],
+      validator: mergeValidators(this.groupOptions.validator, validator),
+      hooks: mergeHooks(this.groupOptions.hooks, hooks),
+      serializer: mergeSerializers(this.groupOptions.serializer, serializer),
+    });
+
+    // The overloads type the group from the prefix and schemas
+    const defineGroup = (typeof optionsOrDefine === 'function' ? optionsOrDefine : define) as (
+      group: RouteGroup<string, RouteSchemas>,
+    ) => void;
+
+    defineGroup(group);
+
+    return this;
+  }
+}
+
+/**
+ * Joins a group prefix and a path (`/api` + `/users/` → `/api/users/`, `/api` + `/` → `/api`)
+ *
+ * @param prefix - Group prefix
+ * @param path - Relative path
+ */
+function joinPaths(prefix: string, path: string): string {
+  const relative = path === '/' || path === '' ? '' : path.startsWith('/') ? path : `/${path}`;
+  const joined = `${prefix.replace(/\/+$/, '')}${relative}`;
+
+  return joined || '/';
+}
+
+/**
+ * Wraps a middleware function in a middleware instance
+ *
+ * The function stays the registration's identity (see utils/MiddlewarePipeline).
+ */
+function toMiddleware(middleware: RouteMiddleware): BaseMiddleware<Context> {
+  return typeof middleware === 'function' ? { handle: middleware, override: false } : middleware;
+}
+
+/**
+ * Converts Zod schemas by target into a validator and merges it over the group validator
+ *
+ * @param groupValidator - Validator inherited from the groups
+ * @param validator - Route or nested group validator (its targets win)
+ * @returns Merged validator, or undefined if neither is set
+ */
+function mergeValidators(
+  groupValidator: RouteDefinitionOptions['validator'],
+  validator: RouteDefinitionOptions['validator'],
+): BaseValidator<ValidationSchemaWithHook> | undefined {
+  if (!groupValidator && !validator) {
+    return undefined;
+  }
+
+  const merged: BaseValidator<ValidationSchemaWithHook> = {};
+
+  for (const source of [groupValidator, validator]) {
+    for (const [target, value] of Object.entries(source ?? {}) as [keyof RouteSchemas, unknown][]) {
+      // Plain Zod schemas are accepted by the validation service as well
+      merged[target] = isValidatorHandler(value)
+        ? value
+        : { handle: () => value as ValidationSchemaWithHook, override: false };
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Whether a validator target is a validator handler rather than a Zod schema
+ */
+function isValidatorHandler(value: unknown): value is NonNullable<BaseValidator<ValidationSchemaWithHook>['json']> {
+  return typeof value === 'object' && value !== null && 'handle' in value && typeof value.handle === 'function';
+}
+
+/**
+ * Merges route serializer options over the group's
+ */
+function mergeSerializers(
+  groupSerializer?: SerializerOptions,
+  serializer?: SerializerOptions,
+): SerializerOptions | undefined {
+  return groupSerializer && serializer ? { ...groupSerializer, ...serializer } : (serializer ?? groupSerializer);
+}
+
+/**
+ * Concatenates group and route hooks per hook name (group hooks run first)
+ */
+function mergeHooks(groupHooks?: RouteHooks, hooks?: RouteHooks): RouteHooks | undefined {
+  if (!groupHooks || !hooks) {
+    return groupHooks ?? hooks;
+  }
+
+  const merged: Record<string, unknown[]> = {};
+
+  for (const source of [groupHooks, hooks]) {
+    for (const [name, value] of Object.entries(source)) {
+      merged[name] = [...(merged[name] ?? []), ...(Array.isArray(value) ? value : [value])];
+    }
+  }
+
+  return merged as RouteHooks;
+}
@@ -0,0 +1,256 @@
+/**
+ * In-process route matcher
+ *
+ * Resolves a request path against a Bun route table (the object passed to
+ * `Bun.serve({ routes })`) without starting a server. The precedence rules
+ * mirror Bun's native router so that in-process dispatch behaves like a
+ * real request:
+ * - Static segments win over parameters (`/users/me` before `/users/:id`)
+ * - Parameters win over wildcards (`/users/:id` before `/users/*`)
+ * - A wildcard needs a segment at its position (`/api/*` matches `/api/`, not `/api`)
+ * - A path that does not define the requested method falls through to the
+ *   next matching route (usually the `/*` catch-all)
+ *
+ * @module utils/RouteMatcher
+ *
+ * @example
+ * ```typescript
+ * const matcher = new RouteMatcher({
+ *   '/users/:id': { GET: handler },
+ *   '/*': notFound,
+ * });
+ *
+ * matcher.match('GET', '/users/42');
+ * // => { pattern: '/users/:id', handler, params: { id: '42' } }
+ * ```
+ */
+
+import { isStaticRouteValue } from './StaticRoutes';
+
+/**
+ * Result of a successful route match
+ */
+export interface RouteMatch<T = unknown> {
+  /**
+   * Route pattern as registered in the route table
+   */
+  pattern: string;
+
+  /**
+   * Matched route value (handler function or static route value)
+   */
+  handler: T;
+
+  /**
+   * Decoded path parameters
+   */
+  params: Record<string, string>;
+}
+
+/**
+ * Route matcher options
+ */
+export interface RouteMatcherOptions {
+  /**
+   * Compare static segments case-sensitively
+   *
+   * @default true
+   */
+  caseSensitive?: boolean;
+}
+
+/**
+ * Value of a route table entry (a value for every method, or values by method)
+ */
+export type RouteTableEntry<T> = T | Partial<Record<string, T>>;
+
+/**
+ * Segment kinds ordered by precedence (lower wins)
+ */
+const STATIC_SEGMENT = 0;
+const PARAM_SEGMENT = 1;
+const WILDCARD_SEGMENT = 2;
+
+interface CompiledRoute<T> {
+  pattern: string;
+  segments: string[];
+  kinds: number[];
+  value: RouteTableEntry<T>;
+}
+
+/**
+ * Matches request paths against a Bun route table
+ *
+ * @typeParam T - Route value (handler function or static route value)
+ */
+export class RouteMatcher<T = unknown> {
+  private readonly routes: CompiledRoute<T>[];
+
+  private readonly caseSensitive: boolean;
+
+  /**
+   * Creates a matcher for the given route table
+   *
+   * @param table - Bun router object (`{ [path]: handler | StaticRouteValue | { [method]: handler } }`)
+   * @param options - Matching options
+   */
+  public constructor(table: Record<string, RouteTableEntry<T>>, options: RouteMatcherOptions = {}) {
+    this.caseSensitive = options.caseSensitive ?? true;
+    this.routes = Object.entries(table)
+      .map(([pattern, value]) => this.compile(pattern, value))
+      .sort((a, b) => this.compareSpecificity(a, b));
+  }
+
+  /**
+   * Finds the most specific route that handles the given method and path
+   *
+   * HEAD requests fall back to the GET handler when no HEAD handler is
+   * defined, matching Bun's native behavior.
+   *
+   * @param method - HTTP method (e.g., 'GET')
+   * @param pathname - Request path without query string
+   * @param exclude - Patterns to skip (to continue after a route whose param constraints rejected the path)
+   * @returns Match result or null if no route handles the request
+   */
+  public match(method: string, pathname: string, exclude?: ReadonlySet<string>): RouteMatch<T> | null {
+    const pathSegments = (this.caseSensitive ? pathname : pathname.toLowerCase()).split('/');
+    const rawSegments = this.caseSensitive ? pathSegments : pathname.split('/');
+
+    for (const route of this.routes) {
+      if (exclude?.has(route.pattern)) {
+        continue;
+      }
+
+      const params = this.matchSegments(route, pathSegments, rawSegments);
+
+      if (!params) {
+        continue;
+      }
+
+      const handler = this.resolveMethod(route.value, method.toUpperCase());
+
+      if (handler) {
+        return { pattern: route.pattern, handler, params };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Compiles a route pattern into segments for matching
+   */
+  private compile(pattern: string, value: RouteTableEntry<T>): CompiledRoute<T> {
+    const segments = pattern.split('/');
+    const kinds = segments.map((segment) => {
+      if (segment === '*') return WILDCARD_SEGMENT;
+
+      if (segment.startsWith(':')) return PARAM_SEGMENT;
+
+      return STATIC_SEGMENT;
+    });
+
+    // Static segments are compared in lower case when matching case-insensitively
+    const compareSegments = this.caseSensitive
+      ? segments
+      : segments.map((segment, i) => (kinds[i] === STATIC_SEGMENT ? segment.toLowerCase() : segment));
+
+    return { pattern, segments: compareSegments, kinds, value };
+  }
+
+  /**
+   * Orders routes so that the most specific pattern is tried first
+   */
+  private compareSpecificity(a: CompiledRoute<T>, b: CompiledRoute<T>): number {
+    const length = Math.min(a.kinds.length, b.kinds.length);
+
+    for (let i = 0; i < length; i++) {
+      if (a.kinds[i] !== b.kinds[i]) {
+        return a.kinds[i] - b.kinds[i];
+      }
+    }
+
+    // Longer patterns are more specific
+    return b.kinds.length - a.kinds.length;
+  }
+
+  /**
+   * Matches path segments against a compiled route
+   *
+   * @param route - Compiled route
+   * @param pathSegments - Path segments to compare (lower case when matching case-insensitively)
+   * @param rawSegments - Original path segments used for param values
+   * @returns Extracted params, or null if the path does not match
+   */
+  private matchSegments(
+    route: CompiledRoute<T>,
+    pathSegments: string[],
+    rawSegments: string[],
+  ): Record<string, string> | null {
+    const params: Record<string, string> = {};
+
+    for (let i = 0; i < route.segments.length; i++) {
+      const kind = route.kinds[i];
+
+      // Like Bun, a wildcard needs a segment (possibly empty): `/api/*` matches `/api/`, not `/api`
+      if (kind === WILDCARD_SEGMENT) {
+        return i < pathSegments.length ? params : null;
+      }
+
+      const segment = pathSegments[i];
+
+      if (segment === undefined) {
+        return null;
+      }
+
+      if (kind === PARAM_SEGMENT) {
+        if (segment === '') {
+          return null;
+        }
+
+        params[route.segments[i].slice(1)] = this.decode(rawSegments[i]);
+      } else if (segment !== route.segments[i]) {
+        return null;
+      }
+    }
+
+    return route.segments.length === pathSegments.length ? params : null;
+  }
+
+  /**
+   * Resolves the handler for a method from a route value
+   */
+  private resolveMethod(value: RouteTableEntry<T>, method: string): T | null {
+    // Function handlers and static values handle every method
+    if (typeof value === 'function' || isStaticRouteValue(value)) {
+      return value as T;
+    }
+
+    if (!value || typeof value !== 'object') {
+      return null;
+    }
+
+    const methods = value as Partial<Record<string, T>>;
+
+    if (methods[method]) {
+      return methods[method];
+    }
+
+    if (method === 'HEAD' && methods['GET']) {
+      return methods['GET'];
+    }
+
+    return null;
+  }
+
+  /**
+   * Decodes a path segment, keeping the raw value if it is malformed
+   */
+  private decode(segment: string): string {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  }
+}
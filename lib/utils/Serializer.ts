@@ -0,0 +1,202 @@
+/**
+ * Response serialization
+ *
+ * Converts handler return values that are not a Response into response
+ * bodies. JSON encoding handles values `JSON.stringify` cannot:
+ * - BigInt is encoded as a string (or number)
+ * - Map is encoded as an object, Set as an array
+ *
+ * When a route declares a Zod response schema, a serializer is compiled
+ * from the schema. It writes only the declared properties (unknown
+ * properties are dropped) and falls back to JSON encoding for types it
+ * does not know. With a replacer, the declared properties are picked by a
+ * compiled filter instead and JSON encoding writes them, so the replacer
+ * sees every value.
+ *
+ * @module utils/Serializer
+ *
+ * @example
+ * ```typescript
+ * const serialize = createJsonSerializer({ bigint: 'string' });
+ *
+ * serialize({ id: 1n, tags: new Set(['a']) }); // => '{"id":"1","tags":["a"]}'
+ * ```
+ */
+
+import type { ResponseSerializer, SerializerOptions } from '../types/Serializer';
+import type { ValidationSchema } from '../types/Validation';
+
+/**
+ * Zod schema definition fields read by the compiler
+ */
+interface SchemaDefinition {
+  type: string;
+  innerType?: ValidationSchema;
+  element?: ValidationSchema;
+  shape?: Record<string, ValidationSchema>;
+}
+
+/**
+ * Creates a JSON serializer with BigInt, Map and Set support
+ *
+ * @param options - Serializer options (replacer and BigInt encoding)
+ * @returns Serializer function
+ */
+export function createJsonSerializer(options: SerializerOptions = {}): ResponseSerializer {
+  const { replacer, bigint = 'string' } = options;
+
+  const replace = function (this: unknown, key: string, value: unknown): unknown {
+    let result = value;
+
+    if (typeof result === 'bigint') {
+      result = bigint === 'number' ? Number(result) : result.toString();
+    } else if (result instanceof Map) {
+      result = Object.fromEntries(result);
+    } else if (result instanceof Set) {
+      result = Array.from(result);
+    }
+
+    return replacer ? replacer.call(this, key, result) : result;
+  };
+
+  return (value) => JSON.stringify(value, replace);
+}
+
+/**
+ * Compiles a serializer from a Zod response schema
+ *
+ * Objects, arrays, strings, numbers, booleans and optional/nullable
+ * wrappers are compiled; other schema types use the fallback serializer.
+ * The value is not validated.
+ *
+ * @param schema - Zod response schema
+ * @param fallback - Serializer for values the compiled code does not handle
+ * @returns Serializer function
+ */
+export function compileSchemaSerializer(schema: ValidationSchema, fallback: ResponseSerializer): ResponseSerializer {
+  const def = (schema as { _zod?: { def?: SchemaDefinition } })._zod?.def;
+
+  switch (def?.type) {
+    case 'string':
+      return (value) => (typeof value === 'string' ? JSON.stringify(value) : fallback(value));
+
+    case 'number':
+      return (value) => (typeof value === 'number' && Number.isFinite(value) ? String(value) : fallback(value));
+
+    case 'boolean':
+      return (value) => (typeof value === 'boolean' ? String(value) : fallback(value));
+
+    case 'optional':
+    case 'nullable': {
+      const inner = compileSchemaSerializer(def.innerType, fallback);
+
+      return (value) => (value === undefined || value === null ? 'null' : inner(value));
+    }
+
+    case 'array': {
+      const element = compileSchemaSerializer(def.element, fallback);
+
+      return (value) => {
+        if (!Array.isArray(value)) {
+          return fallback(value);
+        }
+
+        return `[${value.map((item) => (item === undefined || item === null ? 'null' : element(item))).join(',')}]`;
+      };
+    }
+
+    case 'object': {
+      const fields = Object.entries(def.shape).map(([key, fieldSchema]) => ({
+        key,
+        prefix: `${JSON.stringify(key)}:`,
+        serialize: compileSchemaSerializer(fieldSchema, fallback),
+      }));
+
+      return (value) => {
+        if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+          return fallback(value);
+        }
+
+        let body = '';
+
+        for (const field of fields) {
+          const fieldValue = (value as Record<string, unknown>)[field.key];
+
+          if (fieldValue === undefined) {
+            continue;
+          }
+
+          const serialized = fieldValue === null ? 'null' : field.serialize(fieldValue);
+
+          // Functions and symbols are omitted, as with JSON.stringify
+          if (serialized === undefined) {
+            continue;
+          }
+
+          body += body ? `,${field.prefix}${serialized}` : `${field.prefix}${serialized}`;
+        }
+
+        return `{${body}}`;
+      };
+    }
+
+    default:
+      return fallback;
+  }
+}
+
+/**
+ * Compiles a filter keeping only the properties declared by a Zod response schema
+ *
+ * Used instead of compileSchemaSerializer() when a replacer is configured:
+ * the filtered value is encoded by the JSON serializer, which passes every
+ * value through the replacer. Values that are not objects or arrays where
+ * the schema declares them are kept as they are.
+ *
+ * @param schema - Zod response schema
+ * @returns Filter returning a copy with the declared properties
+ */
+export function compileSchemaFilter(schema: ValidationSchema): (value: unknown) => unknown {
+  const def = (schema as { _zod?: { def?: SchemaDefinition } })._zod?.def;
+
+  switch (def?.type) {
+    case 'optional':
+    case 'nullable': {
+      const inner = compileSchemaFilter(def.innerType);
+
+      return (value) => (value === undefined || value === null ? value : inner(value));
+    }
+
+    case 'array': {
+      const element = compileSchemaFilter(def.element);
+
+      return (value) => (Array.isArray(value) ? value.map((item) => element(item)) : value);
+    }
+
+    case 'object': {
+      const fields = Object.entries(def.shape).map(([key, fieldSchema]) => ({
+        key,
+        filter: compileSchemaFilter(fieldSchema),
+      }));
+
+      return (value) => {
+        if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+          return value;
+        }
+
+        const result: Record<string, unknown> = {};
+
+        for (const field of fields) {
+          if (field.key in value) {
+            result[field.key] = field.filter((value as Record<string, unknown>)[field.key]);
+          }
+        }
+
+        return result;
+      };
+    }
+
+    default:
+      return (value) => value;
+  }
+}
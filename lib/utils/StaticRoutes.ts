@@ -0,0 +1,50 @@
+/**
+ * Static route values
+ *
+ * Helpers for values that Bun's router serves without a handler function
+ * (Response, HTML bundle, BunFile). Used by the route matcher and by
+ * `inject()`, which has no bundler and serves the unbundled HTML file of an
+ * HTML bundle.
+ *
+ * @module utils/StaticRoutes
+ */
+
+import type { HTMLBundle } from 'bun';
+import type { StaticRouteValue } from '../types/StaticRoute';
+
+/**
+ * Whether a route table value is served by Bun without a handler
+ */
+export function isStaticRouteValue(value: unknown): value is StaticRouteValue {
+  return value instanceof Response || value instanceof Blob || isHtmlBundle(value);
+}
+
+/**
+ * Whether a value is an HTML import (`import index from './index.html'`)
+ */
+export function isHtmlBundle(value: unknown): value is HTMLBundle {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Response) &&
+    typeof (value as HTMLBundle).index === 'string'
+  );
+}
+
+/**
+ * Creates the response of a static route for in-process dispatch
+ *
+ * @param value - Static route value
+ * @returns Response (a clone for Response values)
+ */
+export function createStaticResponse(value: StaticRouteValue): Response {
+  if (value instanceof Response) {
+    return value.clone();
+  }
+
+  if (value instanceof Blob) {
+    return new Response(value);
+  }
+
+  return new Response(Bun.file(value.index), { headers: { 'Content-Type': 'text/html;charset=utf-8' } });
+}
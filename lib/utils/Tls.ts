@@ -0,0 +1,124 @@
+/**
+ * TLS certificates and HTTPS redirects
+ *
+ * Reads the certificate files of `TlsOptions` into Bun's TLS configuration
+ * and builds the handlers of the companion HTTP listener.
+ *
+ * @module utils/Tls
+ */
+
+import type { TLSOptions } from 'bun';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TlsCertificateFiles, TlsOptions } from '../types/Tls';
+import { getRequestHostname } from './HostMatcher';
+
+/**
+ * ACME HTTP-01 challenge tokens (base64url)
+ */
+const ACME_TOKEN_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Path prefix of ACME HTTP-01 challenges
+ */
+export const ACME_CHALLENGE_PATH = '/.well-known/acme-challenge/';
+
+/**
+ * Checks that TLS options reference a complete set of certificate files
+ *
+ * @param options - TLS options
+ * @throws Error if a certificate, key or SNI server name is missing
+ */
+export function validateTlsOptions(options: TlsOptions): void {
+  const certificates = options.certificates ?? [];
+
+  if (!options.cert && certificates.length === 0) {
+    throw new Error('TLS options must define a certificate (cert and key) or SNI certificates');
+  }
+
+  if (!!options.cert !== !!options.key) {
+    throw new Error('TLS options must define both cert and key');
+  }
+
+  for (const certificate of certificates) {
+    if (!certificate.serverName || !certificate.cert || !certificate.key) {
+      throw new Error('SNI certificates must define serverName, cert and key');
+    }
+  }
+}
+
+/**
+ * Reads the certificate files into Bun's TLS configuration
+ *
+ * The default certificate comes first, followed by the SNI certificates.
+ *
+ * @param options - TLS options
+ * @returns TLS configuration for Bun.serve()
+ * @throws Error if a file cannot be read
+ */
+export function loadTlsCertificates(options: TlsOptions): TLSOptions[] {
+  const entries: TlsCertificateFiles[] = options.cert ? [options as TlsCertificateFiles] : [];
+
+  return [...entries, ...(options.certificates ?? [])].map(({ cert, key, passphrase, ca, serverName }) => ({
+    cert: fs.readFileSync(cert, 'utf8'),
+    key: fs.readFileSync(key, 'utf8'),
+    ...(passphrase && { passphrase }),
+    ...(ca && { ca: fs.readFileSync(ca, 'utf8') }),
+    ...(serverName && { serverName }),
+  }));
+}
+
+/**
+ * Returns the resolved paths of all certificate, key and CA files
+ *
+ * @param options - TLS options
+ * @returns Absolute file paths (deduplicated)
+ */
+export function getCertificateFiles(options: TlsOptions): string[] {
+  const files = [options, ...(options.certificates ?? [])].flatMap(({ cert, key, ca }) => [cert, key, ca]);
+
+  return Array.from(new Set(files.filter((file): file is string => !!file).map((file) => path.resolve(file))));
+}
+
+/**
+ * Creates the handler redirecting HTTP requests to HTTPS with 308
+ *
+ * @param getHttpsPort - Returns the port of the HTTPS listener (omitted from the URL when 443)
+ * @returns Bun-compatible handler
+ */
+export function createHttpsRedirect(getHttpsPort: () => number): (req: Request) => Response {
+  return (req) => {
+    const url = new URL(req.url);
+    const port = getHttpsPort();
+    const host = port === 443 ? getRequestHostname(req) : `${getRequestHostname(req)}:${port}`;
+
+    return new Response(null, {
+      status: 308,
+      headers: { Location: `https://${host}${url.pathname}${url.search}` },
+    });
+  };
+}
+
+/**
+ * Creates the handler serving ACME HTTP-01 challenge files
+ *
+ * Tokens are restricted to base64url characters, so requests cannot reach
+ * files outside the challenge directory.
+ *
+ * @param directory - Directory containing one file per challenge token
+ * @returns Bun-compatible handler for `/.well-known/acme-challenge/:token`
+ */
+export function createAcmeChallengeHandler(
+  directory: string,
+): (req: Request & { params: { token: string } }) => Promise<Response> {
+  return async (req) => {
+    const { token } = req.params;
+    const file = Bun.file(path.join(directory, token));
+
+    if (!ACME_TOKEN_PATTERN.test(token) || !(await file.exists())) {
+      return new Response('Not Found', { status: 404 });
+    }
+
+    return new Response(file, { headers: { 'Content-Type': 'text/plain' } });
+  };
+}
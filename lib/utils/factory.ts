@@ -20,6 +20,12 @@
 import type { ServerLogger } from '@asenajs/asena/logger';
 import { ErgenecoreWebsocketAdapter } from '../ErgenecoreWebsocketAdapter';
 import { Ergenecore } from '../Ergenecore';
+import type { PathNormalizationOptions } from '../types/PathNormalization';
+import type { ShutdownSignalOptions } from '../types/Shutdown';
+import type { TlsOptions } from '../types/Tls';
+import type { HealthOptions } from '../types/Health';
+import type { ClusterOptions } from '../types/Cluster';
+import { attachClusterWorker, ClusterSupervisor, isClusterWorker } from './Cluster';
 
 /**
  * Configuration options for creating an Ergenecore adapter
@@ -54,11 +60,44 @@ export interface ErgenecoreOptions {
    * Only used if enableWebSocket is true
    */
   websocketAdapter?: ErgenecoreWebsocketAdapter;
+
+  /**
+   * Refuse to start when duplicate routes or parameter name conflicts are found
+   * @default false (conflicts are logged and the last registered route wins)
+   */
+  strictRouting?: boolean;
+
+  /**
+   * Trailing slash, case sensitivity and duplicate slash handling
+   * @default { trailingSlash: 'strict', caseSensitive: true, collapseSlashes: false }
+   */
+  pathNormalization?: PathNormalizationOptions;
+
+  /**
+   * Shut down gracefully on SIGTERM/SIGINT (`true` uses the default options)
+   * @default undefined (signals are not handled)
+   */
+  shutdownSignals?: boolean | ShutdownSignalOptions;
+
+  /**
+   * Serve over HTTPS with certificates read from files (reloaded when they change)
+   * @default undefined (plain HTTP)
+   */
+  tls?: TlsOptions;
+
+  /**
+   * Expose liveness and readiness endpoints (`true` uses the default paths)
+   * @default undefined (no health endpoints)
+   */
+  health?: boolean | HealthOptions;
 }
 
 /**
  * Creates a new Ergenecore adapter instance with optional configuration
  *
+ * In a cluster worker (see createErgenecoreCluster()), the adapter shares
+ * its port with the other workers and reports to the supervisor.
+ *
  * @param options - Configuration options
  * @returns Configured Ergenecore adapter instance
  *
@@ -83,10 +122,47 @@ export interface ErgenecoreOptions {
  * const adapter = createErgenecoreAdapter({
  *   enableWebSocket: false
  * });
+ *
+ * // Refuse to start on duplicate or ambiguous routes
+ * const adapter = createErgenecoreAdapter({
+ *   strictRouting: true
+ * });
+ *
+ * // Redirect /users/ to /users and match paths case-insensitively
+ * const adapter = createErgenecoreAdapter({
+ *   pathNormalization: { trailingSlash: 'redirect-308', caseSensitive: false }
+ * });
+ *
+ * // Drain requests and exit on SIGTERM/SIGINT
+ * const adapter = createErgenecoreAdapter({
+ *   shutdownSignals: { timeout: 25000 }
+ * });
+ *
+ * // HTTPS on 443 with a redirect listener on 80
+ * const adapter = createErgenecoreAdapter({
+ *   port: 443,
+ *   tls: { cert: './certs/site.crt', key: './certs/site.key', httpRedirect: true }
+ * });
+ *
+ * // Serve /health/live and /health/ready
+ * const adapter = createErgenecoreAdapter({
+ *   health: true
+ * });
  * ```
  */
 export function createErgenecoreAdapter(options: ErgenecoreOptions = {}): Ergenecore {
-  const { port = 3000, hostname, logger, enableWebSocket = true, websocketAdapter } = options;
+  const {
+    port = 3000,
+    hostname,
+    logger,
+    enableWebSocket = true,
+    websocketAdapter,
+    strictRouting = false,
+    pathNormalization,
+    shutdownSignals,
+    tls,
+    health,
+  } = options;
 
   // Create default logger if not provided
   const adapterLogger = logger || createDefaultLogger();
@@ -103,9 +179,68 @@ export function createErgenecoreAdapter(options: ErgenecoreOptions = {}): Ergene
     adapter.hostname = hostname;
   }
 
+  adapter.setStrictRouting(strictRouting);
+
+  if (pathNormalization) {
+    adapter.setPathNormalization(pathNormalization);
+  }
+
+  if (shutdownSignals) {
+    adapter.enableShutdownSignals(shutdownSignals === true ? {} : shutdownSignals);
+  }
+
+  if (tls) {
+    adapter.setTls(tls);
+  }
+
+  if (health) {
+    adapter.enableHealthChecks(health === true ? {} : health);
+  }
+
+  if (isClusterWorker()) {
+    attachClusterWorker(adapter);
+  }
+
   return adapter;
 }
 
+/**
+ * Creates a cluster supervisor running the application in several processes
+ *
+ * Call it in the primary process only (`isClusterWorker()` is false). Each
+ * worker runs the same entry script and creates its adapter with
+ * createErgenecoreAdapter(); the workers share the port with `reusePort`.
+ * Crashed workers are restarted with exponential backoff, and SIGTERM/SIGINT
+ * drain all workers before the supervisor exits.
+ *
+ * @param options - Cluster options
+ * @returns Supervisor (call start() to spawn the workers)
+ * @throws Error if called in a cluster worker
+ *
+ * @example
+ * ```typescript
+ * if (isClusterWorker()) {
+ *   const adapter = createErgenecoreAdapter({ port: 3000 });
+ *   // ... register routes
+ *   await adapter.start();
+ * } else {
+ *   const cluster = createErgenecoreCluster({ workers: 4 });
+ *
+ *   cluster.start();
+ *
+ *   // Later, e.g. after a deployment of new content
+ *   cluster.broadcast({ type: 'invalidate-cache' });
+ * }
+ * ```
+ */
+export function createErgenecoreCluster(options: ClusterOptions = {}): ClusterSupervisor {
+  if (isClusterWorker()) {
+    throw new Error('createErgenecoreCluster() must be called in the primary process');
+  }
+
+  return new ClusterSupervisor(options, options.logger || createDefaultLogger());
+}
+
 /**
  * Creates a default logger implementation
  *
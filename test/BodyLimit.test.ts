@@ -0,0 +1,119 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter, PayloadTooLargeException } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Body Limits', () => {
+  let adapter: Ergenecore;
+
+  const route = (path: string, handler: (ctx: Context) => any, extra: Record<string, any> = {}) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method: HttpMethod.POST,
+      path,
+      handler,
+      ...extra,
+    });
+  };
+
+  const post = (url: string, body: BodyInit, headers: Record<string, string> = {}) =>
+    adapter.inject({ method: 'POST', url, body, headers });
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  it('should accept bodies within the limit', async () => {
+    route('/login', async (ctx) => ctx.send(await ctx.getBody()), { bodyLimit: 1024 });
+
+    (await post('/login', JSON.stringify({ user: 'john' }))).expectStatus(200).expectJson({ user: 'john' });
+  });
+
+  it('should reject bodies declared larger than the limit with 413', async () => {
+    const handler = mock(async (ctx: Context) => ctx.send('never'));
+
+    route('/login', handler, { bodyLimit: 16 });
+
+    const res = await post('/login', 'x'.repeat(64), { 'Content-Length': '64' });
+
+    res.expectStatus(413).expectJson({ error: 'Payload Too Large', limit: 16 });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should enforce the limit while reading every body type', async () => {
+    const readers: Record<string, (ctx: Context) => Promise<unknown>> = {
+      body: (ctx) => ctx.getBody(),
+      parse: (ctx) => ctx.getParseBody(),
+      form: (ctx) => ctx.getFormData(),
+      buffer: (ctx) => ctx.getArrayBuffer(),
+      blob: (ctx) => ctx.getBlob(),
+    };
+
+    for (const [name, read] of Object.entries(readers)) {
+      route(`/${name}`, async (ctx) => ctx.send({ read: Boolean(await read(ctx)) }), { bodyLimit: 16 });
+    }
+
+    for (const name of Object.keys(readers)) {
+      const stream = new Blob([`a=${'x'.repeat(64)}`]).stream();
+
+      (await post(`/${name}`, stream, { 'Content-Type': 'application/x-www-form-urlencoded' })).expectStatus(413);
+    }
+  });
+
+  it('should apply controller limits unless the route overrides them', async () => {
+    route('/upload', async (ctx) => ctx.send({ size: (await ctx.getArrayBuffer()).byteLength }), {
+      controllerName: 'UploadController',
+      bodyLimit: 128,
+    });
+    route('/meta', async (ctx) => ctx.send(await ctx.getBody()), { controllerName: 'UploadController' });
+    adapter.configureController('UploadController', { bodyLimit: 8 });
+
+    (await post('/upload', 'x'.repeat(100))).expectStatus(200).expectJson({ size: 100 });
+    (await post('/meta', JSON.stringify({ name: 'report' }))).expectStatus(413);
+  });
+
+  it('should pass the exception to the error handler', async () => {
+    route('/login', async (ctx) => ctx.send(await ctx.getBody()), { bodyLimit: 4 });
+    adapter.onError((error, ctx) =>
+      ctx.send(
+        { tooLarge: error instanceof PayloadTooLargeException, limit: (error as PayloadTooLargeException).limit },
+        413,
+      ),
+    );
+
+    (await post('/login', JSON.stringify({ user: 'john' }))).expectStatus(413).expectJson({ tooLarge: true, limit: 4 });
+  });
+
+  it('should reject chunked uploads without Content-Length on a running server', async () => {
+    route('/upload', async (ctx) => ctx.send({ size: (await ctx.getArrayBuffer()).byteLength }), { bodyLimit: 1024 });
+
+    const server = await adapter.start();
+    const chunk = new Uint8Array(512);
+    const body = new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < 4; i++) controller.enqueue(chunk);
+        controller.close();
+      },
+    });
+
+    const res = await fetch(`http://localhost:${server.port}/upload`, { method: 'POST', body });
+
+    expect(res.status).toBe(413);
+  });
+});
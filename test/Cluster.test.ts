@@ -0,0 +1,235 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { ClusterSupervisor, createErgenecoreCluster, isClusterWorker } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+const FIXTURE_DIR = path.join(import.meta.dir, 'fixtures', 'cluster');
+const WORKER_FILE = path.join(FIXTURE_DIR, 'worker.ts');
+const LISTENERS_FILE = path.join(FIXTURE_DIR, 'listeners.ts');
+
+const WORKER_SOURCE = `
+import { createErgenecoreAdapter, getClusterWorkerId, onClusterMessage, sendToSupervisor } from '../../../lib';
+import { HttpMethod } from '@asenajs/asena/web-types';
+
+const silent = { info: () => {}, error: () => {}, warn: () => {}, profile: () => () => {} };
+const adapter = createErgenecoreAdapter({ port: Number(process.env.CLUSTER_TEST_PORT), logger: silent });
+
+adapter.registerRoute({
+  staticServe: undefined,
+  validator: undefined,
+  middlewares: [],
+  method: HttpMethod.GET,
+  path: '/pid',
+  handler: async () => ({ pid: process.pid, worker: getClusterWorkerId() }),
+});
+
+adapter.registerRoute({
+  staticServe: undefined,
+  validator: undefined,
+  middlewares: [],
+  method: HttpMethod.GET,
+  path: '/slow',
+  handler: async () => {
+    await Bun.sleep(500);
+
+    return 'done';
+  },
+});
+
+onClusterMessage((message) => sendToSupervisor({ received: message, worker: getClusterWorkerId() }));
+
+await adapter.start();
+`;
+
+// Reports the process listeners added by attaching adapters to the worker
+const LISTENERS_SOURCE = `
+import { createErgenecoreAdapter, sendToSupervisor } from '../../../lib';
+import { attachClusterWorker } from '../../../lib/utils/Cluster';
+
+const silent = { info: () => {}, error: () => {}, warn: () => {}, profile: () => () => {} };
+const events = ['message', 'SIGINT', 'SIGTERM'];
+const count = () => events.map((event) => process.listenerCount(event));
+const before = count();
+const adapter = createErgenecoreAdapter({ logger: silent });
+
+attachClusterWorker(adapter);
+createErgenecoreAdapter({ logger: silent });
+
+const after = count();
+
+sendToSupervisor(Object.fromEntries(events.map((event, i) => [event, after[i] - before[i]])));
+`;
+
+/**
+ * Polls until the condition holds (fails after the timeout)
+ */
+const waitFor = async (condition: () => boolean, timeoutMs = 10000) => {
+  const deadline = Date.now() + timeoutMs;
+
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time');
+    }
+
+    await Bun.sleep(20);
+  }
+};
+
+describe('Cluster Mode', () => {
+  let cluster: ClusterSupervisor;
+  let port: number;
+  let messages: { message: any; workerId: number }[];
+
+  const allReady = () => cluster.getHealth().every((worker) => worker.status === 'ready');
+
+  beforeAll(() => {
+    fs.mkdirSync(FIXTURE_DIR, { recursive: true });
+    fs.writeFileSync(WORKER_FILE, WORKER_SOURCE);
+    fs.writeFileSync(LISTENERS_FILE, LISTENERS_SOURCE);
+  });
+
+  afterAll(() => {
+    fs.rmSync(FIXTURE_DIR, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    const probe = Bun.serve({ port: 0, fetch: () => new Response() });
+
+    port = probe.port;
+    probe.stop(true);
+    messages = [];
+
+    cluster = createErgenecoreCluster({
+      workers: 2,
+      cmd: [process.execPath, WORKER_FILE],
+      env: { CLUSTER_TEST_PORT: String(port) },
+      healthInterval: 50,
+      shutdownTimeout: 2000,
+      shutdownSignals: false,
+      onMessage: (message, workerId) => messages.push({ message, workerId }),
+      logger: mockLogger,
+    });
+  });
+
+  afterEach(async () => {
+    await cluster.shutdown();
+  });
+
+  it('should not consider the test process a worker', () => {
+    expect(isClusterWorker()).toBe(false);
+  });
+
+  it('should exit with a failure code when the signal shutdown fails', async () => {
+    const exit = spyOn(process, 'exit').mockImplementation((() => {}) as typeof process.exit);
+    const supervisor = new ClusterSupervisor({ workers: 0, shutdownSignals: ['SIGUSR2'] }, mockLogger);
+    const shutdown = spyOn(supervisor, 'shutdown').mockRejectedValue(new Error('boom'));
+
+    try {
+      supervisor.start();
+      process.emit('SIGUSR2');
+      await waitFor(() => exit.mock.calls.length > 0);
+
+      expect(exit).toHaveBeenCalledWith(1);
+    } finally {
+      exit.mockRestore();
+      shutdown.mockRestore();
+    }
+  });
+
+  it('should start workers sharing one port and collect their health', async () => {
+    cluster.start();
+    await waitFor(allReady);
+    await waitFor(() => cluster.getHealth().every((worker) => worker.lastHeartbeat !== undefined));
+
+    const health = cluster.getHealth();
+    const body = await (await fetch(`http://localhost:${port}/pid`)).json();
+
+    expect(health.map((worker) => worker.id)).toEqual([1, 2]);
+    expect(new Set(health.map((worker) => worker.pid)).size).toBe(2);
+    expect(health.every((worker) => worker.memoryUsage > 0 && worker.pendingRequests === 0)).toBe(true);
+    expect(health.map((worker) => worker.pid)).toContain(body.pid);
+  });
+
+  it('should restart crashed workers', async () => {
+    cluster.start();
+    await waitFor(allReady);
+
+    const crashed = cluster.getHealth()[0];
+
+    process.kill(crashed.pid, 'SIGKILL');
+    await waitFor(() => cluster.getHealth()[0].restarts === 1 && cluster.getHealth()[0].status === 'ready');
+
+    expect(cluster.getHealth()[0].pid).not.toBe(crashed.pid);
+    expect((await fetch(`http://localhost:${port}/pid`)).status).toBe(200);
+  });
+
+  it('should broadcast messages to every worker', async () => {
+    cluster.start();
+    await waitFor(allReady);
+
+    cluster.broadcast({ type: 'invalidate' });
+    await waitFor(() => messages.length === 2);
+
+    expect(messages.map(({ workerId }) => workerId).sort()).toEqual([1, 2]);
+    expect(messages[0].message.received).toEqual({ type: 'invalidate' });
+    expect(cluster.sendTo(3, 'unknown')).toBe(false);
+  });
+
+  it('should install one IPC and one listener per shutdown signal in a worker', async () => {
+    const reports: unknown[] = [];
+    const supervisor = createErgenecoreCluster({
+      workers: 1,
+      cmd: [process.execPath, LISTENERS_FILE],
+      shutdownSignals: false,
+      onMessage: (message) => reports.push(message),
+      logger: mockLogger,
+    });
+
+    try {
+      supervisor.start();
+      await waitFor(() => reports.length > 0);
+
+      expect(reports).toEqual([{ message: 1, SIGINT: 1, SIGTERM: 1 }]);
+    } finally {
+      await supervisor.shutdown(1000);
+    }
+  });
+
+  it('should drain in-flight requests when workers receive SIGINT', async () => {
+    cluster.start();
+    await waitFor(allReady);
+
+    const inFlight = fetch(`http://localhost:${port}/slow`);
+
+    await waitFor(() => cluster.getHealth().some((worker) => worker.pendingRequests > 0));
+
+    // As a Ctrl+C in a terminal, which reaches the whole process group
+    for (const { pid } of cluster.getHealth()) {
+      process.kill(pid, 'SIGINT');
+    }
+
+    const response = await inFlight;
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('done');
+  });
+
+  it('should drain and stop every worker on shutdown', async () => {
+    cluster.start();
+    await waitFor(allReady);
+
+    await cluster.shutdown();
+
+    expect(cluster.getHealth().every((worker) => worker.status === 'exited')).toBe(true);
+    await expect(fetch(`http://localhost:${port}/pid`)).rejects.toThrow();
+  });
+});
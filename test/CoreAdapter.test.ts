@@ -432,4 +432,77 @@ describe('CoreAdapter', () => {
       await adapter.stop();
     });
   });
+
+  describe('Route Introspection', () => {
+    const authMiddleware = { override: false, handle: async (_ctx: Context, next: () => Promise<void>) => next() };
+    const loggerMiddleware = { override: false, handle: async (_ctx: Context, next: () => Promise<void>) => next() };
+
+    it('should return an empty list when no routes are registered', () => {
+      expect(adapter.getRoutes()).toEqual([]);
+    });
+
+    it('should describe HTTP routes', () => {
+      adapter.use(loggerMiddleware, { include: ['/api/*'] });
+
+      adapter.registerRoute({
+        staticServe: undefined,
+        validator: { json: { handle: () => undefined, override: false } },
+        method: HttpMethod.POST,
+        path: '/api/users',
+        middlewares: [authMiddleware],
+        handler: async (ctx: Context) => ctx.send({}),
+        controllerName: 'UserController',
+        controllerBasePath: '/api/users',
+      });
+
+      adapter.registerRoute({
+        staticServe: undefined,
+        validator: undefined,
+        method: HttpMethod.GET,
+        path: '/health',
+        middlewares: [],
+        handler: async (ctx: Context) => ctx.send({}),
+        controllerName: 'HealthController',
+        controllerBasePath: '/health',
+      });
+
+      const [users, health] = adapter.getRoutes();
+
+      expect(users).toEqual({
+        type: 'http',
+        method: 'POST',
+        path: '/api/users',
+        controllerName: 'UserController',
+        controllerBasePath: '/api/users',
+        middlewares: [authMiddleware],
+        globalMiddlewares: [loggerMiddleware],
+        chain: [loggerMiddleware, authMiddleware],
+        hasValidator: true,
+        hasStaticServe: false,
+        fastPath: false,
+      });
+
+      expect(health.method).toBe('GET');
+      expect(health.globalMiddlewares).toEqual([]);
+      expect(health.fastPath).toBe(true);
+    });
+
+    it('should describe WebSocket routes', () => {
+      adapter['wsRouteQueue'].push({
+        path: 'chat',
+        middlewares: [authMiddleware],
+        websocketService: undefined,
+        controllerName: 'ChatSocket',
+      });
+
+      const [chat] = adapter.getRoutes();
+
+      expect(chat.type).toBe('websocket');
+      expect(chat.method).toBe('GET');
+      expect(chat.path).toBe('/chat');
+      expect(chat.controllerName).toBe('ChatSocket');
+      expect(chat.middlewares).toEqual([authMiddleware]);
+      expect(chat.fastPath).toBe(false);
+    });
+  });
 });
@@ -387,11 +387,13 @@ describe('CoreWebsocketAdapter - Connection Tracking & Heartbeat', () => {
         data: { path: 'chat', id: 'conn-1' },
         readyState: WebSocket.OPEN,
         ping: mock(() => {}),
+        close: mock((code: number, reason: string) => adapter.websocket.close(mockWs1, code, reason)),
       };
       const mockWs2: any = {
         data: { path: 'chat', id: 'conn-2' },
         readyState: WebSocket.OPEN,
         ping: mock(() => {}),
+        close: mock((code: number, reason: string) => adapter.websocket.close(mockWs2, code, reason)),
       };
 
       await adapter.websocket.open(mockWs1);
@@ -417,10 +419,12 @@ describe('CoreWebsocketAdapter - Connection Tracking & Heartbeat', () => {
       const mockWs1: any = {
         data: { path: 'chat', id: 'conn-1' },
         readyState: WebSocket.OPEN,
+        close: mock((code: number, reason: string) => adapter.websocket.close(mockWs1, code, reason)),
       };
       const mockWs2: any = {
         data: { path: 'chat', id: 'conn-2' },
         readyState: WebSocket.OPEN,
+        close: mock((code: number, reason: string) => adapter.websocket.close(mockWs2, code, reason)),
       };
 
       await adapter.websocket.open(mockWs1);
@@ -430,9 +434,35 @@ describe('CoreWebsocketAdapter - Connection Tracking & Heartbeat', () => {
 
       await adapter.shutdown();
 
+      expect(mockWs1.close).toHaveBeenCalledWith(1001, 'Server shutting down');
       expect(adapter['activeConnections'].size).toBe(0);
     });
 
+    it('should terminate connections that do not close before the timeout', async () => {
+      const mockService: Partial<AsenaWebSocketService<any>> = {
+        namespace: 'chat',
+        // @ts-ignore
+        onOpenInternal: mock(() => {}),
+      };
+
+      adapter.registerWebSocket(mockService as AsenaWebSocketService<any>);
+      adapter.prepareWebSocket();
+
+      const mockWs: any = {
+        data: { path: 'chat', id: 'conn-1' },
+        readyState: WebSocket.OPEN,
+        close: mock(() => {}),
+        terminate: mock(() => {}),
+      };
+
+      await adapter.websocket.open(mockWs);
+      await adapter.shutdown(20);
+
+      expect(mockWs.terminate).toHaveBeenCalled();
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('terminating 1 connection(s)'));
+      expect(adapter.getConnectionCount('chat')).toBe(0);
+    });
+
     it('should log shutdown progress', async () => {
       await adapter.shutdown();
 
@@ -0,0 +1,163 @@
+import { describe, expect, it, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import type { AsenaWebSocketService } from '@asenajs/asena/web-socket';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Graceful Shutdown', () => {
+  let adapter: Ergenecore;
+
+  const route = (path: string, handler: (ctx: Context) => any) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method: HttpMethod.GET,
+      path,
+      handler,
+    });
+  };
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+    route('/fast', async (ctx) => ctx.send('fast'));
+    route('/slow', async (ctx) => {
+      await Bun.sleep(200);
+
+      return ctx.send('slow');
+    });
+    (mockLogger.warn as any).mockClear();
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  it('should let in-flight requests finish and answer new ones with 503', async () => {
+    const server = await adapter.start();
+    const url = `http://localhost:${server.port}`;
+
+    const inFlight = fetch(`${url}/slow`);
+
+    await Bun.sleep(50);
+
+    const shutdown = adapter.shutdown(2000);
+
+    await Bun.sleep(20);
+
+    const rejected = await fetch(`${url}/fast`);
+
+    expect(rejected.status).toBe(503);
+    expect(await rejected.json()).toEqual({ error: 'Service Unavailable' });
+
+    const response = await inFlight;
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('slow');
+
+    await shutdown;
+
+    await expect(fetch(`${url}/fast`)).rejects.toThrow();
+  });
+
+  it('should stop waiting for requests after the timeout', async () => {
+    const server = await adapter.start();
+
+    fetch(`http://localhost:${server.port}/slow`).catch(() => {});
+    await Bun.sleep(50);
+
+    const startTime = Date.now();
+
+    await adapter.shutdown(50);
+
+    expect(Date.now() - startTime).toBeLessThan(190);
+    expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('1 request(s) still in flight'));
+  });
+
+  it('should run shutdown hooks in order once', async () => {
+    const calls: string[] = [];
+
+    adapter.onShutdown(() => {
+      calls.push('first');
+    });
+    adapter.onShutdown(async () => {
+      throw new Error('boom');
+    });
+    adapter.onShutdown(async () => {
+      calls.push('third');
+    });
+
+    await adapter.start();
+    await Promise.all([adapter.shutdown(), adapter.shutdown()]);
+
+    expect(calls).toEqual(['first', 'third']);
+    expect(mockLogger.error).toHaveBeenCalledWith('Shutdown hook failed:', expect.any(Error));
+  });
+
+  it('should close WebSocket connections with 1001', async () => {
+    const chatService: Partial<AsenaWebSocketService<any>> = { namespace: 'chat' };
+
+    await adapter.registerWebsocketRoute({
+      path: 'chat',
+      middlewares: [],
+      websocketService: chatService as AsenaWebSocketService<any>,
+    });
+
+    const server = await adapter.start();
+    const ws = new WebSocket(`ws://localhost:${server.port}/chat`);
+
+    await new Promise((resolve) => (ws.onopen = resolve));
+
+    const closed = new Promise<CloseEvent>((resolve) => (ws.onclose = resolve));
+
+    await adapter.shutdown(1000);
+
+    const event = await closed;
+
+    expect(event.code).toBe(1001);
+    expect(event.reason).toBe('Server shutting down');
+  });
+
+  it('should shut down on process signals', async () => {
+    const hook = mock(() => {});
+
+    adapter.onShutdown(hook);
+    adapter.enableShutdownSignals({ signals: ['SIGUSR2'], exit: false });
+
+    expect(process.listenerCount('SIGUSR2')).toBeGreaterThan(0);
+
+    await adapter.start();
+    process.emit('SIGUSR2');
+    await adapter.shutdown();
+
+    expect(hook).toHaveBeenCalledTimes(1);
+    expect(adapter['signalListeners'].size).toBe(0);
+  });
+
+  it('should exit with a failure code when the signal shutdown fails', async () => {
+    const exit = spyOn(process, 'exit').mockImplementation((() => {}) as typeof process.exit);
+    const shutdown = spyOn(adapter, 'shutdown').mockRejectedValue(new Error('boom'));
+
+    try {
+      adapter.enableShutdownSignals({ signals: ['SIGUSR2'] });
+      process.emit('SIGUSR2');
+      await Bun.sleep(0);
+
+      expect(exit).toHaveBeenCalledTimes(1);
+      expect(exit).toHaveBeenCalledWith(1);
+    } finally {
+      exit.mockRestore();
+      shutdown.mockRestore();
+    }
+  });
+});
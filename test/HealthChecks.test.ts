@@ -0,0 +1,154 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context, HealthReport } from '../lib';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Health Checks', () => {
+  let adapter: Ergenecore;
+
+  const route = (path: string, handler: (ctx: Context) => any = async () => 'ok') => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method: HttpMethod.GET,
+      path,
+      handler,
+    });
+  };
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+    adapter.enableHealthChecks();
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  it('should report not ready until the server has started', async () => {
+    adapter.addHealthCheck('cache', () => true);
+
+    const before = await adapter.inject({ url: '/health/ready' });
+
+    before.expectStatus(503).expectHeader('Cache-Control', 'no-store');
+    expect(before.json<HealthReport>().server.ready).toBe(false);
+    expect(before.json<HealthReport>().checks.cache.status).toBe('up');
+
+    const server = await adapter.start();
+    const response = await fetch(`http://localhost:${server.port}/health/ready`);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.status).toBe('up');
+    expect(body.server).toMatchObject({ ready: true, shuttingDown: false, websocketConnections: 0 });
+    expect(body.checks.cache.latency).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should report each failing check with its reason', async () => {
+    adapter.addHealthCheck('database', async () => ({ pool: 4 }));
+    adapter.addHealthCheck('queue', () => false);
+    adapter.addHealthCheck('search', () => {
+      throw new Error('Connection refused');
+    });
+    adapter.addHealthCheck('mailer', () => Bun.sleep(200), { timeout: 20 });
+    await adapter.start();
+
+    const response = await adapter.inject({ url: '/health/ready' });
+    const { checks } = response.json();
+
+    response.expectStatus(503);
+    expect(checks.database).toMatchObject({ status: 'up', details: { pool: 4 } });
+    expect(checks.queue).toMatchObject({ status: 'down', error: 'Check returned false' });
+    expect(checks.search).toMatchObject({ status: 'down', error: 'Connection refused' });
+    expect(checks.mailer).toMatchObject({ status: 'down', error: 'Timed out after 20ms' });
+    expect(checks.mailer.latency).toBeLessThan(200);
+  });
+
+  it('should only run liveness checks on the liveness endpoint', async () => {
+    const database = mock(() => false);
+
+    adapter.addHealthCheck('database', database);
+    adapter.addHealthCheck('event-loop', () => true, { liveness: true });
+    await adapter.start();
+
+    const response = await adapter.inject({ url: '/health/live' });
+
+    response.expectStatus(200);
+    expect(Object.keys(response.json<HealthReport>().checks)).toEqual(['event-loop']);
+    expect(database).not.toHaveBeenCalled();
+    (await adapter.inject({ url: '/health/ready' })).expectStatus(503);
+  });
+
+  it('should report not ready while shutting down', async () => {
+    let release!: () => void;
+
+    route('/slow', () => new Promise<string>((resolve) => (release = () => resolve('done'))));
+
+    const server = await adapter.start();
+    const base = `http://localhost:${server.port}`;
+    const slow = fetch(`${base}/slow`);
+
+    while (!release) {
+      await Bun.sleep(5);
+    }
+
+    const shutdown = adapter.shutdown(2000);
+    const ready = await fetch(`${base}/health/ready`);
+    const live = await fetch(`${base}/health/live`);
+
+    expect(ready.status).toBe(503);
+    expect((await ready.json()).server).toMatchObject({ ready: false, shuttingDown: true });
+    expect(live.status).toBe(200);
+    expect((await live.json()).server.pendingRequests).toBeGreaterThanOrEqual(1);
+    expect((await fetch(`${base}/users`)).status).toBe(503);
+
+    release();
+    expect(await (await slow).text()).toBe('done');
+    await shutdown;
+  });
+
+  it('should serve custom paths and reject colliding routes', async () => {
+    adapter.enableHealthChecks({ livePath: '/livez', readyPath: '/readyz' });
+    route('/health/ready');
+    await adapter.start();
+
+    const live = await adapter.inject({ url: '/livez' });
+
+    live.expectStatus(200);
+    expect(live.json()).toMatchObject({ status: 'up', checks: {} });
+    (await adapter.inject({ url: '/health/ready' })).expectStatus(200).expectBody('ok');
+
+    const colliding = new Ergenecore(mockLogger);
+
+    colliding.enableHealthChecks();
+    colliding.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method: HttpMethod.GET,
+      path: '/health/live',
+      handler: async () => 'ok',
+    });
+
+    await expect(colliding.inject({ url: '/health/live' })).rejects.toThrow('Route collision detected');
+  });
+
+  it('should reject duplicate check names', () => {
+    adapter.addHealthCheck('database', () => true);
+
+    expect(() => adapter.addHealthCheck('database', () => true)).toThrow('already registered');
+    expect(adapter.removeHealthCheck('database')).toBe(true);
+    expect(adapter.removeHealthCheck('database')).toBe(false);
+  });
+});
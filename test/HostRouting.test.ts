@@ -0,0 +1,188 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+import { HostPattern } from '../lib/utils/HostMatcher';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Host Routing', () => {
+  let adapter: Ergenecore;
+
+  const route = (path: string, handler: (ctx: Context) => any, extra: Record<string, any> = {}) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method: HttpMethod.GET,
+      path,
+      handler,
+      ...extra,
+    });
+  };
+
+  const get = (host: string, path: string) => adapter.inject({ url: `http://${host}${path}` });
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  describe('HostPattern', () => {
+    it('should match exact, wildcard and param patterns', () => {
+      expect(new HostPattern('api.example.com').match('API.example.com')).toEqual({});
+      expect(new HostPattern('*.example.com').match('shop.example.com')).toEqual({});
+      expect(new HostPattern('*.example.com').match('example.com')).toBeNull();
+      expect(new HostPattern(':tenant.example.com').match('acme.example.com')).toEqual({ tenant: 'acme' });
+      expect(new HostPattern(':tenant.example.com').match('a.b.example.com')).toBeNull();
+    });
+
+    it('should order patterns from most to least specific', () => {
+      const patterns = ['*.example.com', ':tenant.example.com', 'api.example.com'].map((p) => new HostPattern(p));
+
+      expect(patterns.sort(HostPattern.compare).map((p) => p.pattern)).toEqual([
+        'api.example.com',
+        ':tenant.example.com',
+        '*.example.com',
+      ]);
+    });
+  });
+
+  describe('Route scoping', () => {
+    it('should dispatch the same path by host', async () => {
+      route('/', async (ctx) => ctx.send('api'), { host: 'api.example.com' });
+      route('/', async (ctx) => ctx.send('admin'), { host: 'admin.example.com' });
+      route('/', async (ctx) => ctx.send('default'));
+
+      expect((await get('api.example.com', '/')).text()).toBe('api');
+      expect((await get('admin.example.com:8080', '/')).text()).toBe('admin');
+      expect((await get('other.com', '/')).text()).toBe('default');
+    });
+
+    it('should return 404 for other hosts without an unscoped route', async () => {
+      route('/dashboard', async (ctx) => ctx.send('admin'), { host: 'admin.example.com' });
+
+      (await get('api.example.com', '/dashboard')).expectStatus(404);
+    });
+
+    it('should prefer exact hosts over params and wildcards', async () => {
+      route('/', async (ctx) => ctx.send('wildcard'), { host: '*.example.com' });
+      route('/', async (ctx) => ctx.send(`tenant ${ctx.getHostParam('tenant')}`), { host: ':tenant.example.com' });
+      route('/', async (ctx) => ctx.send('www'), { host: 'www.example.com' });
+
+      expect((await get('www.example.com', '/')).text()).toBe('www');
+      expect((await get('acme.example.com', '/')).text()).toBe('tenant acme');
+    });
+
+    it('should expose host params alongside path params', async () => {
+      route(
+        '/projects/:id',
+        async (ctx) =>
+          ctx.send({ tenant: ctx.getHostParam('tenant'), id: ctx.getParam('id'), missing: ctx.getHostParam('x') }),
+        { host: ':tenant.example.com', middlewares: [{ override: false, handle: async (_ctx, next) => next() }] },
+      );
+
+      (await get('acme.example.com', '/projects/7')).expectJson({ tenant: 'acme', id: '7', missing: '' });
+    });
+
+    it('should scope all routes of a configured controller', async () => {
+      route('/users', async (ctx) => ctx.send('admin users'), { controllerName: 'AdminController' });
+      route('/users', async (ctx) => ctx.send('route host'), {
+        controllerName: 'AdminController',
+        host: 'ops.example.com',
+      });
+      adapter.configureController('AdminController', { host: 'admin.example.com' });
+
+      expect((await get('admin.example.com', '/users')).text()).toBe('admin users');
+      expect((await get('ops.example.com', '/users')).text()).toBe('route host');
+      (await get('example.com', '/users')).expectStatus(404);
+      expect(adapter.getRoutes().map((r) => r.host)).toEqual(['admin.example.com', 'ops.example.com']);
+    });
+
+    it('should not report routes on different hosts as duplicates', async () => {
+      const errorSpy = mockLogger.error as ReturnType<typeof mock>;
+
+      errorSpy.mockClear();
+      route('/', async (ctx) => ctx.send('a'), { host: 'a.example.com' });
+      route('/', async (ctx) => ctx.send('b'), { host: 'b.example.com' });
+
+      await get('a.example.com', '/');
+
+      expect(errorSpy).not.toHaveBeenCalled();
+    });
+
+    it('should only remove the route of the given host', async () => {
+      route('/users', async (ctx) => ctx.send('a'), { host: 'a.example.com' });
+      route('/users', async (ctx) => ctx.send('b'), { host: 'b.example.com' });
+
+      expect(adapter.removeRoute('GET', '/users')).toBe(false);
+      expect(adapter.removeRoute('GET', '/users', 'a.example.com')).toBe(true);
+
+      (await get('a.example.com', '/users')).expectStatus(404);
+      (await get('b.example.com', '/users')).expectStatus(200).expectBody('b');
+    });
+
+    it('should dispatch by host on a running server', async () => {
+      route('/', async (ctx) => ctx.send('localhost'), { host: 'localhost' });
+
+      const server = await adapter.start();
+
+      expect(await (await fetch(`http://localhost:${server.port}/`)).text()).toBe('localhost');
+      expect((await fetch(`http://127.0.0.1:${server.port}/`)).status).toBe(404);
+    });
+  });
+
+  describe('Global middleware host patterns', () => {
+    const tagMiddleware = (tag: string) => ({
+      override: false,
+      handle: async (ctx: Context, next: () => Promise<void>) => {
+        ctx.setResponseHeader('X-Tag', tag);
+        await next();
+      },
+    });
+
+    it('should apply middlewares included by host', async () => {
+      route('/api/users', async (ctx) => ctx.send('users'));
+      adapter.use(tagMiddleware('admin'), { include: ['admin.example.com/api/*'] });
+
+      expect((await get('admin.example.com', '/api/users')).headers.get('X-Tag')).toBe('admin');
+      expect((await get('api.example.com', '/api/users')).headers.get('X-Tag')).toBeNull();
+    });
+
+    it('should skip middlewares excluded by host', async () => {
+      route('/api/users', async (ctx) => ctx.send('users'));
+      adapter.use(tagMiddleware('public'), { exclude: ['*.internal.example.com'] });
+
+      expect((await get('api.example.com', '/api/users')).headers.get('X-Tag')).toBe('public');
+      expect((await get('db.internal.example.com', '/api/users')).headers.get('X-Tag')).toBeNull();
+    });
+
+    it('should combine host and path-only patterns', async () => {
+      route('/health', async (ctx) => ctx.send('ok'));
+      adapter.use(tagMiddleware('tenant'), { include: [':tenant.example.com'], exclude: ['/health'] });
+
+      expect(adapter['isFastPathRoute'](adapter['routeQueue'][0])).toBe(true);
+      expect((await get('acme.example.com', '/health')).headers.get('X-Tag')).toBeNull();
+    });
+
+    it('should list the original middleware in route introspection', () => {
+      const middleware = tagMiddleware('admin');
+
+      route('/api/users', async (ctx) => ctx.send('users'));
+      adapter.use(middleware, { include: ['admin.example.com/api/*'] });
+
+      expect(adapter.getRoutes()[0].globalMiddlewares).toEqual([middleware]);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+import type { Server } from 'bun';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+// Let the batched reload microtask run
+const flushReload = () => Bun.sleep(0);
+
+describe('Hot Route Reloading', () => {
+  let adapter: Ergenecore;
+  let server: Server<any>;
+  let baseUrl: string;
+
+  const route = (method: HttpMethod, path: string, handler: (ctx: Context) => any) => ({
+    staticServe: undefined,
+    validator: undefined,
+    middlewares: [],
+    method,
+    path,
+    handler,
+  });
+
+  beforeEach(async () => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+    adapter.registerRoute(route(HttpMethod.GET, '/initial', async (ctx) => ctx.send('initial')));
+
+    server = await adapter.start();
+    baseUrl = `http://localhost:${server.port}`;
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  it('should serve routes registered after start', async () => {
+    expect((await fetch(`${baseUrl}/added`)).status).toBe(404);
+
+    adapter.registerRoute(route(HttpMethod.GET, '/added', async (ctx) => ctx.send('added')));
+    await flushReload();
+
+    const response = await fetch(`${baseUrl}/added`);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('added');
+  });
+
+  it('should replace an existing route', async () => {
+    adapter.replaceRoute(route(HttpMethod.GET, '/initial', async (ctx) => ctx.send('replaced')));
+    await flushReload();
+
+    expect(await (await fetch(`${baseUrl}/initial`)).text()).toBe('replaced');
+    expect(adapter['routeQueue'].length).toBe(1);
+  });
+
+  it('should remove a route', async () => {
+    expect(adapter.removeRoute('GET', '/initial')).toBe(true);
+    await flushReload();
+
+    expect((await fetch(`${baseUrl}/initial`)).status).toBe(404);
+  });
+
+  it('should return false when removing an unknown route', () => {
+    expect(adapter.removeRoute('GET', '/unknown')).toBe(false);
+    expect(adapter.removeRoute('POST', '/initial')).toBe(false);
+  });
+
+  it('should add and remove global middlewares', async () => {
+    const middleware = {
+      override: false,
+      handle: async (ctx: Context, next: () => Promise<void>) => {
+        ctx.setResponseHeader('X-Plugin', 'loaded');
+        await next();
+      },
+    };
+
+    adapter.use(middleware);
+    await flushReload();
+    expect((await fetch(`${baseUrl}/initial`)).headers.get('X-Plugin')).toBe('loaded');
+
+    expect(adapter.removeMiddleware(middleware)).toBe(true);
+    await flushReload();
+    expect((await fetch(`${baseUrl}/initial`)).headers.get('X-Plugin')).toBeNull();
+  });
+
+  it('should batch multiple changes into a single reload', async () => {
+    const reloadSpy = mock(adapter.reload.bind(adapter));
+
+    adapter.reload = reloadSpy;
+
+    adapter.registerRoute(route(HttpMethod.GET, '/a', async (ctx) => ctx.send('a')));
+    adapter.registerRoute(route(HttpMethod.GET, '/b', async (ctx) => ctx.send('b')));
+    await flushReload();
+
+    expect(reloadSpy).toHaveBeenCalledTimes(1);
+    expect((await fetch(`${baseUrl}/b`)).status).toBe(200);
+  });
+
+  it('should not interrupt in-flight requests', async () => {
+    adapter.registerRoute(
+      route(HttpMethod.GET, '/slow', async (ctx) => {
+        await Bun.sleep(50);
+
+        return ctx.send('slow done');
+      }),
+    );
+    await flushReload();
+
+    const pending = fetch(`${baseUrl}/slow`);
+
+    await Bun.sleep(10);
+    adapter.removeRoute('GET', '/slow');
+    await flushReload();
+
+    const response = await pending;
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('slow done');
+  });
+
+  it('should log reload errors instead of throwing', async () => {
+    const errorSpy = mockLogger.error as ReturnType<typeof mock>;
+
+    errorSpy.mockClear();
+
+    adapter['wsRouteQueue'].push({ path: '/initial', middlewares: [], websocketService: undefined });
+    adapter.registerRoute(route(HttpMethod.GET, '/other', async (ctx) => ctx.send('other')));
+    await flushReload();
+
+    expect(errorSpy).toHaveBeenCalled();
+    expect(String(errorSpy.mock.calls[0][0])).toContain('Route reload failed');
+  });
+});
+
+describe('Ergenecore.reload()', () => {
+  it('should throw when the server is not started', async () => {
+    const adapter = new Ergenecore(mockLogger);
+
+    await expect(adapter.reload()).rejects.toThrow('Cannot reload routes before the server is started');
+  });
+});
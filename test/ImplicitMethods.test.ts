@@ -0,0 +1,221 @@
+import { describe, expect, it, beforeEach, afterEach, beforeAll, afterAll, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import { CorsMiddleware } from '../lib/defaults';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Implicit HEAD and OPTIONS handlers', () => {
+  let adapter: Ergenecore;
+
+  const route = (method: HttpMethod, path: string, handler: (ctx: Context) => any, extra: any = {}) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method,
+      path,
+      handler,
+      ...extra,
+    });
+  };
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  describe('HEAD', () => {
+    it('should answer HEAD with the GET headers and no body', async () => {
+      route(HttpMethod.GET, '/users', async (ctx) => {
+        ctx.setResponseHeader('X-Total', '2');
+
+        return ctx.send({ users: ['a', 'b'] });
+      });
+
+      const get = await adapter.inject({ url: '/users' });
+      const head = await adapter.inject({ method: 'HEAD', url: '/users' });
+
+      expect(head.status).toBe(200);
+      expect(head.text()).toBe('');
+      expect(head.headers.get('X-Total')).toBe('2');
+      expect(head.headers.get('Content-Type')).toBe(get.headers.get('Content-Type'));
+      // inject() does not read the GET body, so its length is unknown
+      expect(head.headers.get('Content-Length')).toBeNull();
+    });
+
+    it('should report the Content-Length set by the GET handler from a running server', async () => {
+      route(HttpMethod.GET, '/data', async () => new Response('hello world', { headers: { 'Content-Length': '11' } }));
+
+      const server = await adapter.start();
+      const response = await fetch(`http://localhost:${server.port}/data`, { method: 'HEAD' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Length')).toBe('11');
+      expect(await response.text()).toBe('');
+    });
+
+    it('should report the Content-Length of a serialized JSON body from a running server', async () => {
+      route(HttpMethod.GET, '/users', async (ctx) => ctx.send({ users: ['a', 'b'] }));
+
+      const server = await adapter.start();
+      const get = await fetch(`http://localhost:${server.port}/users`);
+      const head = await fetch(`http://localhost:${server.port}/users`, { method: 'HEAD' });
+      const body = await get.text();
+
+      expect(head.status).toBe(200);
+      expect(head.headers.get('Content-Type')).toBe(get.headers.get('Content-Type'));
+      expect(head.headers.get('Content-Length')).toBe(String(body.length));
+      expect(Number(head.headers.get('Content-Length'))).toBeGreaterThan(0);
+      expect(await head.text()).toBe('');
+    });
+
+    it('should answer HEAD for an endless streaming route without reading the stream', async () => {
+      const cancelled = mock(() => {});
+
+      route(HttpMethod.GET, '/events', async () => {
+        return new Response(
+          new ReadableStream({
+            pull: (controller) => Bun.sleep(10).then(() => controller.enqueue('data: tick\n\n')),
+            cancel: cancelled,
+          }),
+          { headers: { 'Content-Type': 'text/event-stream' } },
+        );
+      });
+
+      const server = await adapter.start();
+      const response = await fetch(`http://localhost:${server.port}/events`, {
+        method: 'HEAD',
+        signal: AbortSignal.timeout(1000),
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(await response.text()).toBe('');
+      expect(cancelled).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep an explicitly registered HEAD route', async () => {
+      route(HttpMethod.GET, '/custom', async (ctx) => ctx.send('get'));
+      route(HttpMethod.HEAD, '/custom', async () => new Response(null, { headers: { 'X-Custom-Head': 'yes' } }));
+
+      const res = await adapter.inject({ method: 'HEAD', url: '/custom' });
+
+      expect(res.headers.get('X-Custom-Head')).toBe('yes');
+    });
+
+    it('should not synthesize HEAD for WebSocket paths', async () => {
+      adapter['wsRouteQueue'].push({ path: '/chat', middlewares: [], websocketService: undefined });
+
+      const res = await adapter.inject({ method: 'HEAD', url: '/chat' });
+
+      expect(res.status).toBe(405);
+      expect(res.headers.get('Allow')).toBe('GET, OPTIONS');
+    });
+  });
+
+  describe('OPTIONS', () => {
+    it('should answer OPTIONS with 204 and an Allow header', async () => {
+      route(HttpMethod.GET, '/items', async (ctx) => ctx.send([]));
+      route(HttpMethod.POST, '/items', async (ctx) => ctx.send({}, 201));
+
+      const res = await adapter.inject({ method: 'OPTIONS', url: '/items' });
+
+      res.expectStatus(204).expectHeader('Allow', 'GET, HEAD, POST, OPTIONS').expectBody('');
+    });
+
+    it('should keep an explicitly registered OPTIONS route', async () => {
+      route(HttpMethod.GET, '/items', async (ctx) => ctx.send([]));
+      route(HttpMethod.OPTIONS, '/items', async (ctx) => ctx.send({ custom: true }));
+
+      (await adapter.inject({ method: 'OPTIONS', url: '/items' })).expectStatus(200).expectJson({ custom: true });
+    });
+
+    it('should use the route methods for CORS preflight when methods are not configured', async () => {
+      route(HttpMethod.GET, '/cors', async (ctx) => ctx.send([]));
+      route(HttpMethod.DELETE, '/cors', async (ctx) => ctx.send({}));
+      adapter.use(new CorsMiddleware());
+
+      const res = await adapter.inject({
+        method: 'OPTIONS',
+        url: '/cors',
+        headers: { Origin: 'https://example.com' },
+      });
+
+      res.expectStatus(204).expectHeader('Access-Control-Allow-Methods', 'GET, HEAD, DELETE, OPTIONS');
+    });
+
+    it('should keep configured CORS methods for preflight', async () => {
+      route(HttpMethod.GET, '/cors', async (ctx) => ctx.send([]));
+      adapter.use(new CorsMiddleware({ methods: ['GET', 'POST'] }));
+
+      const res = await adapter.inject({
+        method: 'OPTIONS',
+        url: '/cors',
+        headers: { Origin: 'https://example.com' },
+      });
+
+      res.expectStatus(204).expectHeader('Access-Control-Allow-Methods', 'GET, POST');
+    });
+  });
+});
+
+describe('Implicit HEAD for static files', () => {
+  let adapter: Ergenecore;
+  let baseUrl: string;
+  const STATIC_DIR = path.join(import.meta.dir, 'fixtures', 'static-head');
+  const CONTENT = 'Static content for HEAD requests';
+
+  beforeAll(async () => {
+    fs.mkdirSync(STATIC_DIR, { recursive: true });
+    fs.writeFileSync(path.join(STATIC_DIR, 'file.txt'), CONTENT);
+
+    adapter = new Ergenecore(mockLogger);
+    adapter.registerRoute({
+      method: HttpMethod.GET,
+      path: '/files/*',
+      middlewares: [],
+      handler: async (ctx) => ctx.send({ error: 'Should not reach here' }),
+      staticServe: {
+        root: STATIC_DIR,
+        extra: {},
+        rewriteRequestPath: (path: string) => path.replace('/files', ''),
+      },
+      validator: {} as any,
+    });
+
+    const server = await adapter.start(0);
+
+    baseUrl = `http://localhost:${server.port}`;
+  });
+
+  afterAll(async () => {
+    await adapter.stop();
+
+    if (fs.existsSync(STATIC_DIR)) {
+      fs.rmSync(STATIC_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should report the file size without sending the file', async () => {
+    const response = await fetch(`${baseUrl}/files/file.txt`, { method: 'HEAD' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Length')).toBe(String(CONTENT.length));
+    expect(await response.text()).toBe('');
+  });
+});
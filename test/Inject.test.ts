@@ -0,0 +1,198 @@
+import { describe, expect, it, beforeEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter, HttpException } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+import { z } from 'zod';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Ergenecore.inject()', () => {
+  let adapter: Ergenecore;
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+  });
+
+  const route = (method: HttpMethod, path: string, handler: (ctx: Context) => any, extra: any = {}) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method,
+      path,
+      handler,
+      ...extra,
+    });
+  };
+
+  it('should dispatch a request without starting a server', async () => {
+    route(HttpMethod.GET, '/hello', async (ctx) => ctx.send({ message: 'hi' }));
+
+    const res = await adapter.inject({ url: '/hello' });
+
+    res
+      .expectStatus(200)
+      .expectHeader('content-type', /application\/json/)
+      .expectJson({ message: 'hi' });
+    expect(adapter['server']).toBeUndefined();
+  });
+
+  it('should accept a native Request', async () => {
+    route(HttpMethod.GET, '/native', async (ctx) => ctx.send('native'));
+
+    const res = await adapter.inject(new Request('http://localhost/native'));
+
+    expect(res.status).toBe(200);
+    expect(res.text()).toBe('native');
+  });
+
+  it('should extract route params and query', async () => {
+    route(HttpMethod.GET, '/users/:id', async (ctx) =>
+      ctx.send({ id: ctx.getParam('id'), expand: await ctx.getQuery('expand') }),
+    );
+
+    const res = await adapter.inject({ url: '/users/42', query: { expand: 'posts' } });
+
+    res.expectStatus(200).expectJson({ id: '42', expand: 'posts' });
+  });
+
+  it('should prefer static segments over params and params over wildcards', async () => {
+    route(HttpMethod.GET, '/files/*', async (ctx) => ctx.send('wildcard'));
+    route(HttpMethod.GET, '/files/:name', async (ctx) => ctx.send('param'));
+    route(HttpMethod.GET, '/files/readme', async (ctx) => ctx.send('static'));
+
+    expect((await adapter.inject({ url: '/files/readme' })).text()).toBe('static');
+    expect((await adapter.inject({ url: '/files/other' })).text()).toBe('param');
+    expect((await adapter.inject({ url: '/files/a/b' })).text()).toBe('wildcard');
+  });
+
+  it('should match wildcards like the running server', async () => {
+    route(HttpMethod.GET, '/api/*', async (ctx) => ctx.send('api'));
+
+    const server = await adapter.start(0);
+
+    try {
+      for (const url of ['/api', '/api/', '/api/users', '/apix']) {
+        const live = await fetch(`http://localhost:${server.port}${url}`);
+        const injected = await adapter.inject({ url });
+
+        expect(`${url} ${injected.status}`).toBe(`${url} ${live.status}`);
+      }
+
+      (await adapter.inject({ url: '/api' })).expectStatus(404);
+    } finally {
+      await adapter.stop();
+    }
+  });
+
+  it('should encode object bodies as JSON', async () => {
+    route(HttpMethod.POST, '/users', async (ctx) => ctx.send({ created: await ctx.getBody() }, 201));
+
+    const res = await adapter.inject({ method: 'POST', url: '/users', body: { name: 'John' } });
+
+    res.expectStatus(201).expectJson({ created: { name: 'John' } });
+  });
+
+  it('should return 404 for unknown routes', async () => {
+    const res = await adapter.inject({ url: '/missing' });
+
+    res.expectStatus(404).expectJson({ error: 'Not Found' });
+  });
+
+  it('should run global middlewares', async () => {
+    adapter.use({
+      override: false,
+      handle: async (ctx: Context, next: () => Promise<void>) => {
+        ctx.setResponseHeader('X-Global', 'yes');
+        await next();
+      },
+    });
+    route(HttpMethod.GET, '/mw', async (ctx) => ctx.send({ ok: true }));
+
+    const res = await adapter.inject({ url: '/mw' });
+
+    res.expectStatus(200).expectHeader('x-global', 'yes');
+  });
+
+  it('should run validators', async () => {
+    route(HttpMethod.POST, '/validated', async (ctx) => ctx.send({ ok: true }), {
+      validator: {
+        json: { handle: () => z.object({ name: z.string() }), override: false },
+      },
+    });
+
+    const res = await adapter.inject({ method: 'POST', url: '/validated', body: { name: 1 } });
+
+    res.expectStatus(400);
+    expect(res.json<{ error: string }>().error).toBe('Validation failed');
+  });
+
+  it('should use the registered error handler', async () => {
+    adapter.onError((error) => new Response(`handled: ${error.message}`, { status: 418 }));
+    route(HttpMethod.GET, '/boom', async () => {
+      throw new Error('boom');
+    });
+
+    const res = await adapter.inject({ url: '/boom' });
+
+    res.expectStatus(418).expectBody('handled: boom');
+  });
+
+  it('should convert HttpException to response', async () => {
+    route(HttpMethod.GET, '/secret', async () => {
+      throw new HttpException(401, { error: 'Unauthorized' });
+    });
+
+    (await adapter.inject({ url: '/secret' })).expectStatus(401).expectJson({ error: 'Unauthorized' });
+  });
+
+  it('should support cookies', async () => {
+    route(HttpMethod.GET, '/cookie', async (ctx) => {
+      const current = await ctx.getCookie('session');
+
+      await ctx.setCookie('visited', 'true');
+
+      return ctx.send({ session: current });
+    });
+
+    const res = await adapter.inject({ url: '/cookie', headers: { Cookie: 'session=abc' } });
+
+    res.expectStatus(200).expectJson({ session: 'abc' });
+    expect(res.headers.get('set-cookie')).toContain('visited=true');
+  });
+
+  it('should strip the body for HEAD requests', async () => {
+    route(HttpMethod.GET, '/head', async (ctx) => ctx.send({ ok: true }));
+
+    const res = await adapter.inject({ method: 'HEAD', url: '/head' });
+
+    expect(res.status).toBe(200);
+    expect(res.text()).toBe('');
+  });
+
+  it('should pick up routes registered after a previous inject', async () => {
+    route(HttpMethod.GET, '/first', async (ctx) => ctx.send('first'));
+    await adapter.inject({ url: '/first' });
+
+    route(HttpMethod.GET, '/second', async (ctx) => ctx.send('second'));
+
+    (await adapter.inject({ url: '/second' })).expectStatus(200).expectBody('second');
+  });
+
+  it('should throw descriptive errors from failed assertions', async () => {
+    route(HttpMethod.GET, '/json', async (ctx) => ctx.send({ a: 1 }));
+
+    const res = await adapter.inject({ url: '/json' });
+
+    expect(() => res.expectStatus(201)).toThrow('Expected status 201 but received 200');
+    expect(() => res.expectHeader('x-missing')).toThrow('Expected header "x-missing" to be present');
+    expect(() => res.expectJson({ a: 2 })).toThrow('Expected JSON body');
+  });
+});
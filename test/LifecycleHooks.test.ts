@@ -0,0 +1,225 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Lifecycle Hooks', () => {
+  let adapter: Ergenecore;
+
+  const route = (path: string, handler: (ctx: Context) => any, extra: Record<string, any> = {}) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method: HttpMethod.GET,
+      path,
+      handler,
+      ...extra,
+    });
+  };
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  describe('Request hooks', () => {
+    it('should run hooks in pipeline order around middlewares and the handler', async () => {
+      const calls: string[] = [];
+      const track = (name: string) => () => {
+        calls.push(name);
+      };
+
+      route(
+        '/users',
+        async (ctx) => {
+          calls.push('handler');
+
+          return ctx.send('users');
+        },
+        {
+          middlewares: [
+            {
+              override: false,
+              handle: async (_ctx: Context, next: () => Promise<void>) => {
+                calls.push('middleware');
+                await next();
+              },
+            },
+          ],
+        },
+      );
+      adapter.addHook('onRequest', track('onRequest'));
+      adapter.addHook('preValidation', track('preValidation'));
+      adapter.addHook('preHandler', track('preHandler'));
+      adapter.addHook('onSend', track('onSend'));
+
+      await adapter.inject({ url: '/users' });
+
+      expect(calls).toEqual(['onRequest', 'middleware', 'preValidation', 'preHandler', 'handler', 'onSend']);
+    });
+
+    it('should run hooks on fast path routes', async () => {
+      const calls: string[] = [];
+
+      route('/health', async (ctx) => ctx.send({ ok: ctx.getValue('checked') }));
+      adapter.addHook('preHandler', (ctx) => {
+        calls.push('preHandler');
+        ctx.setValue('checked', true);
+      });
+
+      expect(adapter['isFastPathRoute'](adapter['routeQueue'][0])).toBe(true);
+      (await adapter.inject({ url: '/health' })).expectJson({ ok: true });
+      expect(calls).toEqual(['preHandler']);
+    });
+
+    it('should short-circuit when a request hook returns a Response', async () => {
+      const handler = mock(async (ctx: Context) => ctx.send('secret'));
+
+      route('/secret', handler);
+      adapter.addHook('onRequest', (ctx) => {
+        if (!ctx.req.headers.get('authorization')) {
+          return new Response('Unauthorized', { status: 401 });
+        }
+      });
+      adapter.addHook('onSend', (_ctx, response) => {
+        response.headers.set('X-Seen', 'true');
+      });
+
+      const res = await adapter.inject({ url: '/secret' });
+
+      res.expectStatus(401).expectHeader('X-Seen', 'true');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should let onSend replace middleware rejections and error responses', async () => {
+      route('/forbidden', async (ctx) => ctx.send('never'), {
+        middlewares: [{ override: false, handle: async () => false }],
+      });
+      route('/broken', async () => {
+        throw new Error('boom');
+      });
+      adapter.addHook('onSend', (_ctx, response) => {
+        if (response.status >= 400) {
+          return Response.json({ status: response.status }, { status: response.status });
+        }
+      });
+
+      (await adapter.inject({ url: '/forbidden' })).expectStatus(403).expectJson({ status: 403 });
+      (await adapter.inject({ url: '/broken' })).expectStatus(500).expectJson({ status: 500 });
+    });
+
+    it('should notify onError hooks before the error handler', async () => {
+      const errors: unknown[] = [];
+
+      route('/broken', async () => {
+        throw new Error('boom');
+      });
+      adapter.addHook('onError', (error) => {
+        errors.push(error);
+      });
+      adapter.onError((error, ctx) => ctx.send({ handled: error.message }, 500));
+
+      (await adapter.inject({ url: '/broken' })).expectJson({ handled: 'boom' });
+      expect((errors[0] as Error).message).toBe('boom');
+    });
+
+    it('should run onResponse hooks after the response', async () => {
+      const statuses: number[] = [];
+
+      route('/users', async (ctx) => ctx.send('users'));
+      adapter.addHook('onResponse', (_ctx, response) => {
+        statuses.push(response.status);
+      });
+
+      await adapter.inject({ url: '/users' });
+      await adapter.inject({ url: '/missing' });
+      await Bun.sleep(5);
+
+      expect(statuses).toEqual([200, 404]);
+    });
+
+    it('should run route and controller hooks after global hooks', async () => {
+      const calls: string[] = [];
+      const track = (name: string) => () => {
+        calls.push(name);
+      };
+
+      route('/users', async (ctx) => ctx.send('users'), {
+        controllerName: 'UserController',
+        hooks: { preHandler: [track('route 1'), track('route 2')] },
+      });
+      route('/other', async (ctx) => ctx.send('other'));
+      adapter.configureController('UserController', { hooks: { preHandler: track('controller') } });
+      adapter.addHook('preHandler', track('global'));
+
+      await adapter.inject({ url: '/users' });
+      await adapter.inject({ url: '/other' });
+
+      expect(calls).toEqual(['global', 'controller', 'route 1', 'route 2', 'global']);
+    });
+
+    it('should apply hooks added after start', async () => {
+      route('/users', async (ctx) => ctx.send('users'));
+
+      const server = await adapter.start();
+
+      adapter.addHook('onSend', (_ctx, response) => {
+        response.headers.set('X-Hooked', 'yes');
+      });
+      await Bun.sleep(0);
+
+      const res = await fetch(`http://localhost:${server.port}/users`);
+
+      expect(res.headers.get('X-Hooked')).toBe('yes');
+    });
+  });
+
+  describe('Server hooks', () => {
+    it('should run onStart and onStop once per start', async () => {
+      const onStart = mock(() => {});
+      const onStop = mock(() => {});
+
+      adapter.addHook('onStart', onStart);
+      adapter.addHook('onStop', onStop);
+
+      const server = await adapter.start();
+
+      expect(onStart).toHaveBeenCalledWith(server);
+
+      await adapter.stop();
+      await adapter.stop();
+
+      expect(onStop).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run onStop hooks during graceful shutdown', async () => {
+      const calls: string[] = [];
+
+      adapter.addHook('onStop', () => {
+        calls.push('onStop');
+      });
+      adapter.onShutdown(() => {
+        calls.push('onShutdown');
+      });
+
+      await adapter.start();
+      await adapter.shutdown(100);
+
+      expect(calls).toEqual(['onStop', 'onShutdown']);
+    });
+  });
+});
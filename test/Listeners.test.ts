@@ -0,0 +1,139 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter, HttpException } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Multiple Listeners', () => {
+  let adapter: Ergenecore;
+  const SOCKET_PATH = path.join(os.tmpdir(), `ergenecore-listener-${process.pid}.sock`);
+
+  const route = (routePath: string, controllerName: string, handler: (ctx: Context) => any = async () => 'ok') => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method: HttpMethod.GET,
+      path: routePath,
+      controllerName,
+      handler,
+    });
+  };
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+    fs.rmSync(SOCKET_PATH, { force: true });
+  });
+
+  it('should serve controllers selected by a listener on that listener only', async () => {
+    route('/users', 'UserController');
+    route('/admin/stats', 'AdminController');
+    adapter.addListener({ name: 'admin', port: 0, controllers: ['AdminController'] });
+
+    const server = await adapter.start();
+    const admin = adapter.getListenerServer('admin');
+    const main = `http://localhost:${server.port}`;
+    const internal = `http://localhost:${admin.port}`;
+
+    expect((await fetch(`${main}/users`)).status).toBe(200);
+    expect((await fetch(`${main}/admin/stats`)).status).toBe(404);
+    expect((await fetch(`${internal}/admin/stats`)).status).toBe(200);
+    expect((await fetch(`${internal}/users`)).status).toBe(404);
+    (await adapter.inject({ url: '/admin/stats' })).expectStatus(404);
+  });
+
+  it('should share global middlewares and the error handler', async () => {
+    adapter.use({
+      override: false,
+      handle: async (ctx: Context, next: () => Promise<void>) => {
+        ctx.setResponseHeader('X-Request-Tag', 'tagged');
+        await next();
+      },
+    } as any);
+    adapter.onError(async () => new Response('handled', { status: 503 }));
+    route('/admin/fail', 'AdminController', async () => {
+      throw new Error('boom');
+    });
+    route('/admin/conflict', 'AdminController', async () => {
+      throw new HttpException(409, 'Conflict');
+    });
+    adapter.addListener({ name: 'admin', port: 0, paths: ['/admin/*'] });
+
+    await adapter.start();
+
+    const internal = `http://localhost:${adapter.getListenerServer('admin').port}`;
+    const failed = await fetch(`${internal}/admin/fail`);
+    const missing = await fetch(`${internal}/missing`);
+
+    expect(failed.status).toBe(503);
+    expect(failed.headers.get('X-Request-Tag')).toBe('tagged');
+    expect((await fetch(`${internal}/admin/conflict`)).status).toBe(409);
+    expect(missing.status).toBe(404);
+    expect(missing.headers.get('X-Request-Tag')).toBe('tagged');
+  });
+
+  it('should serve non-exclusive selections on a Unix socket and the main listener', async () => {
+    route('/metrics', 'MetricsController');
+    route('/users', 'UserController');
+    adapter.addListener({ name: 'sidecar', unix: SOCKET_PATH, paths: ['/metrics'], exclusive: false });
+
+    const server = await adapter.start();
+
+    expect((await fetch('http://localhost/metrics', { unix: SOCKET_PATH })).status).toBe(200);
+    expect((await fetch('http://localhost/users', { unix: SOCKET_PATH })).status).toBe(404);
+    expect((await fetch(`http://localhost:${server.port}/metrics`)).status).toBe(200);
+  });
+
+  it('should apply route changes to every listener', async () => {
+    route('/admin/stats', 'AdminController');
+    adapter.addListener({ name: 'admin', port: 0, controllers: ['AdminController'] });
+
+    await adapter.start();
+    route('/admin/users', 'AdminController');
+    await Bun.sleep(10);
+
+    expect((await fetch(`http://localhost:${adapter.getListenerServer('admin').port}/admin/users`)).status).toBe(200);
+  });
+
+  it('should close every listener on stop()', async () => {
+    route('/admin/stats', 'AdminController');
+    adapter.addListener({ name: 'admin', port: 0, controllers: ['AdminController'] });
+
+    await adapter.start();
+
+    const internal = `http://localhost:${adapter.getListenerServer('admin').port}/admin/stats`;
+
+    await adapter.stop();
+
+    expect(adapter.getListenerServer('admin')).toBeUndefined();
+    await expect(fetch(internal)).rejects.toThrow();
+  });
+
+  it('should reject invalid listeners', async () => {
+    adapter.addListener({ name: 'admin', port: 0 });
+
+    expect(() => adapter.addListener({ name: 'admin', port: 0 })).toThrow('already registered');
+    expect(() => adapter.addListener({ name: 'both', port: 0, unix: SOCKET_PATH })).toThrow('either a port');
+    expect(() => adapter.addListener({ name: 'none' })).toThrow('either a port');
+
+    await adapter.start();
+
+    expect(() => adapter.addListener({ name: 'late', port: 0 })).toThrow('after the server is started');
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Not Found and Method Not Allowed', () => {
+  let adapter: Ergenecore;
+
+  const route = (method: HttpMethod, path: string) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method,
+      path,
+      handler: async (ctx: Context) => ctx.send({ method }),
+    });
+  };
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  describe('405 Method Not Allowed', () => {
+    it('should return 405 with Allow header for a known path', async () => {
+      route(HttpMethod.GET, '/users');
+      route(HttpMethod.POST, '/users');
+
+      const res = await adapter.inject({ method: 'DELETE', url: '/users' });
+
+      res
+        .expectStatus(405)
+        .expectHeader('Allow', 'GET, HEAD, POST, OPTIONS')
+        .expectJson({ error: 'Method Not Allowed' });
+    });
+
+    it('should not include HEAD when GET is not registered', async () => {
+      route(HttpMethod.POST, '/submit');
+
+      const res = await adapter.inject({ method: 'HEAD', url: '/submit' });
+
+      expect(res.status).toBe(405);
+      expect(res.headers.get('Allow')).toBe('POST, OPTIONS');
+    });
+
+    it('should keep 404 for unknown paths', async () => {
+      route(HttpMethod.GET, '/users');
+
+      (await adapter.inject({ method: 'DELETE', url: '/unknown' })).expectStatus(404);
+    });
+
+    it('should return 405 from a running server', async () => {
+      route(HttpMethod.GET, '/items/:id');
+
+      const server = await adapter.start();
+      const response = await fetch(`http://localhost:${server.port}/items/1`, { method: 'PUT' });
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+    });
+
+    it('should answer non-GET methods on WebSocket paths with 405', async () => {
+      adapter['wsRouteQueue'].push({ path: '/chat', middlewares: [], websocketService: undefined });
+
+      const res = await adapter.inject({ method: 'POST', url: '/chat' });
+
+      expect(res.status).toBe(405);
+      expect(res.headers.get('Allow')).toBe('GET, OPTIONS');
+    });
+
+    it('should use a custom method not allowed handler', async () => {
+      route(HttpMethod.GET, '/custom');
+      adapter.onMethodNotAllowed((ctx, allowed) => ctx.send({ allowed }, 405));
+
+      const res = await adapter.inject({ method: 'PATCH', url: '/custom' });
+
+      res
+        .expectStatus(405)
+        .expectHeader('Allow', 'GET, HEAD, OPTIONS')
+        .expectJson({ allowed: ['GET', 'HEAD', 'OPTIONS'] });
+    });
+
+    it('should keep the Allow header set by a custom handler', async () => {
+      route(HttpMethod.GET, '/custom');
+      adapter.onMethodNotAllowed(() => new Response(null, { status: 405, headers: { Allow: 'GET' } }));
+
+      const res = await adapter.inject({ method: 'PATCH', url: '/custom' });
+
+      expect(res.headers.get('Allow')).toBe('GET');
+    });
+  });
+
+  describe('Custom not found handler', () => {
+    it('should use a custom not found handler', async () => {
+      adapter.onNotFound((ctx) => ctx.send({ error: 'Nothing here', path: new URL(ctx.req.url).pathname }, 404));
+
+      const res = await adapter.inject({ url: '/missing' });
+
+      res.expectStatus(404).expectJson({ error: 'Nothing here', path: '/missing' });
+    });
+
+    it('should pass errors thrown by the not found handler to the error handler', async () => {
+      adapter.onNotFound(() => {
+        throw new Error('not found failed');
+      });
+      adapter.onError((error) => new Response(error.message, { status: 500 }));
+
+      (await adapter.inject({ url: '/missing' })).expectStatus(500).expectBody('not found failed');
+    });
+  });
+
+  describe('Global middlewares on fallback responses', () => {
+    const corsLikeMiddleware = {
+      override: false,
+      handle: async (ctx: Context, next: () => Promise<void>) => {
+        ctx.setResponseHeader('Access-Control-Allow-Origin', '*');
+        await next();
+      },
+    };
+
+    it('should run global middlewares before the not found handler', async () => {
+      const calls: string[] = [];
+
+      adapter.use({
+        override: false,
+        handle: async (ctx: Context, next: () => Promise<void>) => {
+          calls.push(new URL(ctx.req.url).pathname);
+          await next();
+        },
+      });
+
+      (await adapter.inject({ url: '/missing' })).expectStatus(404);
+      expect(calls).toEqual(['/missing']);
+    });
+
+    it('should respect include patterns for unmatched paths', async () => {
+      const calls: string[] = [];
+
+      adapter.use(
+        {
+          override: false,
+          handle: async (_ctx: Context, next: () => Promise<void>) => {
+            calls.push('api');
+            await next();
+          },
+        },
+        { include: ['/api/*'] },
+      );
+
+      await adapter.inject({ url: '/api/missing' });
+      await adapter.inject({ url: '/other/missing' });
+
+      expect(calls).toEqual(['api']);
+    });
+
+    it('should let global middlewares short-circuit 405 responses', async () => {
+      route(HttpMethod.GET, '/guarded');
+      adapter.use({ override: false, handle: async () => false });
+
+      (await adapter.inject({ method: 'POST', url: '/guarded' })).expectStatus(403);
+    });
+
+    it('should expose middleware headers to custom fallback handlers', async () => {
+      adapter.use(corsLikeMiddleware);
+      adapter.onNotFound((ctx) => ctx.send({ error: 'Not Found' }, 404));
+
+      const res = await adapter.inject({ url: '/missing' });
+
+      res.expectStatus(404).expectHeader('Access-Control-Allow-Origin', '*');
+    });
+  });
+});
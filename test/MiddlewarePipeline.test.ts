@@ -0,0 +1,346 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreContextWrapper, ErgenecoreWebsocketAdapter, HttpException } from '../lib';
+import { MiddlewareResponseError } from '../lib/errors';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import type { BaseMiddleware } from '@asenajs/asena/adapter';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+import { compileMiddlewareChain } from '../lib/utils/MiddlewarePipeline';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+type Middleware = BaseMiddleware<Context>;
+
+const middleware = (handle: (ctx: Context, next: () => Promise<void>) => any): Middleware =>
+  ({ override: false, handle }) as Middleware;
+
+/**
+ * Middleware runner of createRouteHandler() before chains were compiled, kept
+ * as the reference for the comparison below
+ */
+async function executeMiddlewares(context: Context, middlewares: Middleware[], index = 0): Promise<boolean | Response> {
+  if (index >= middlewares.length) {
+    return true;
+  }
+
+  const next = async (): Promise<void> => {
+    const result = await executeMiddlewares(context, middlewares, index + 1);
+
+    if (result instanceof Response) {
+      throw new MiddlewareResponseError(result);
+    }
+
+    if (result === false) {
+      throw new Error('MIDDLEWARE_CHAIN_STOPPED');
+    }
+  };
+
+  try {
+    const result = await middlewares[index].handle(context, next);
+
+    if (result instanceof Response) {
+      return result;
+    }
+
+    return result !== false;
+  } catch (error) {
+    if (error instanceof HttpException) {
+      return error.getResponse();
+    }
+
+    if (error instanceof MiddlewareResponseError) {
+      return error.response;
+    }
+
+    if (error instanceof Error && error.message === 'MIDDLEWARE_CHAIN_STOPPED') {
+      return false;
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Route handler of createRouteHandler() before chains were compiled
+ */
+const createRecursiveRouteHandler =
+  (middlewares: Middleware[], handler: (ctx: Context) => Promise<unknown>) =>
+  async (req: Request): Promise<Response> => {
+    const context = new ErgenecoreContextWrapper(req);
+
+    try {
+      const result = await executeMiddlewares(context, middlewares);
+
+      if (result instanceof Response) {
+        return result;
+      }
+
+      if (result === false) {
+        return new Response('Forbidden', { status: 403 });
+      }
+
+      return (await handler(context)) as Response;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        return error.getResponse();
+      }
+
+      throw error;
+    }
+  };
+
+describe('Middleware Pipeline', () => {
+  describe('compileMiddlewareChain', () => {
+    const context = () => new ErgenecoreContextWrapper(new Request('http://localhost/'));
+
+    it('should run middlewares in order around next()', async () => {
+      const order: string[] = [];
+      const chain = compileMiddlewareChain([
+        middleware(async (_ctx, next) => {
+          order.push('a:before');
+          await next();
+          order.push('a:after');
+        }),
+        middleware(async (_ctx, next) => {
+          order.push('b');
+          await next();
+        }),
+      ]);
+
+      expect(await chain(context())).toBe(true);
+      expect(order).toEqual(['a:before', 'b', 'a:after']);
+    });
+
+    it('should return the innermost stop and skip later middlewares', async () => {
+      const last = mock(async () => {});
+      const denied = new Response('Denied', { status: 401 });
+      const chain = compileMiddlewareChain([
+        middleware(async (_ctx, next) => {
+          await next();
+
+          return new Response('outer');
+        }),
+        middleware(async () => denied),
+        middleware(last),
+      ]);
+
+      expect(await chain(context())).toBe(denied);
+      expect(last).not.toHaveBeenCalled();
+      expect(await compileMiddlewareChain([middleware(async () => false)])(context())).toBe(false);
+    });
+
+    it('should convert HttpExceptions and rethrow other errors', async () => {
+      const rejected = compileMiddlewareChain([
+        middleware(async (_ctx, next) => next()),
+        middleware(async () => {
+          throw new HttpException(429, 'Too Many Requests');
+        }),
+      ]);
+      const failing = compileMiddlewareChain([
+        middleware(async () => {
+          throw new Error('boom');
+        }),
+      ]);
+
+      expect(((await rejected(context())) as Response).status).toBe(429);
+      await expect(failing(context())).rejects.toThrow('boom');
+    });
+
+    it('should reject next() upstream of a stop', async () => {
+      const caught = mock((_error: unknown) => {});
+      const chain = compileMiddlewareChain([
+        middleware(async (_ctx, next) => {
+          try {
+            await next();
+          } catch (error) {
+            caught(error);
+            throw error;
+          }
+        }),
+        middleware(async () => {
+          throw new HttpException(403, 'Forbidden');
+        }),
+      ]);
+
+      expect(((await chain(context())) as Response).status).toBe(403);
+      expect(caught).toHaveBeenCalledTimes(1);
+    });
+
+    it('should continue when an upstream middleware swallows the stop', async () => {
+      const chain = compileMiddlewareChain([
+        middleware(async (_ctx, next) => {
+          await next().catch(() => {});
+        }),
+        middleware(async () => false),
+      ]);
+
+      expect(await chain(context())).toBe(true);
+    });
+  });
+
+  describe('Comparison with the recursive runner', () => {
+    type RouteHandler = (req: Request) => Promise<Response>;
+
+    const handler = async (ctx: Context) => ctx.send({ ok: true });
+    const passing = () => Array.from({ length: 5 }, () => middleware(async (_ctx, next) => next()));
+
+    // The route handler built by the adapter, and the previous one for the same middlewares
+    const createHandlers = (middlewares: Middleware[]): { compiled: RouteHandler; recursive: RouteHandler } => {
+      const adapter = new Ergenecore(mockLogger);
+
+      adapter.registerRoute({
+        staticServe: undefined,
+        validator: undefined,
+        method: HttpMethod.GET,
+        path: '/bench',
+        middlewares,
+        handler,
+      });
+
+      return {
+        compiled: adapter['createRouteHandler'](adapter['routeQueue'][0]),
+        recursive: createRecursiveRouteHandler(middlewares, handler),
+      };
+    };
+
+    const request = () => new Request('http://localhost/bench');
+
+    it('should answer like the recursive runner', async () => {
+      const scenarios: Record<string, Middleware[]> = {
+        passing: passing(),
+        rejecting: [...passing(), middleware(async () => false)],
+        responding: [...passing(), middleware(async () => new Response('Denied', { status: 401 }))],
+        throwing: [
+          ...passing(),
+          middleware(async () => {
+            throw new HttpException(429, 'Too Many Requests');
+          }),
+        ],
+      };
+
+      for (const [name, middlewares] of Object.entries(scenarios)) {
+        const { compiled, recursive } = createHandlers(middlewares);
+        const expected = await recursive(request());
+        const actual = await compiled(request());
+
+        expect(`${name} ${actual.status} ${await actual.text()}`).toBe(
+          `${name} ${expected.status} ${await expected.text()}`,
+        );
+      }
+    });
+
+    it('should allocate one next() per request instead of one per middleware', async () => {
+      const seen = new Set<unknown>();
+      const recording = Array.from({ length: 5 }, () =>
+        middleware(async (_ctx, next) => {
+          seen.add(next);
+          await next();
+        }),
+      );
+      const { compiled, recursive } = createHandlers(recording);
+
+      await recursive(request());
+      expect(seen.size).toBe(5);
+
+      seen.clear();
+      await compiled(request());
+      expect(seen.size).toBe(1);
+    });
+
+    it('should create one error per stop instead of one per upstream middleware', async () => {
+      const seen = new Set<unknown>();
+      const catching = Array.from({ length: 5 }, () =>
+        middleware(async (_ctx, next) => {
+          try {
+            await next();
+          } catch (error) {
+            seen.add(error);
+            throw error;
+          }
+        }),
+      );
+      const { compiled, recursive } = createHandlers([...catching, middleware(async () => false)]);
+
+      expect((await recursive(request())).status).toBe(403);
+      expect(seen.size).toBe(5);
+
+      seen.clear();
+      expect((await compiled(request())).status).toBe(403);
+      expect(seen.size).toBe(1);
+    });
+
+    // Timings depend on the machine and are not asserted. To print them:
+    // BENCHMARK=1 bun test test/MiddlewarePipeline.test.ts (with coverage disabled in bunfig.toml)
+    it.if(!!process.env.BENCHMARK)('should report dispatch times of both runners', async () => {
+      const iterations = 50_000;
+      const measure = async (run: RouteHandler): Promise<number> => {
+        const req = request();
+
+        for (let i = 0; i < 1000; i++) await run(req);
+
+        const start = Bun.nanoseconds();
+
+        for (let i = 0; i < iterations; i++) await run(req);
+
+        return (Bun.nanoseconds() - start) / iterations;
+      };
+
+      for (const [name, middlewares] of Object.entries({
+        passing: passing(),
+        rejecting: [...passing(), middleware(async () => false)],
+      })) {
+        const { compiled, recursive } = createHandlers(middlewares);
+        const before = await measure(recursive);
+        const after = await measure(compiled);
+
+        console.log(`${name}: recursive ${before.toFixed(0)} ns/op, compiled ${after.toFixed(0)} ns/op`);
+      }
+    });
+  });
+
+  describe('Adapter integration', () => {
+    let adapter: Ergenecore;
+
+    beforeEach(() => {
+      adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+      adapter.setPort(0);
+    });
+
+    afterEach(async () => {
+      await adapter.stop();
+    });
+
+    it('should run global and route middlewares as one chain', async () => {
+      const order: string[] = [];
+
+      adapter.use(
+        middleware(async (_ctx, next) => {
+          order.push('global:before');
+          await next();
+          order.push('global:after');
+        }),
+      );
+      adapter.registerRoute({
+        staticServe: undefined,
+        validator: undefined,
+        method: HttpMethod.GET,
+        path: '/users',
+        middlewares: [middleware(async () => order.push('route'))],
+        handler: async () => {
+          order.push('handler');
+
+          return { ok: true };
+        },
+      });
+
+      (await adapter.inject({ url: '/users' })).expectStatus(200);
+      expect(order).toEqual(['global:before', 'route', 'global:after', 'handler']);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import type { Context } from '../lib';
+import { z } from 'zod';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Param Constraints', () => {
+  let adapter: Ergenecore;
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  it('should convert and validate params with the built-in matchers', async () => {
+    adapter.get('/users/:id<int>', (ctx) => ({ id: ctx.getParam('id'), type: typeof ctx.getParam('id') }));
+    adapter.get('/orders/:orderId<uuid>', (ctx) => ({ orderId: ctx.getParam('orderId') }));
+    adapter.get('/posts/:slug<slug>', (ctx) => ({ slug: ctx.getParam('slug') }));
+
+    (await adapter.inject({ url: '/users/42' })).expectStatus(200).expectJson({ id: 42, type: 'number' });
+    (await adapter.inject({ url: '/users/-7' })).expectJson({ id: -7, type: 'number' });
+    (await adapter.inject({ url: '/users/abc' })).expectStatus(404);
+    (await adapter.inject({ url: '/users/99999999999999999999' })).expectStatus(404);
+
+    (await adapter.inject({ url: '/orders/6F9619FF-8B86-D011-B42D-00C04FC964FF' })).expectStatus(200);
+    (await adapter.inject({ url: '/orders/42' })).expectStatus(404);
+
+    (await adapter.inject({ url: '/posts/my-first-post' })).expectJson({ slug: 'my-first-post' });
+    (await adapter.inject({ url: '/posts/My_Post' })).expectStatus(404);
+  });
+
+  it('should fall through to the next candidate route', async () => {
+    adapter.get('/items/:id<int>', (ctx) => ({ by: 'id', id: ctx.getParam('id') }));
+    adapter.get('/items/:status<active|archived>', (ctx) => ({ by: 'status', status: ctx.getParam('status') }));
+    adapter.get('/items/:name', (ctx) => ({ by: 'name', name: ctx.getParam('name') }));
+    adapter.get('/files/:id<uuid>', () => 'file');
+    adapter.get('/files/*', () => 'wildcard');
+
+    (await adapter.inject({ url: '/items/3' })).expectJson({ by: 'id', id: 3 });
+    (await adapter.inject({ url: '/items/archived' })).expectJson({ by: 'status', status: 'archived' });
+    (await adapter.inject({ url: '/items/pen' })).expectJson({ by: 'name', name: 'pen' });
+    (await adapter.inject({ url: '/files/readme' })).expectStatus(200).expectBody('wildcard');
+  });
+
+  it('should apply custom matchers', async () => {
+    adapter.addParamMatcher('year', /\d{4}/);
+    adapter.addParamMatcher('csv', (value) => (value.includes(',') ? value.split(',') : undefined));
+    adapter.get('/reports/:year<year>/:ids<csv>', (ctx: Context) => ({
+      year: ctx.getParam('year'),
+      ids: ctx.getParam('ids'),
+    }));
+
+    (await adapter.inject({ url: '/reports/2024/a,b' })).expectJson({ year: '2024', ids: ['a', 'b'] });
+    (await adapter.inject({ url: '/reports/12024/a,b' })).expectStatus(404);
+    (await adapter.inject({ url: '/reports/2024/a' })).expectStatus(404);
+
+    expect(() => adapter.addParamMatcher('year', /\d+/)).toThrow('already registered');
+    expect(() => adapter.addParamMatcher('int', /\d+/)).toThrow('already registered');
+  });
+
+  it('should match inline regular expressions against the whole segment', async () => {
+    adapter.get('/codes/:code<[A-Z]{3}\\d+>', (ctx) => ({ code: ctx.getParam('code') }));
+
+    (await adapter.inject({ url: '/codes/ABC123' })).expectStatus(200).expectJson({ code: 'ABC123' });
+    (await adapter.inject({ url: '/codes/xABC123' })).expectStatus(404);
+    (await adapter.inject({ url: '/codes/ABC' })).expectStatus(404);
+  });
+
+  it('should reject routes referencing an unknown matcher or an invalid expression', async () => {
+    adapter.get('/things/:id<thing>', () => 'thing');
+
+    await expect(adapter.inject({ url: '/things/1' })).rejects.toThrow('Unknown param matcher "thing"');
+
+    adapter.removeRoute('GET', '/things/:id<thing>');
+    adapter.get('/things/:id<[a-z>', () => 'thing');
+
+    await expect(adapter.inject({ url: '/things/1' })).rejects.toThrow('Invalid param constraint "[a-z"');
+  });
+
+  it('should validate the matched strings and pass the converted values to the handler', async () => {
+    adapter.get('/accounts/:id<int>', (ctx: Context) => ({ id: ctx.getParam('id') }), {
+      validator: { param: z.object({ id: z.string().max(3) }) },
+    });
+
+    (await adapter.inject({ url: '/accounts/12' })).expectStatus(200).expectJson({ id: 12 });
+    (await adapter.inject({ url: '/accounts/1234' })).expectStatus(400);
+  });
+
+  it('should not report constrained routes of the same shape as conflicts', async () => {
+    adapter.setStrictRouting(true);
+    adapter.get('/users/:id<int>', () => 'by id');
+    adapter.get('/users/:name', () => 'by name');
+
+    const server = await adapter.start();
+
+    const byId = await fetch(`http://localhost:${server.port}/users/1`);
+    const byName = await fetch(`http://localhost:${server.port}/users/ada`);
+
+    expect(await byId.text()).toBe('by id');
+    expect(await byName.text()).toBe('by name');
+    expect(adapter.getRoutes().map((route) => route.path)).toContain('/users/:id<int>');
+  });
+});
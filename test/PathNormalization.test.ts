@@ -0,0 +1,176 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Path Normalization', () => {
+  let adapter: Ergenecore;
+
+  const route = (method: HttpMethod, path: string, handler: (ctx: Context) => any) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method,
+      path,
+      handler,
+    });
+  };
+
+  // Sends a raw HTTP/1.1 request so the path reaches the server unnormalized
+  const rawRequest = async (port: number, path: string): Promise<string> => {
+    let response = '';
+    const { promise, resolve } = Promise.withResolvers<void>();
+
+    await Bun.connect({
+      hostname: 'localhost',
+      port,
+      socket: {
+        open(socket) {
+          socket.write(`GET ${path} HTTP/1.1\r\nHost: localhost\r\nConnection: close\r\n\r\n`);
+        },
+        data(_socket, data) {
+          response += data.toString();
+        },
+        close() {
+          resolve();
+        },
+      },
+    });
+
+    await promise;
+
+    return response;
+  };
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+    route(HttpMethod.GET, '/users', async (ctx) => ctx.send('users'));
+    route(HttpMethod.GET, '/users/:id', async (ctx) => ctx.send({ id: ctx.getParam('id') }));
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  describe('Trailing slash', () => {
+    it('should treat trailing slashes strictly by default', async () => {
+      (await adapter.inject({ url: '/users/' })).expectStatus(404);
+    });
+
+    it('should serve both forms with the ignore policy', async () => {
+      adapter.setPathNormalization({ trailingSlash: 'ignore' });
+
+      (await adapter.inject({ url: '/users/' })).expectStatus(200).expectBody('users');
+      (await adapter.inject({ url: '/users/7/' })).expectStatus(200).expectJson({ id: '7' });
+    });
+
+    it('should redirect to the registered form', async () => {
+      adapter.setPathNormalization({ trailingSlash: 'redirect-301' });
+
+      const res = await adapter.inject({ url: '/users/?page=2' });
+
+      res.expectStatus(301).expectHeader('Location', '/users?page=2');
+    });
+
+    it('should redirect with 308 to preserve the method', async () => {
+      route(HttpMethod.POST, '/items/', async (ctx) => ctx.send('created', 201));
+      adapter.setPathNormalization({ trailingSlash: 'redirect-308' });
+
+      (await adapter.inject({ method: 'POST', url: '/items' })).expectStatus(308).expectHeader('Location', '/items/');
+    });
+
+    it('should take precedence over wildcard routes', async () => {
+      route(HttpMethod.GET, '/*', async (ctx) => ctx.send('fallback'));
+      adapter.setPathNormalization({ trailingSlash: 'ignore' });
+
+      (await adapter.inject({ url: '/users/' })).expectBody('users');
+    });
+
+    it('should serve WebSocket aliases instead of redirecting the handshake', () => {
+      adapter['wsRouteQueue'].push({ path: '/chat', middlewares: [], websocketService: undefined });
+      adapter.setPathNormalization({ trailingSlash: 'redirect-301' });
+
+      const routes = adapter['buildRouteTable']();
+
+      expect(routes['/chat/']).toBe(routes['/chat']);
+      expect(typeof routes['/users/']).toBe('function');
+    });
+  });
+
+  describe('Case sensitivity', () => {
+    it('should match static segments case-insensitively when enabled', async () => {
+      (await adapter.inject({ url: '/USERS' })).expectStatus(404);
+
+      adapter.setPathNormalization({ caseSensitive: false });
+
+      (await adapter.inject({ url: '/USERS' })).expectStatus(200).expectBody('users');
+      (await adapter.inject({ url: '/Users/AbC' })).expectStatus(200).expectJson({ id: 'AbC' });
+    });
+
+    it('should still answer 404 for unknown paths', async () => {
+      adapter.setPathNormalization({ caseSensitive: false });
+
+      (await adapter.inject({ url: '/missing' })).expectStatus(404).expectJson({ error: 'Not Found' });
+    });
+  });
+
+  describe('Duplicate slashes', () => {
+    it('should collapse duplicate slashes on a running server', async () => {
+      adapter.setPathNormalization({ collapseSlashes: true });
+
+      const server = await adapter.start();
+      const response = await rawRequest(server.port, '//users//42');
+
+      expect(response).toStartWith('HTTP/1.1 200');
+      expect(response).toContain('{"id":"42"}');
+    });
+
+    it('should redirect to the canonical path with a redirect policy', async () => {
+      adapter.setPathNormalization({ collapseSlashes: true, trailingSlash: 'redirect-308' });
+
+      const server = await adapter.start();
+
+      expect(await rawRequest(server.port, '//users')).toContain('Location: /users\r\n');
+      expect(await rawRequest(server.port, '//users/')).toContain('Location: /users\r\n');
+    });
+
+    it('should redirect paths matched by Bun before the catch-all on a running server', async () => {
+      route(HttpMethod.GET, '/files/*', async (ctx) => ctx.send('file'));
+      adapter.setPathNormalization({ collapseSlashes: true, trailingSlash: 'redirect-301' });
+
+      const server = await adapter.start();
+      const redirected = await fetch(`http://localhost:${server.port}/files//readme?v=1`, { redirect: 'manual' });
+      const served = await fetch(`http://localhost:${server.port}/files/readme?next=//home`, { redirect: 'manual' });
+
+      expect(redirected.status).toBe(301);
+      expect(redirected.headers.get('Location')).toBe('/files/readme?v=1');
+      expect(served.status).toBe(200);
+      expect(await rawRequest(server.port, '//users')).toStartWith('HTTP/1.1 301');
+    });
+
+    it('should redirect duplicate slashes in injected requests like the running server', async () => {
+      adapter.setPathNormalization({ collapseSlashes: true, trailingSlash: 'redirect-301' });
+
+      (await adapter.inject({ url: '//users' })).expectStatus(301).expectHeader('Location', '/users');
+    });
+  });
+
+  it('should show the policy in the route log', () => {
+    adapter.setPathNormalization({ trailingSlash: 'redirect-308', caseSensitive: false });
+
+    expect(adapter['buildControllerBasedLog']()).toContain(
+      'trailing slash redirect-308, case-insensitive, duplicate slashes kept',
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter, RequestTimeoutException } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Request Timeouts', () => {
+  let adapter: Ergenecore;
+
+  const route = (path: string, handler: (ctx: Context) => any, extra: Record<string, any> = {}) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method: HttpMethod.GET,
+      path,
+      handler,
+      ...extra,
+    });
+  };
+
+  const slowHandler = (ms: number) => async (ctx: Context) => {
+    await Bun.sleep(ms);
+
+    return ctx.send('done');
+  };
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+    (mockLogger.warn as any).mockClear();
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  it('should answer 503 when a route timeout fires', async () => {
+    route('/slow', slowHandler(200), { timeout: 20 });
+
+    const res = await adapter.inject({ url: '/slow' });
+
+    res.expectStatus(503).expectJson({ error: 'Service Unavailable' });
+    expect(mockLogger.warn).toHaveBeenCalledWith('Request timed out after 20ms: GET /slow');
+  });
+
+  it('should apply the global timeout from serveOptions with a custom status', async () => {
+    await adapter.serveOptions(() => ({ requestTimeout: { ms: 20, status: 504 } }));
+    route('/slow', slowHandler(200));
+    route('/fast', async (ctx) => ctx.send('fast'));
+    route('/report', slowHandler(60), { timeout: false });
+
+    (await adapter.inject({ url: '/slow' })).expectStatus(504).expectJson({ error: 'Gateway Timeout' });
+    (await adapter.inject({ url: '/fast' })).expectStatus(200).expectBody('fast');
+    (await adapter.inject({ url: '/report' })).expectStatus(200).expectBody('done');
+  });
+
+  it('should abort ctx.signal when the timeout fires', async () => {
+    let reason: unknown;
+
+    route(
+      '/slow',
+      async (ctx) => {
+        await new Promise((resolve) => ctx.signal.addEventListener('abort', resolve));
+        reason = ctx.signal.reason;
+
+        return ctx.send('late');
+      },
+      { timeout: 20 },
+    );
+
+    await adapter.inject({ url: '/slow' });
+
+    expect(reason).toBeInstanceOf(RequestTimeoutException);
+  });
+
+  it('should pass timeouts to the error handler', async () => {
+    route('/slow', slowHandler(200), { timeout: 20 });
+    adapter.onError((error, ctx) => {
+      const timeout = error as RequestTimeoutException;
+
+      return ctx.send({ path: timeout.path, timeout: timeout.timeout }, timeout.status);
+    });
+
+    (await adapter.inject({ url: '/slow' })).expectStatus(503).expectJson({ path: '/slow', timeout: 20 });
+  });
+
+  it('should abort ctx.signal when the client disconnects', async () => {
+    const { promise: aborted, resolve } = Promise.withResolvers<boolean>();
+
+    route('/stream', async (ctx) => {
+      ctx.signal.addEventListener('abort', () => resolve(true));
+      await Bun.sleep(300);
+
+      return ctx.send('done');
+    });
+
+    const server = await adapter.start();
+    const controller = new AbortController();
+    const request = fetch(`http://localhost:${server.port}/stream`, { signal: controller.signal }).catch(() => {});
+
+    await Bun.sleep(50);
+    controller.abort();
+    await request;
+
+    expect(await Promise.race([aborted, Bun.sleep(200).then(() => false)])).toBe(true);
+  });
+});
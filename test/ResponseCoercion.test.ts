@@ -0,0 +1,149 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter, respond } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Handler Return Types', () => {
+  let adapter: Ergenecore;
+  const FIXTURE_DIR = path.join(import.meta.dir, 'fixtures', 'return-types');
+  const HTML_FILE = path.join(FIXTURE_DIR, 'page.html');
+
+  const route = (path: string, handler: (ctx: Context) => any) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method: HttpMethod.GET,
+      path,
+      handler,
+    });
+  };
+
+  const get = (url: string) => adapter.inject({ url });
+
+  beforeAll(() => {
+    fs.mkdirSync(FIXTURE_DIR, { recursive: true });
+    fs.writeFileSync(HTML_FILE, '<h1>Hello</h1>');
+  });
+
+  afterAll(() => {
+    fs.rmSync(FIXTURE_DIR, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  it('should send strings as plain text', async () => {
+    route('/text', async () => 'hello');
+
+    (await get('/text')).expectBody('hello').expectHeader('Content-Type', 'text/plain; charset=utf-8');
+  });
+
+  it('should send files with their type and size', async () => {
+    route('/page', async () => Bun.file(HTML_FILE));
+
+    const res = await get('/page');
+
+    res.expectBody('<h1>Hello</h1>').expectHeader('Content-Length', '14');
+    expect(res.headers.get('Content-Type')).toStartWith('text/html');
+  });
+
+  it('should send blobs and bytes as binary bodies', async () => {
+    route('/blob', async () => new Blob(['csv,data'], { type: 'text/csv' }));
+    route('/bytes', async () => new Uint8Array([104, 105]));
+    route('/buffer', async () => new Uint8Array([104, 105]).buffer);
+
+    (await get('/blob')).expectBody('csv,data').expectHeader('Content-Type', 'text/csv');
+    (await get('/bytes')).expectBody('hi').expectHeader('Content-Type', 'application/octet-stream');
+    (await get('/buffer')).expectBody('hi').expectHeader('Content-Length', '2');
+  });
+
+  it('should stream ReadableStream bodies', async () => {
+    route(
+      '/stream',
+      async () =>
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode('chunk1,'));
+            controller.enqueue(new TextEncoder().encode('chunk2'));
+            controller.close();
+          },
+        }),
+    );
+
+    (await get('/stream')).expectBody('chunk1,chunk2');
+  });
+
+  it('should stream async iterables of objects as NDJSON', async () => {
+    route('/events', async () =>
+      (async function* () {
+        yield { id: 1 };
+        yield { id: 2n };
+      })(),
+    );
+    route('/lines', async () =>
+      (async function* () {
+        yield 'a\n';
+        yield 'b\n';
+      })(),
+    );
+
+    (await get('/events')).expectBody('{"id":1}\n{"id":"2"}\n').expectHeader('Content-Type', 'application/x-ndjson');
+    (await get('/lines')).expectBody('a\nb\n').expectHeader('Content-Type', 'text/plain; charset=utf-8');
+  });
+
+  it('should apply status and headers of response tuples', async () => {
+    route('/created', async () => respond({ status: 201, headers: { Location: '/users/42' }, body: { id: 42 } }));
+    route('/data', async () => ({ status: 'active', body: 'not a tuple' }));
+
+    (await get('/created')).expectStatus(201).expectHeader('Location', '/users/42').expectJson({ id: 42 });
+    (await get('/data')).expectStatus(200).expectJson({ status: 'active', body: 'not a tuple' });
+  });
+
+  it('should serialize data shaped like a response tuple', async () => {
+    route('/message', async () => ({ body: 'hello' }));
+    route('/reply', async () => ({ status: 201, headers: {}, body: 'hello' }));
+
+    (await get('/message')).expectStatus(200).expectJson({ body: 'hello' });
+    (await get('/reply')).expectStatus(200).expectJson({ status: 201, headers: {}, body: 'hello' });
+  });
+
+  it('should stream NDJSON to a real client', async () => {
+    route('/feed', async () =>
+      (async function* () {
+        for (let i = 0; i < 3; i++) {
+          await Bun.sleep(5);
+          yield { i };
+        }
+      })(),
+    );
+
+    const server = await adapter.start();
+    const res = await fetch(`http://localhost:${server.port}/feed`);
+
+    expect(res.headers.get('Content-Type')).toBe('application/x-ndjson');
+    expect(
+      (await res.text())
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line)),
+    ).toEqual([{ i: 0 }, { i: 1 }, { i: 2 }]);
+  });
+});
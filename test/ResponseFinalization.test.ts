@@ -0,0 +1,163 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter, HttpException } from '../lib';
+import { CorsMiddleware } from '../lib/defaults';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import { z } from 'zod';
+import type { Context } from '../lib';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Response Finalization', () => {
+  let adapter: Ergenecore;
+
+  // Middleware setting a response header before the handler runs
+  const tagMiddleware = (allow = true) => ({
+    override: false,
+    handle: async (ctx: Context, next: () => Promise<void>) => {
+      ctx.setResponseHeader('X-Request-Tag', 'tagged');
+
+      if (!allow) return false;
+
+      await next();
+    },
+  });
+
+  const route = (path: string, handler: (ctx: Context) => any, extra: Record<string, any> = {}) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [tagMiddleware()],
+      method: HttpMethod.GET,
+      path,
+      handler,
+      ...extra,
+    });
+  };
+
+  const get = (url: string) => adapter.inject({ url });
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  it('should apply context headers to every kind of response', async () => {
+    route('/object', async () => ({ ok: true }));
+    route('/response', async () => new Response('raw'));
+    route('/redirect', async (ctx) => ctx.redirect('/login'));
+    route('/forbidden', async () => 'never', { middlewares: [tagMiddleware(false)] });
+    route('/exception', async () => {
+      throw new HttpException(409, 'Conflict');
+    });
+    route('/validated', async () => 'never', {
+      validator: { query: { handle: () => ({ schema: z.object({ page: z.string() }) }), override: false } },
+    });
+
+    const expectations: Record<string, number> = {
+      '/object': 200,
+      '/response': 200,
+      '/redirect': 302,
+      '/forbidden': 403,
+      '/exception': 409,
+      '/validated': 400,
+    };
+
+    for (const [url, status] of Object.entries(expectations)) {
+      (await get(url)).expectStatus(status).expectHeader('X-Request-Tag', 'tagged');
+    }
+  });
+
+  it('should apply headers set by fast path handlers and errors', async () => {
+    const routes = {
+      '/fast': async (ctx: Context) => {
+        ctx.setResponseHeader('Cache-Control', 'no-store');
+
+        return { ok: true };
+      },
+      '/fast-error': async (ctx: Context) => {
+        ctx.setResponseHeader('Cache-Control', 'no-store');
+        throw new Error('boom');
+      },
+    };
+
+    for (const [path, handler] of Object.entries(routes)) {
+      route(path, handler, { middlewares: [] });
+    }
+
+    (await get('/fast')).expectStatus(200).expectHeader('Cache-Control', 'no-store');
+    (await get('/fast-error')).expectStatus(500).expectHeader('Cache-Control', 'no-store');
+  });
+
+  it('should keep headers set on the response itself', async () => {
+    route('/own', async () => new Response('raw', { headers: { 'X-Request-Tag': 'own' } }));
+
+    (await get('/own')).expectHeader('X-Request-Tag', 'own');
+  });
+
+  it('should keep CORS headers on error responses', async () => {
+    route(
+      '/cors',
+      async () => {
+        throw new HttpException(404, 'Missing');
+      },
+      { middlewares: [new CorsMiddleware({ origin: ['https://example.com'] })] },
+    );
+
+    const res = await adapter.inject({ url: '/cors', headers: { Origin: 'https://example.com' } });
+
+    res.expectStatus(404).expectHeader('Access-Control-Allow-Origin', 'https://example.com');
+  });
+
+  it('should apply cookies to redirects', async () => {
+    route('/login', async (ctx) => {
+      await ctx.setCookie('session', 'abc', { extraOptions: { httpOnly: true } });
+      await ctx.deleteCookie('legacy');
+
+      return ctx.redirect('/home');
+    });
+
+    const res = await get('/login');
+
+    res.expectStatus(302);
+    expect(res.headers.getSetCookie()).toEqual([
+      expect.stringContaining('session=abc'),
+      expect.stringContaining('legacy=;'),
+    ]);
+  });
+
+  it('should apply headers and cookies to responses of the fallback handler', async () => {
+    adapter.use({
+      override: false,
+      handle: async (ctx: Context, next: () => Promise<void>) => {
+        ctx.setResponseHeader('X-Request-Tag', 'tagged');
+        await ctx.setCookie('visitor', '1');
+        await next();
+      },
+    } as any);
+    route('/login', async (ctx) => {
+      await ctx.setCookie('session', 'abc');
+
+      return { ok: true };
+    });
+
+    const server = await adapter.start();
+    const missing = await fetch(`http://localhost:${server.port}/missing`);
+    const login = await fetch(`http://localhost:${server.port}/login`);
+
+    expect(missing.status).toBe(404);
+    expect(missing.headers.get('X-Request-Tag')).toBe('tagged');
+    expect(missing.headers.getSetCookie()).toEqual([expect.stringContaining('visitor=1')]);
+    expect(login.headers.getSetCookie()).toHaveLength(2);
+  });
+});
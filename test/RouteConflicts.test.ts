@@ -0,0 +1,196 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter, createErgenecoreAdapter } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+import { detectRouteConflicts } from '../lib/utils/RouteConflicts';
+
+// Mock logger
+const createMockLogger = (): ServerLogger => ({
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+});
+
+describe('Route Conflict Detection', () => {
+  let logger: ServerLogger;
+  let adapter: Ergenecore;
+
+  const route = (method: HttpMethod, path: string, controllerName: string) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method,
+      path,
+      controllerName,
+      handler: async (ctx: Context) => ctx.send(controllerName),
+    });
+  };
+
+  const messages = (level: 'error' | 'warn') =>
+    (logger[level] as ReturnType<typeof mock>).mock.calls.map((call) => String(call[0]));
+
+  beforeEach(() => {
+    logger = createMockLogger();
+    adapter = new Ergenecore(logger, new ErgenecoreWebsocketAdapter(logger));
+    adapter.setPort(0);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  describe('Exact duplicates', () => {
+    it('should log an error naming both controllers and keep the last route', async () => {
+      route(HttpMethod.GET, '/users', 'UserController');
+      route(HttpMethod.GET, '/users', 'AdminController');
+
+      const res = await adapter.inject({ url: '/users' });
+
+      expect(res.text()).toBe('AdminController');
+      expect(messages('error')).toEqual([
+        'Duplicate route GET /users: registered by UserController and AdminController. ' +
+          'The route from AdminController overrides the earlier one.',
+      ]);
+    });
+
+    it('should not report the same path with different methods', async () => {
+      route(HttpMethod.GET, '/users', 'UserController');
+      route(HttpMethod.POST, '/users', 'UserController');
+
+      await adapter.inject({ url: '/users' });
+
+      expect(messages('error')).toEqual([]);
+      expect(messages('warn')).toEqual([]);
+    });
+
+    it('should report duplicate WebSocket routes', () => {
+      adapter['wsRouteQueue'].push({
+        path: '/chat',
+        middlewares: [],
+        websocketService: undefined,
+        controllerName: 'A',
+      });
+      adapter['wsRouteQueue'].push({ path: 'chat', middlewares: [], websocketService: undefined, controllerName: 'B' });
+
+      const [conflict] = detectRouteConflicts(adapter.getRoutes());
+
+      expect(conflict.kind).toBe('duplicate');
+      expect(conflict.message).toContain('WebSocket /chat');
+    });
+  });
+
+  describe('Parameter name conflicts', () => {
+    it('should report routes with the same method and shape and different param names', async () => {
+      route(HttpMethod.GET, '/users/:id', 'UserController');
+      route(HttpMethod.GET, '/users/:userId', 'ProfileController');
+
+      await adapter.inject({ url: '/users/1' });
+
+      expect(messages('error')).toEqual([
+        'Conflicting parameter names: GET /users/:id (UserController) and GET /users/:userId (ProfileController) ' +
+          'match the same paths. Use the same parameter names.',
+      ]);
+    });
+
+    it('should not report different param names for different methods', async () => {
+      adapter.registerRoute({
+        staticServe: undefined,
+        validator: undefined,
+        middlewares: [],
+        method: HttpMethod.DELETE,
+        path: '/users/:userId',
+        controllerName: 'ProfileController',
+        handler: async (ctx: Context) => ctx.send({ userId: ctx.getParam('userId') }),
+      });
+      route(HttpMethod.GET, '/users/:id', 'UserController');
+
+      const server = await adapter.start();
+      const deleted = await fetch(`http://localhost:${server.port}/users/1`, { method: 'DELETE' });
+
+      expect(await deleted.json()).toEqual({ userId: '1' });
+      (await adapter.inject({ method: 'DELETE', url: '/users/2' })).expectJson({ userId: '2' });
+      (await adapter.inject({ url: '/users/3' })).expectBody('UserController');
+      expect(messages('error')).toEqual([]);
+      expect(messages('warn')).toEqual([]);
+    });
+
+    it('should not report routes that differ in static segments', () => {
+      route(HttpMethod.GET, '/users/:id', 'UserController');
+      route(HttpMethod.GET, '/posts/:postId', 'PostController');
+      route(HttpMethod.GET, '/users/:id/posts', 'UserController');
+
+      expect(detectRouteConflicts(adapter.getRoutes())).toEqual([]);
+    });
+  });
+
+  describe('Wildcard overlaps', () => {
+    it('should warn when another controller registers a route under a wildcard', async () => {
+      route(HttpMethod.GET, '/api/*', 'ProxyController');
+      route(HttpMethod.GET, '/api/users/:id', 'UserController');
+
+      await adapter.inject({ url: '/api/users/1' });
+
+      expect(messages('error')).toEqual([]);
+      expect(messages('warn')).toEqual([
+        'GET /api/users/:id (UserController) overlaps wildcard route GET /api/* (ProxyController). ' +
+          'The more specific route takes precedence.',
+      ]);
+    });
+
+    it('should not warn for the same controller, other methods or the catch-all', () => {
+      route(HttpMethod.GET, '/files/*', 'FileController');
+      route(HttpMethod.GET, '/files/readme', 'FileController');
+      route(HttpMethod.POST, '/files/upload', 'UploadController');
+      route(HttpMethod.GET, '/*', 'SpaController');
+
+      expect(detectRouteConflicts(adapter.getRoutes())).toEqual([]);
+    });
+  });
+
+  describe('Strict routing', () => {
+    it('should refuse to start on duplicate routes', async () => {
+      adapter.setStrictRouting(true);
+      route(HttpMethod.GET, '/users', 'UserController');
+      route(HttpMethod.GET, '/users', 'AdminController');
+
+      await expect(adapter.start()).rejects.toThrow('Strict routing: 1 route conflict(s) detected');
+      expect(adapter['server']).toBeUndefined();
+    });
+
+    it('should still start with wildcard overlaps only', async () => {
+      adapter.setStrictRouting(true);
+      route(HttpMethod.GET, '/api/*', 'ProxyController');
+      route(HttpMethod.GET, '/api/users', 'UserController');
+
+      const server = await adapter.start();
+
+      expect(server.port).toBeGreaterThan(0);
+    });
+
+    it('should be configurable through the factory', async () => {
+      const strictAdapter = createErgenecoreAdapter({ logger, strictRouting: true, enableWebSocket: false });
+
+      strictAdapter.registerRoute({
+        staticServe: undefined,
+        validator: undefined,
+        middlewares: [],
+        method: HttpMethod.GET,
+        path: '/items/:id',
+        handler: async (ctx: Context) => ctx.send('a'),
+      });
+      strictAdapter.registerRoute({
+        staticServe: undefined,
+        validator: undefined,
+        middlewares: [],
+        method: HttpMethod.GET,
+        path: '/items/:itemId',
+        handler: async (ctx: Context) => ctx.send('b'),
+      });
+
+      await expect(strictAdapter.inject({ url: '/items/1' })).rejects.toThrow('Conflicting parameter names');
+    });
+  });
+});
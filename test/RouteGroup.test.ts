@@ -0,0 +1,134 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { Context } from '../lib';
+import { z } from 'zod';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Programmatic Routes', () => {
+  let adapter: Ergenecore;
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  it('should register routes for each method through the route queue', async () => {
+    adapter
+      .get('/ping', () => 'pong')
+      .post('/users', async (ctx: Context) => ctx.send({ created: await ctx.getBody() }, 201))
+      .delete('/users/:id', (ctx: Context) => ({ deleted: ctx.getParam('id') }))
+      .route(HttpMethod.PUT, 'items', () => 'replaced');
+
+    (await adapter.inject({ url: '/ping' })).expectStatus(200).expectBody('pong');
+    (await adapter.inject({ method: 'POST', url: '/users', body: { name: 'Ada' } }))
+      .expectStatus(201)
+      .expectJson({ created: { name: 'Ada' } });
+    (await adapter.inject({ method: 'DELETE', url: '/users/7' })).expectJson({ deleted: '7' });
+    (await adapter.inject({ method: 'PUT', url: '/items' })).expectBody('replaced');
+
+    const ping = adapter.getRoutes().find((route) => route.path === '/ping');
+
+    expect(ping).toMatchObject({ type: 'http', method: 'GET', fastPath: true, controllerName: undefined });
+  });
+
+  it('should prefix nested groups and run group middlewares before route middlewares', async () => {
+    const calls: string[] = [];
+    const trace = (name: string) => async (_ctx: Context, next: () => Promise<void>) => {
+      calls.push(name);
+      await next();
+    };
+
+    adapter.group('/api', { middlewares: [trace('api')] }, (api) => {
+      api.get('/', () => 'api root');
+      api.group('/admin', { name: 'Admin', middlewares: [trace('admin')] }, (admin) => {
+        admin.get('/users/:id', (ctx: Context) => ctx.getParam('id'), { middlewares: [trace('route')] });
+      });
+    });
+
+    (await adapter.inject({ url: '/api' })).expectBody('api root');
+    (await adapter.inject({ url: '/api/admin/users/3' })).expectBody('3');
+
+    expect(calls).toEqual(['api', 'api', 'admin', 'route']);
+
+    const routes = adapter.getRoutes();
+
+    expect(routes.find((route) => route.path === '/api')).toMatchObject({
+      controllerName: '/api',
+      controllerBasePath: '/api',
+    });
+    expect(routes.find((route) => route.path === '/api/admin/users/:id')).toMatchObject({
+      controllerName: 'Admin',
+      controllerBasePath: '/api/admin',
+      fastPath: false,
+    });
+  });
+
+  it('should run a middleware function registered on a group and a route once', async () => {
+    const audit = mock(async (_ctx: Context, next: () => Promise<void>) => {
+      await next();
+    });
+
+    adapter.group('/audit', { middlewares: [audit] }, (group) => {
+      group.get('/log', () => 'ok', { middlewares: [audit] });
+    });
+
+    (await adapter.inject({ url: '/audit/log' })).expectStatus(200);
+
+    expect(audit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should validate with Zod schemas merged over the group validator', async () => {
+    adapter.group('/items', { validator: { query: z.object({ page: z.string() }) } }, (items) => {
+      items.post('/', async (ctx: Context) => ({ page: await ctx.getQuery('page'), body: await ctx.getBody() }), {
+        validator: { json: z.object({ name: z.string() }) },
+      });
+    });
+
+    (await adapter.inject({ method: 'POST', url: '/items', body: { name: 'pen' } })).expectStatus(400);
+    (await adapter.inject({ method: 'POST', url: '/items?page=2', body: { name: 3 } })).expectStatus(400);
+    (await adapter.inject({ method: 'POST', url: '/items?page=2', body: { name: 'pen' } }))
+      .expectStatus(200)
+      .expectJson({ page: '2', body: { name: 'pen' } });
+  });
+
+  it('should combine group and route hooks and inherit other options', async () => {
+    const calls: string[] = [];
+
+    adapter.group('/slow', { hooks: { onRequest: () => void calls.push('group') }, timeout: 20 }, (group) => {
+      group.get('/wait', () => Bun.sleep(100).then(() => 'late'), {
+        hooks: { onRequest: () => void calls.push('route') },
+      });
+      group.get('/fast', () => 'fast', { timeout: false });
+    });
+
+    (await adapter.inject({ url: '/slow/wait' })).expectStatus(503);
+    (await adapter.inject({ url: '/slow/fast' })).expectStatus(200).expectBody('fast');
+
+    expect(calls).toEqual(['group', 'route', 'group']);
+  });
+
+  it('should apply routes registered after start to the running server', async () => {
+    const server = await adapter.start();
+
+    adapter.group('/late', (late) => late.get('/route', () => 'added'));
+    await Bun.sleep(10);
+
+    const response = await fetch(`http://localhost:${server.port}/late/route`);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('added');
+  });
+});
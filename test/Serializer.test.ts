@@ -0,0 +1,161 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import { z } from 'zod';
+import type { Context } from '../lib';
+import { compileSchemaFilter, compileSchemaSerializer, createJsonSerializer } from '../lib/utils/Serializer';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Response Serializers', () => {
+  describe('createJsonSerializer', () => {
+    it('should encode BigInt, Map and Set', () => {
+      const serialize = createJsonSerializer();
+
+      expect(serialize({ id: 10n, meta: new Map([['a', 1]]), tags: new Set(['x', 'y']) })).toBe(
+        '{"id":"10","meta":{"a":1},"tags":["x","y"]}',
+      );
+      expect(createJsonSerializer({ bigint: 'number' })({ id: 10n })).toBe('{"id":10}');
+    });
+
+    it('should apply the custom replacer after the built-in conversions', () => {
+      const serialize = createJsonSerializer({
+        replacer: (key, value) => (key === 'password' ? undefined : value),
+      });
+
+      expect(serialize({ user: 'john', password: 'secret', id: 1n })).toBe('{"user":"john","id":"1"}');
+    });
+  });
+
+  describe('compileSchemaSerializer', () => {
+    const schema = z.object({
+      id: z.number(),
+      name: z.string(),
+      active: z.boolean(),
+      nickname: z.string().optional(),
+      manager: z.object({ id: z.number() }).nullable(),
+      tags: z.array(z.string()),
+      balance: z.bigint(),
+    });
+    const serialize = compileSchemaSerializer(schema, createJsonSerializer());
+
+    it('should write only the declared properties', () => {
+      const user = {
+        id: 1,
+        name: 'John "J"',
+        active: true,
+        manager: null,
+        tags: ['a'],
+        balance: 5n,
+        password: 'secret',
+      };
+
+      expect(serialize(user)).toBe(
+        '{"id":1,"name":"John \\"J\\"","active":true,"manager":null,"tags":["a"],"balance":"5"}',
+      );
+      expect(JSON.parse(serialize(user))).not.toHaveProperty('password');
+    });
+
+    it('should fall back to JSON encoding for unexpected values', () => {
+      expect(serialize([1, 2])).toBe('[1,2]');
+      expect(compileSchemaSerializer(z.number(), createJsonSerializer())(NaN)).toBe('null');
+    });
+  });
+
+  describe('compileSchemaFilter', () => {
+    it('should keep only the declared properties', () => {
+      const filter = compileSchemaFilter(
+        z.object({
+          id: z.number(),
+          nickname: z.string().optional(),
+          manager: z.object({ id: z.number() }).nullable(),
+          posts: z.array(z.object({ title: z.string() })),
+        }),
+      );
+
+      expect(
+        filter({ id: 1, manager: { id: 2, salary: 10 }, posts: [{ title: 'a', draft: true }], password: 'secret' }),
+      ).toEqual({ id: 1, manager: { id: 2 }, posts: [{ title: 'a' }] });
+      expect(filter('unexpected')).toBe('unexpected');
+    });
+  });
+
+  describe('Adapter integration', () => {
+    let adapter: Ergenecore;
+
+    const route = (path: string, handler: (ctx: Context) => any, extra: Record<string, any> = {}) => {
+      adapter.registerRoute({
+        staticServe: undefined,
+        validator: undefined,
+        middlewares: [],
+        method: HttpMethod.GET,
+        path,
+        handler,
+        ...extra,
+      });
+    };
+
+    beforeEach(() => {
+      adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+      adapter.setPort(0);
+    });
+
+    afterEach(async () => {
+      await adapter.stop();
+    });
+
+    it('should serialize BigInt return values on the fast path', async () => {
+      route('/stats', async () => ({ total: 9007199254740993n }));
+
+      (await adapter.inject({ url: '/stats' })).expectStatus(200).expectJson({ total: '9007199254740993' });
+    });
+
+    it('should answer 204 for undefined and null return values', async () => {
+      route('/void', async () => undefined);
+      route('/null', async () => null, {
+        middlewares: [{ override: false, handle: async (_ctx: Context, next: () => Promise<void>) => next() }],
+      });
+
+      (await adapter.inject({ url: '/void' })).expectStatus(204).expectBody('');
+      (await adapter.inject({ url: '/null' })).expectStatus(204).expectBody('');
+    });
+
+    it('should use global options and let routes override them', async () => {
+      route('/global', async () => ({ id: 1n }));
+      route('/custom', async () => ({ id: 1n }), {
+        serializer: { serialize: (value: unknown) => `custom:${typeof value}`, contentType: 'text/plain' },
+      });
+      adapter.setSerializer({ bigint: 'number' });
+
+      (await adapter.inject({ url: '/global' })).expectJson({ id: 1 });
+      (await adapter.inject({ url: '/custom' })).expectHeader('Content-Type', 'text/plain').expectBody('custom:object');
+    });
+
+    it('should use the response schema of a route', async () => {
+      route('/users/:id', async (ctx) => ({ id: Number(ctx.getParam('id')), name: 'John', passwordHash: 'x' }), {
+        responseSchema: z.object({ id: z.number(), name: z.string() }),
+      });
+
+      (await adapter.inject({ url: '/users/7' })).expectBody('{"id":7,"name":"John"}');
+    });
+
+    it('should apply the replacer to every property of a response schema', async () => {
+      route('/users/:id', async (ctx) => ({ id: Number(ctx.getParam('id')), name: 'John', passwordHash: 'x' }), {
+        responseSchema: z.object({ id: z.number(), name: z.string() }),
+      });
+      adapter.setSerializer({
+        replacer: (key, value) =>
+          key === 'name' ? String(value).toUpperCase() : key === 'id' ? (value as number) + 1 : value,
+      });
+
+      (await adapter.inject({ url: '/users/7' })).expectBody('{"id":8,"name":"JOHN"}');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import type { HTMLBundle } from 'bun';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+describe('Static Routes', () => {
+  let adapter: Ergenecore;
+  let index: HTMLBundle;
+  const FIXTURE_DIR = path.join(import.meta.dir, 'fixtures', 'static-routes');
+  const INDEX_FILE = path.join(FIXTURE_DIR, 'index.html');
+
+  const registerApiRoute = (routePath: string) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method: HttpMethod.GET,
+      path: routePath,
+      handler: async () => ({ users: [] }),
+    });
+  };
+
+  beforeAll(async () => {
+    fs.mkdirSync(FIXTURE_DIR, { recursive: true });
+    fs.writeFileSync(INDEX_FILE, '<!doctype html><html><head><title>App</title></head><body>App</body></html>');
+    index = (await import(INDEX_FILE)).default;
+  });
+
+  afterAll(() => {
+    fs.rmSync(FIXTURE_DIR, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  it('should serve static responses for every method without middlewares', async () => {
+    const middleware = mock(async (_ctx: any, next: () => Promise<void>) => next());
+
+    adapter.use({ override: false, handle: middleware });
+    adapter.registerStaticRoute('/health/ping', new Response('pong', { headers: { 'Cache-Control': 'no-store' } }));
+
+    (await adapter.inject({ url: '/health/ping' })).expectBody('pong').expectHeader('Cache-Control', 'no-store');
+    (await adapter.inject({ method: 'POST', url: '/health/ping' })).expectStatus(200).expectBody('pong');
+    expect(middleware).not.toHaveBeenCalled();
+  });
+
+  it('should serve files and HTML bundles through inject()', async () => {
+    adapter.registerStaticRoute('/robots.txt', Bun.file(INDEX_FILE));
+    adapter.registerStaticRoute('/', index);
+
+    (await adapter.inject({ url: '/robots.txt' })).expectStatus(200).expectBody(fs.readFileSync(INDEX_FILE, 'utf8'));
+    (await adapter.inject({ url: '/' })).expectStatus(200).expectHeader('Content-Type', /text\/html/);
+  });
+
+  it('should serve an HTML bundle alongside controller routes on a running server', async () => {
+    registerApiRoute('/api/users');
+    adapter.registerStaticRoute('/*', index);
+
+    const server = await adapter.start();
+    const api = await fetch(`http://localhost:${server.port}/api/users`);
+    const page = await fetch(`http://localhost:${server.port}/dashboard/settings`);
+
+    expect(await api.json()).toEqual({ users: [] });
+    expect(page.headers.get('Content-Type')).toContain('text/html');
+    expect(await page.text()).toContain('<title>App</title>');
+  });
+
+  it('should reject static routes colliding with controller routes', async () => {
+    registerApiRoute('/api/users');
+    adapter.registerStaticRoute('/api/users', new Response('static'));
+
+    await expect(adapter.start()).rejects.toThrow('Route collision detected at path "/api/users"');
+  });
+
+  it('should reject values Bun cannot serve statically', () => {
+    expect(() => adapter.registerStaticRoute('/bad', 'text' as any)).toThrow(TypeError);
+  });
+
+  it('should add and remove static routes on a running server', async () => {
+    registerApiRoute('/api/users');
+
+    const server = await adapter.start();
+
+    adapter.registerStaticRoute('/robots.txt', new Response('User-agent: *'));
+    await Bun.sleep(10);
+    expect(await (await fetch(`http://localhost:${server.port}/robots.txt`)).text()).toBe('User-agent: *');
+
+    expect(adapter.removeStaticRoute('/robots.txt')).toBe(true);
+    await Bun.sleep(10);
+    expect((await fetch(`http://localhost:${server.port}/robots.txt`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, expect, it, beforeAll, afterAll, afterEach, mock } from 'bun:test';
+import { createErgenecoreAdapter, Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import { X509Certificate } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as tls from 'tls';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+/**
+ * Returns the fingerprint of the certificate presented for a server name
+ */
+const getPeerFingerprint = (port: number, servername = 'localhost') =>
+  new Promise<string>((resolve, reject) => {
+    const socket = tls.connect({ port, host: 'localhost', servername, rejectUnauthorized: false }, () => {
+      resolve(socket.getPeerCertificate().fingerprint);
+      socket.end();
+    });
+
+    socket.on('error', reject);
+  });
+
+const getFileFingerprint = (file: string) => new X509Certificate(fs.readFileSync(file)).fingerprint;
+
+describe.skipIf(!Bun.which('openssl'))('TLS', () => {
+  let adapter: Ergenecore;
+  let dir: string;
+  const file = (name: string) => path.join(dir, name);
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ergenecore-tls-'));
+
+    // Self-signed certificates for the tests
+    for (const name of ['first', 'second']) {
+      Bun.spawnSync([
+        'openssl',
+        'req',
+        '-x509',
+        '-newkey',
+        'rsa:2048',
+        '-nodes',
+        '-days',
+        '1',
+        '-subj',
+        `/CN=${name}.test`,
+        '-keyout',
+        file(`${name}.key`),
+        '-out',
+        file(`${name}.crt`),
+      ]);
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await adapter?.stop();
+  });
+
+  const createAdapter = () => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method: HttpMethod.GET,
+      path: '/users',
+      handler: async () => ({ users: [] }),
+    });
+
+    return adapter;
+  };
+
+  const fetchHttps = (url: string) => fetch(url, { tls: { rejectUnauthorized: false } });
+
+  it('should serve HTTPS with certificates configured through the factory', async () => {
+    adapter = createErgenecoreAdapter({
+      port: 0,
+      logger: mockLogger,
+      tls: { cert: file('first.crt'), key: file('first.key'), watch: false },
+    });
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method: HttpMethod.GET,
+      path: '/users',
+      handler: async () => ({ users: [] }),
+    });
+
+    const server = await adapter.start();
+
+    expect(await (await fetchHttps(`https://localhost:${server.port}/users`)).json()).toEqual({ users: [] });
+    expect(await getPeerFingerprint(server.port)).toBe(getFileFingerprint(file('first.crt')));
+  });
+
+  it('should select SNI certificates by server name', async () => {
+    createAdapter().setTls({
+      cert: file('first.crt'),
+      key: file('first.key'),
+      certificates: [{ serverName: 'second.test', cert: file('second.crt'), key: file('second.key') }],
+      watch: false,
+    });
+
+    const server = await adapter.start();
+
+    expect(await getPeerFingerprint(server.port, 'second.test')).toBe(getFileFingerprint(file('second.crt')));
+    expect(await getPeerFingerprint(server.port, 'other.test')).toBe(getFileFingerprint(file('first.crt')));
+  });
+
+  it('should apply rotated certificate files without changing the port', async () => {
+    fs.copyFileSync(file('first.crt'), file('site.crt'));
+    fs.copyFileSync(file('first.key'), file('site.key'));
+    createAdapter().setTls({ cert: file('site.crt'), key: file('site.key') });
+
+    const { port } = await adapter.start();
+
+    fs.copyFileSync(file('second.crt'), file('site.crt'));
+    fs.copyFileSync(file('second.key'), file('site.key'));
+
+    const expected = getFileFingerprint(file('second.crt'));
+    const deadline = Date.now() + 3000;
+
+    while ((await getPeerFingerprint(port)) !== expected && Date.now() < deadline) {
+      await Bun.sleep(50);
+    }
+
+    expect(await getPeerFingerprint(port)).toBe(expected);
+    expect((await fetchHttps(`https://localhost:${port}/users`)).status).toBe(200);
+  });
+
+  it('should not share the HTTPS port with other processes unless reusePort is enabled', async () => {
+    createAdapter().setTls({ cert: file('first.crt'), key: file('first.key'), watch: false });
+
+    const { port } = await adapter.start();
+
+    expect(() => Bun.serve({ port, reusePort: true, fetch: () => new Response('other') }).stop()).toThrow();
+  });
+
+  it('should finish in-flight requests when rotating certificates without reusePort', async () => {
+    fs.copyFileSync(file('first.crt'), file('slow.crt'));
+    fs.copyFileSync(file('first.key'), file('slow.key'));
+    createAdapter().registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      middlewares: [],
+      method: HttpMethod.GET,
+      path: '/slow',
+      handler: async () => {
+        await Bun.sleep(500);
+
+        return 'done';
+      },
+    });
+    adapter.setTls({ cert: file('slow.crt'), key: file('slow.key') });
+
+    const { port } = await adapter.start();
+    const inFlight = fetchHttps(`https://localhost:${port}/slow`);
+
+    await Bun.sleep(50);
+    fs.copyFileSync(file('second.crt'), file('slow.crt'));
+    fs.copyFileSync(file('second.key'), file('slow.key'));
+
+    const expected = getFileFingerprint(file('second.crt'));
+    const deadline = Date.now() + 3000;
+
+    while ((await getPeerFingerprint(port)) !== expected && Date.now() < deadline) {
+      await Bun.sleep(50);
+    }
+
+    expect(await getPeerFingerprint(port)).toBe(expected);
+    expect(await (await inFlight).text()).toBe('done');
+  });
+
+  it('should keep the current certificates when changed files are invalid', async () => {
+    fs.copyFileSync(file('first.crt'), file('broken.crt'));
+    fs.copyFileSync(file('first.key'), file('broken.key'));
+    createAdapter().setTls({ cert: file('broken.crt'), key: file('broken.key') });
+
+    const { port } = await adapter.start();
+    const errors = (mockLogger.error as ReturnType<typeof mock>).mock.calls.length;
+
+    fs.writeFileSync(file('broken.crt'), 'not a certificate');
+    await Bun.sleep(500);
+
+    expect((mockLogger.error as ReturnType<typeof mock>).mock.calls.length).toBeGreaterThan(errors);
+    expect(await getPeerFingerprint(port)).toBe(getFileFingerprint(file('first.crt')));
+  });
+
+  it('should redirect HTTP to HTTPS and serve ACME challenges', async () => {
+    const acmeDir = file('acme');
+
+    fs.mkdirSync(acmeDir, { recursive: true });
+    fs.writeFileSync(path.join(acmeDir, 'token-123'), 'token-123.thumbprint');
+    createAdapter().setTls({
+      cert: file('first.crt'),
+      key: file('first.key'),
+      watch: false,
+      httpRedirect: { port: 0, acmeChallengeDir: acmeDir },
+    });
+
+    const server = await adapter.start();
+    const http = `http://localhost:${adapter['redirectServer'].port}`;
+    const redirect = await fetch(`${http}/users?page=2`, { redirect: 'manual' });
+    const challenge = await fetch(`${http}/.well-known/acme-challenge/token-123`);
+
+    expect(redirect.status).toBe(308);
+    expect(redirect.headers.get('Location')).toBe(`https://localhost:${server.port}/users?page=2`);
+    expect(await challenge.text()).toBe('token-123.thumbprint');
+    expect((await fetch(`${http}/.well-known/acme-challenge/missing`)).status).toBe(404);
+    expect((await fetch(`${http}/.well-known/acme-challenge/..%2Ffirst.key`)).status).toBe(404);
+
+    await adapter.stop();
+
+    expect(adapter['redirectServer']).toBeUndefined();
+  });
+
+  it('should reject incomplete TLS options', async () => {
+    createAdapter();
+
+    expect(() => adapter.setTls({})).toThrow('must define a certificate');
+    expect(() => adapter.setTls({ cert: file('first.crt') })).toThrow('both cert and key');
+    expect(() =>
+      adapter.setTls({ cert: file('first.crt'), key: file('first.key'), certificates: [{ cert: 'a', key: 'b' }] }),
+    ).toThrow('serverName');
+
+    await adapter.start();
+
+    expect(() => adapter.setTls({ cert: file('first.crt'), key: file('first.key') })).toThrow('after the server');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Ergenecore, ErgenecoreWebsocketAdapter } from '../lib';
+import type { ErgenecoreHandler, RouteContext } from '../lib';
+import type { ServerLogger } from '@asenajs/asena/logger';
+import { HttpMethod } from '@asenajs/asena/web-types';
+import { z } from 'zod';
+
+// Mock logger
+const mockLogger: ServerLogger = {
+  profile: mock(() => {}),
+  info: mock(() => {}),
+  error: mock(() => {}),
+  warn: mock(() => {}),
+};
+
+const CreateUser = z.object({ name: z.string().trim(), age: z.coerce.number() });
+const Pagination = z.object({ page: z.coerce.number().default(1), tags: z.string().optional() });
+
+describe('Typed Context', () => {
+  let adapter: Ergenecore;
+
+  beforeEach(() => {
+    adapter = new Ergenecore(mockLogger, new ErgenecoreWebsocketAdapter(mockLogger));
+    adapter.setPort(0);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  it('should type params from the path literal', async () => {
+    adapter.get('/users/:id/posts/:postId', (ctx) => {
+      // @ts-expect-error - 'post' is not a param of the path
+      expect(ctx.getParam('post')).toBe('');
+
+      return { id: ctx.getParam('id'), postId: ctx.getParam('postId') };
+    });
+
+    (await adapter.inject({ url: '/users/1/posts/2' })).expectJson({ id: '1', postId: '2' });
+  });
+
+  it('should return the parsed body and query after validation', async () => {
+    adapter.post(
+      '/users',
+      async (ctx) => {
+        const body = await ctx.getBody();
+        const page = await ctx.getQuery('page');
+
+        return { name: body.name, nextAge: body.age + 1, nextPage: page + 1, tags: await ctx.getQueryAll('tags') };
+      },
+      { validator: { json: CreateUser, query: Pagination } },
+    );
+
+    (await adapter.inject({ method: 'POST', url: '/users?tags=a&tags=b', body: { name: ' Ada ', age: '36' } }))
+      .expectStatus(200)
+      .expectJson({ name: 'Ada', nextAge: 37, nextPage: 2, tags: ['a', 'b'] });
+  });
+
+  it('should type params of nested groups and inherit group schemas', async () => {
+    adapter.group('/tenants/:tenantId', { validator: { json: CreateUser } }, (tenants) => {
+      tenants.group('/users', (users) => {
+        users.put('/:userId', async (ctx) => {
+          const { age } = await ctx.getBody();
+
+          return { tenant: ctx.getParam('tenantId'), user: ctx.getParam('userId'), age };
+        });
+      });
+    });
+
+    (await adapter.inject({ method: 'PUT', url: '/tenants/t1/users/u1', body: { name: 'Ada', age: '36' } })).expectJson(
+      { tenant: 't1', user: 'u1', age: 36 },
+    );
+  });
+
+  it('should type controller-style handlers with RouteContext', async () => {
+    const handler: ErgenecoreHandler<RouteContext<'/search', { query: typeof Pagination }>> = async (ctx) => ({
+      page: await ctx.getQuery('page'),
+    });
+
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: { query: { handle: () => ({ schema: Pagination }), override: false } },
+      middlewares: [],
+      method: HttpMethod.GET,
+      path: '/search',
+      handler: handler as ErgenecoreHandler,
+    });
+
+    (await adapter.inject({ url: '/search' })).expectJson({ page: 1 });
+    (await adapter.inject({ url: '/search?page=3' })).expectJson({ page: 3 });
+  });
+});
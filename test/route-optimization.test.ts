@@ -1,5 +1,5 @@
 import { describe, expect, test, beforeAll, afterAll, mock } from 'bun:test';
-import { Ergenecore } from '../lib';
+import { Ergenecore, MiddlewareService } from '../lib';
 import { HttpMethod } from '@asenajs/asena/web-types';
 import type { ServerLogger } from '@asenajs/asena/logger';
 import type { Context } from '../lib';
@@ -400,3 +400,125 @@ describe('Integration Test', () => {
     expect(LogMiddleware.executionCount).toBeGreaterThan(0);
   });
 });
+
+describe('Middleware Deduplication', () => {
+  class CounterMiddleware extends MiddlewareService {
+    public calls = 0;
+
+    public async handle(_context: Context, next: () => Promise<void>): Promise<void> {
+      this.calls++;
+      await next();
+    }
+  }
+
+  // Asena prepares a new wrapper object (with a newly bound handle) per registration
+  const wrap = (service: MiddlewareService) => ({ handle: service.handle.bind(service), override: false });
+
+  const route = (adapter: Ergenecore, path: string, middlewares: any[], controllerName?: string) => {
+    adapter.registerRoute({
+      staticServe: undefined,
+      validator: undefined,
+      method: HttpMethod.GET,
+      path,
+      middlewares,
+      controllerName,
+      handler: async () => ({ ok: true }),
+    });
+  };
+
+  test('should run a middleware registered globally and on the route once', async () => {
+    const adapter = new Ergenecore(mockLogger);
+    const counter = new CounterMiddleware();
+
+    adapter.use(counter);
+    route(adapter, '/users', [counter, counter]);
+
+    (await adapter.inject({ url: '/users' })).expectStatus(200);
+    expect(counter.calls).toBe(1);
+    expect(adapter.getRoutes()[0].chain).toHaveLength(1);
+  });
+
+  test('should run a shared wrapper and separately bound wrappers of one instance once', async () => {
+    const adapter = new Ergenecore(mockLogger);
+    const counter = new CounterMiddleware();
+    const shared = { handle: counter.handle.bind(counter), override: false };
+
+    route(adapter, '/shared', [shared, { ...shared }]);
+    route(adapter, '/bound', [wrap(counter), wrap(counter)]);
+
+    (await adapter.inject({ url: '/shared' })).expectStatus(200);
+    expect(counter.calls).toBe(1);
+
+    (await adapter.inject({ url: '/bound' })).expectStatus(200);
+    expect(counter.calls).toBe(2);
+  });
+
+  test('should run a service registered through decorators at several levels once', async () => {
+    const adapter = new Ergenecore(mockLogger);
+    const counter = new CounterMiddleware();
+
+    // Global, controller and route registrations, each prepared by Asena
+    adapter.use(wrap(counter));
+    route(adapter, '/users', [wrap(counter), wrap(counter)], 'UserController');
+
+    (await adapter.inject({ url: '/users' })).expectStatus(200);
+    expect(counter.calls).toBe(1);
+    expect(adapter.getRoutes()[0].chain).toHaveLength(1);
+  });
+
+  test('should key instances with an arrow function handle on the instance', async () => {
+    class ArrowMiddleware extends MiddlewareService {
+      public calls = 0;
+
+      public handle = async (_context: Context, next: () => Promise<void>): Promise<void> => {
+        this.calls++;
+        await next();
+      };
+    }
+
+    const adapter = new Ergenecore(mockLogger);
+    const arrow = new ArrowMiddleware();
+
+    adapter.use(arrow);
+    route(adapter, '/users', [arrow]);
+
+    (await adapter.inject({ url: '/users' })).expectStatus(200);
+    expect(arrow.calls).toBe(1);
+  });
+
+  test('should keep differently configured instances of the same class', async () => {
+    const adapter = new Ergenecore(mockLogger);
+    const first = new CounterMiddleware();
+    const second = new CounterMiddleware();
+
+    route(adapter, '/users', [first, wrap(second)]);
+
+    (await adapter.inject({ url: '/users' })).expectStatus(200);
+    expect(first.calls).toBe(1);
+    expect(second.calls).toBe(1);
+    // @ts-ignore - Testing private method
+    expect(adapter.extractCommonMiddlewares([{ middlewares: [first] }, { middlewares: [second] }])).toEqual([]);
+  });
+
+  test('should show the effective chain in the startup log', () => {
+    const adapter = new Ergenecore(mockLogger);
+    const counter = new CounterMiddleware();
+    const audit = {
+      handle: async function audit(_ctx: Context, next: () => Promise<void>) {
+        await next();
+      },
+      override: false,
+    };
+
+    adapter.use(counter);
+    route(adapter, '/users', [counter], 'UserController');
+    route(adapter, '/users/:id', [audit], 'UserController');
+
+    // @ts-ignore - Testing private method
+    const log: string = Bun.stripANSI(adapter.buildControllerBasedLog());
+
+    expect(log).toContain('UserController (/) [CounterMiddleware]');
+    expect(log).toContain('GET /users/:id [audit]');
+    expect(log).not.toContain('GET /users [');
+  });
+});